@@ -0,0 +1,225 @@
+/**
+ * Agent Registry
+ *
+ * Binds an agentId to the Solana wallet it controls. A binding is only
+ * recorded once the wallet has signed a one-time challenge (ed25519 over the
+ * UTF-8 challenge message, as wallet signMessage produces), so trust can't be
+ * attested to a wallet the agent doesn't own.
+ *
+ * Each agent binds to one wallet and each wallet to one agent. Only the
+ * platform (a platform-ingest key) relays registrations, which vouches for
+ * the agentId; an oracle admin can unbind an agent so it can bind again.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { verifyBytes } from './ed25519';
+import { Clock, systemClock } from './clock';
+
+export const DEFAULT_REGISTRY_PATH = path.join(process.env.HOME || '~', '.config/moltbotden-trust/agents.jsonl');
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// Pending challenges held at once, per wallet and in total
+const MAX_CHALLENGES_PER_WALLET = 3;
+const MAX_PENDING_CHALLENGES = 10000;
+
+export interface RegistrationChallenge {
+  agentId: string;
+  solanaWallet: string;
+  nonce: string;
+  message: string;           // Exact text the wallet must sign
+  expiresAt: number;         // Unix timestamp (ms)
+}
+
+export interface AgentBinding {
+  agentId: string;
+  solanaWallet: string;
+  nonce: string;
+  signature: string;         // Wallet's base58 signature over the challenge message
+  registeredAt: number;      // Unix timestamp (ms)
+}
+
+export interface AgentUnbinding {
+  agentId: string;
+  solanaWallet: string;      // Wallet the agent was bound to
+  reason: string;
+  unboundAt: number;         // Unix timestamp (ms)
+}
+
+export class RegistrationError extends Error {
+  constructor(message: string, public readonly kind: 'invalid' | 'conflict' | 'not_found' | 'limited') {
+    super(message);
+    this.name = 'RegistrationError';
+  }
+}
+
+/**
+ * The message a wallet signs to prove it belongs to an agent
+ */
+export function challengeMessage(agentId: string, solanaWallet: string, nonce: string, expiresAt: number): string {
+  return [
+    'MoltbotDen Trust Protocol wallet registration',
+    `Agent: ${agentId}`,
+    `Wallet: ${solanaWallet}`,
+    `Nonce: ${nonce}`,
+    `Expires: ${new Date(expiresAt).toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Persistent agentId ↔ wallet bindings (append-only JSONL; an unbinding line
+ * removes one), with pending challenges held in memory until used or expired
+ */
+export class AgentRegistry {
+  private byAgent = new Map<string, AgentBinding>();
+  private byWallet = new Map<string, AgentBinding>();
+  private challenges = new Map<string, RegistrationChallenge>();
+
+  constructor(
+    private filePath: string = DEFAULT_REGISTRY_PATH,
+    private challengeTtlMs = CHALLENGE_TTL_MS,
+    private clock: Clock = systemClock,
+  ) {
+    this.load();
+  }
+
+  /**
+   * Issue a single-use challenge for the wallet to sign
+   */
+  createChallenge(agentId: string, solanaWallet: string): RegistrationChallenge {
+    this.checkAvailable(agentId, solanaWallet);
+    this.pruneChallenges();
+    const pending = [...this.challenges.values()].filter(c => c.solanaWallet === solanaWallet).length;
+    if (pending >= MAX_CHALLENGES_PER_WALLET) {
+      throw new RegistrationError(`Wallet ${solanaWallet} already has ${pending} pending challenges`, 'limited');
+    }
+    if (this.challenges.size >= MAX_PENDING_CHALLENGES) {
+      throw new RegistrationError('Too many pending challenges; try again later', 'limited');
+    }
+
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const expiresAt = this.clock.now() + this.challengeTtlMs;
+    const challenge: RegistrationChallenge = {
+      agentId,
+      solanaWallet,
+      nonce,
+      message: challengeMessage(agentId, solanaWallet, nonce, expiresAt),
+      expiresAt,
+    };
+    this.challenges.set(nonce, challenge);
+    return challenge;
+  }
+
+  /**
+   * Verify the wallet's signature over a challenge and record the binding.
+   * Re-registering an existing binding returns it unchanged.
+   */
+  register(agentId: string, solanaWallet: string, nonce: string, signature: string): AgentBinding {
+    const challenge = this.challenges.get(nonce);
+    if (!challenge || challenge.agentId !== agentId || challenge.solanaWallet !== solanaWallet) {
+      throw new RegistrationError('Unknown challenge for this agent and wallet', 'invalid');
+    }
+    if (challenge.expiresAt < this.clock.now()) {
+      this.challenges.delete(nonce);
+      throw new RegistrationError('Challenge has expired', 'invalid');
+    }
+    if (!verifyBytes(Buffer.from(challenge.message, 'utf-8'), signature, solanaWallet)) {
+      throw new RegistrationError('Signature does not verify against the wallet', 'invalid');
+    }
+    this.challenges.delete(nonce);
+
+    const existing = this.checkAvailable(agentId, solanaWallet);
+    if (existing) return existing;
+
+    const binding: AgentBinding = { agentId, solanaWallet, nonce, signature, registeredAt: this.clock.now() };
+    this.append(binding);
+    return binding;
+  }
+
+  /**
+   * Remove an agent's binding (e.g. one claimed by someone else), freeing
+   * both the agentId and the wallet to register again
+   */
+  unbind(agentId: string, reason: string): AgentUnbinding {
+    const binding = this.byAgent.get(agentId);
+    if (!binding) throw new RegistrationError(`Agent ${agentId} is not registered`, 'not_found');
+    const unbinding: AgentUnbinding = { agentId, solanaWallet: binding.solanaWallet, reason, unboundAt: this.clock.now() };
+    this.append(unbinding);
+    return unbinding;
+  }
+
+  get(agentId: string): AgentBinding | undefined {
+    return this.byAgent.get(agentId);
+  }
+
+  getByWallet(solanaWallet: string): AgentBinding | undefined {
+    return this.byWallet.get(solanaWallet);
+  }
+
+  /**
+   * Whether the agent has proven ownership of this wallet
+   */
+  isBound(agentId: string, solanaWallet: string): boolean {
+    return this.byAgent.get(agentId)?.solanaWallet === solanaWallet;
+  }
+
+  bindings(): AgentBinding[] {
+    return [...this.byAgent.values()];
+  }
+
+  // Returns the binding if this exact pair is already registered
+  private checkAvailable(agentId: string, solanaWallet: string): AgentBinding | undefined {
+    try {
+      new PublicKey(solanaWallet);
+    } catch {
+      throw new RegistrationError(`Invalid Solana wallet: ${solanaWallet}`, 'invalid');
+    }
+    const agentBinding = this.byAgent.get(agentId);
+    if (agentBinding && agentBinding.solanaWallet !== solanaWallet) {
+      throw new RegistrationError(`Agent ${agentId} is already bound to another wallet`, 'conflict');
+    }
+    const walletBinding = this.byWallet.get(solanaWallet);
+    if (walletBinding && walletBinding.agentId !== agentId) {
+      throw new RegistrationError(`Wallet ${solanaWallet} is already bound to another agent`, 'conflict');
+    }
+    return agentBinding;
+  }
+
+  private pruneChallenges(): void {
+    const now = this.clock.now();
+    for (const [nonce, challenge] of this.challenges) {
+      if (challenge.expiresAt < now) this.challenges.delete(nonce);
+    }
+  }
+
+  private append(line: AgentBinding | AgentUnbinding): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(line) + '\n');
+    this.put(line);
+  }
+
+  private put(line: AgentBinding | AgentUnbinding): void {
+    if ('unboundAt' in line) {
+      if (this.byAgent.get(line.agentId)?.solanaWallet !== line.solanaWallet) return;
+      this.byAgent.delete(line.agentId);
+      this.byWallet.delete(line.solanaWallet);
+      return;
+    }
+    const binding = line;
+    if (this.byAgent.has(binding.agentId) || this.byWallet.has(binding.solanaWallet)) return;
+    this.byAgent.set(binding.agentId, binding);
+    this.byWallet.set(binding.solanaWallet, binding);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    for (const raw of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!raw.trim()) continue;
+      try { this.put(JSON.parse(raw)); }
+      catch {} // Torn final line from an interrupted write
+    }
+  }
+}
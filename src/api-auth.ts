@@ -0,0 +1,152 @@
+/**
+ * API Authentication
+ *
+ * Bearer API keys with roles and per-key rate limits. Keys are stored only
+ * as sha256 hashes; the plaintext is shown once, when the key is created.
+ *
+ * Roles are ranked — each includes everything below it:
+ * - reader          — queries, search, dry-run calculations
+ * - platform-ingest — attestations and endorsements
+ * - reviewer        — dispute review and corrected attestations
+ * - oracle-admin    — status changes, oracle funding, key management
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Clock, systemClock } from './clock';
+
+export const DEFAULT_API_KEYS_PATH = path.join(process.env.HOME || '~', '.config/moltbotden-trust/api-keys.json');
+
+export const API_ROLES = ['reader', 'platform-ingest', 'reviewer', 'oracle-admin'] as const;
+
+export type ApiRole = typeof API_ROLES[number];
+
+// Requests per minute when a key doesn't set its own limit
+const DEFAULT_RATE_LIMITS: Record<ApiRole, number> = {
+  'reader': 600,
+  'platform-ingest': 120,
+  'reviewer': 60,
+  'oracle-admin': 60,
+};
+
+export interface ApiKey {
+  id: string;                // Who holds the key, e.g. "moltbotden-platform"
+  role: ApiRole;
+  hash: string;              // sha256 hex of the key
+  rateLimit?: number;        // Requests per minute
+  createdAt: number;         // Unix timestamp (ms)
+  revokedAt?: number;
+}
+
+export function hasRole(key: ApiKey, required: ApiRole): boolean {
+  return API_ROLES.indexOf(key.role) >= API_ROLES.indexOf(required);
+}
+
+/**
+ * A usable per-key limit: a whole number of requests per minute, at least one
+ */
+export function isRateLimit(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) > 0;
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * API keys persisted as a JSON file of hashes
+ */
+export class ApiKeyStore {
+  private keys = new Map<string, ApiKey>();
+
+  constructor(private filePath: string = DEFAULT_API_KEYS_PATH, private clock: Clock = systemClock) {
+    if (fs.existsSync(filePath)) {
+      const { keys } = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      for (const key of keys as ApiKey[]) this.keys.set(key.id, key);
+    }
+  }
+
+  /**
+   * Create a key and return its plaintext (the only time it is available)
+   */
+  create(id: string, role: ApiRole, rateLimit?: number): { key: string; apiKey: ApiKey } {
+    if (!API_ROLES.includes(role)) throw new Error(`Unknown role: ${role}`);
+    if (rateLimit !== undefined && !isRateLimit(rateLimit)) throw new Error(`Invalid rate limit: ${rateLimit}`);
+    const existing = this.keys.get(id);
+    if (existing && !existing.revokedAt) throw new Error(`API key ${id} already exists`);
+
+    const key = `mdt_${crypto.randomBytes(24).toString('base64url')}`;
+    const apiKey: ApiKey = { id, role, hash: hashKey(key), rateLimit, createdAt: this.clock.now() };
+    this.keys.set(id, apiKey);
+    this.save();
+    return { key, apiKey };
+  }
+
+  revoke(id: string): boolean {
+    const apiKey = this.keys.get(id);
+    if (!apiKey || apiKey.revokedAt) return false;
+    apiKey.revokedAt = this.clock.now();
+    this.save();
+    return true;
+  }
+
+  /**
+   * Resolve a presented key to its (unrevoked) record
+   */
+  authenticate(key: string): ApiKey | null {
+    const hash = Buffer.from(hashKey(key), 'hex');
+    for (const apiKey of this.keys.values()) {
+      if (apiKey.revokedAt) continue;
+      if (crypto.timingSafeEqual(hash, Buffer.from(apiKey.hash, 'hex'))) return apiKey;
+    }
+    return null;
+  }
+
+  list(): ApiKey[] {
+    return [...this.keys.values()];
+  }
+
+  isEmpty(): boolean {
+    return this.keys.size === 0;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify({ keys: this.list() }, null, 2), { mode: 0o600 });
+  }
+}
+
+/**
+ * Token bucket per key: a minute's worth of requests, refilled continuously
+ */
+export class RateLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(private clock: Clock = systemClock) {}
+
+  take(key: ApiKey): { allowed: boolean; retryAfterMs: number } {
+    const perMinute = key.rateLimit ?? DEFAULT_RATE_LIMITS[key.role];
+    const refillPerMs = perMinute / 60_000;
+    const now = this.clock.now();
+
+    const bucket = this.buckets.get(key.id) ?? { tokens: perMinute, updatedAt: now };
+    bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key.id, bucket);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, retryAfterMs: 0 };
+  }
+}
+
+/**
+ * Extract the key from "Authorization: Bearer <key>"
+ */
+export function bearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
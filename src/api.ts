@@ -3,169 +3,1062 @@
  * 
  * Exposes trust attestation operations as HTTP endpoints.
  * Bridges MoltbotDen platform data → Trust Engine → Solana attestations.
+ *
+ * createServer builds a server from injectable parts (attestor, clock, data
+ * directory), so it can be embedded or run against a FakeChain; run this
+ * file directly to serve on devnet.
  */
 
 import http from 'http';
 import { URL } from 'url';
-import { SolanaAttestor } from './solana-attestor';
-import { calculateTrustScore, getCurrentScore } from './trust-engine';
+import { Keypair } from '@solana/web3.js';
+import { AttestationTooLargeError, SolanaAttestor, StaleAttestationError } from './solana-attestor';
+import { AttestationStore } from './attestation-store';
+import { AgentRegistry, RegistrationError } from './agent-registry';
+import { API_ROLES, ApiKey, ApiKeyStore, ApiRole, RateLimiter, bearerToken, hasRole, isRateLimit } from './api-auth';
+import { AuditEntry, AuditLog } from './audit-log';
+import { buildTrustHistory, executeTrustQuery, parseTrustQuery } from './trust-query';
+import { ValidationError, validatePlatformData, validatePlatformDataBatch } from './validation';
+import { TrustChange, TrustMonitor, deriveEvents, parseSubscription } from './trust-events';
+import { WebhookDispatcher } from './webhooks';
+import { DecayScheduler, DecaySchedulerOptions } from './decay-scheduler';
+import { verifyAttestation } from './attestation-signing';
+import { calculateTrustScore, explainTrustScore, getCurrentScore } from './trust-engine';
+import { EndorsementEdge, EndorsementGraph, applyEndorsementTrust, endorsementSeeds } from './endorsement-graph';
+import { OnchainCollector, applyWalletActivity, loadFlaggedAddresses } from './onchain-collector';
+import { TierPolicy, TierViolationError, loadTierPolicy } from './verification-tiers';
+import { DisputeError, DisputeStatus, DisputeStore, disputeNotice } from './dispute-store';
+import { CURRENT_SCORING_MODEL, ScoringModel, listScoringModels, loadScoringModels, resolveModelRef } from './scoring-model';
 import { AgentPlatformData } from './trust-engine';
-import { VerificationTier } from './schema';
+import { AttestationStatus, TrustAttestation } from './schema';
+import { Clock, systemClock } from './clock';
+import { QuorumError, loadOracleQuorum, verifyQuorum } from './oracle-quorum';
+import { ORACLE_PASSPHRASE_ENV, readOracleKey, writeOracleKey } from './oracle-keystore';
+import { DEFAULT_DATA_DIR } from './data-dir';
 import * as fs from 'fs';
 import * as path from 'path';
 
 const PORT = 3410;
-const ORACLE_KEY_PATH = path.join(process.env.HOME || '~', '.config/moltbotden-trust/oracle.json');
+const MAX_BODY_BYTES = 1024 * 1024;
+const DECAY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const SSE_HEARTBEAT_MS = 25 * 1000;
 
-const attestor = new SolanaAttestor();
+export interface TrustApiOptions {
+  attestor?: SolanaAttestor; // Default: devnet with oracle-set.json's quorum; an oracle without a key loads (or generates) oracle.json
+  clock?: Clock;             // Default: system clock
+  dataDir?: string;          // Key, index and log files (default ~/.config/moltbotden-trust)
+  oraclePassphrase?: string; // Unlocks an encrypted oracle.json, and encrypts a generated one (default MDEN_ORACLE_PASSPHRASE)
+  // Stores default to files in dataDir
+  store?: AttestationStore;
+  registry?: AgentRegistry;
+  endorsementGraph?: EndorsementGraph;
+  disputes?: DisputeStore;
+  onchainCollector?: OnchainCollector; // Default: over the attestor's chain, flagging flagged-addresses.json
+  tierPolicy?: TierPolicy;   // Default: tier-policy.json in dataDir, else DEFAULT_TIER_POLICY
+  apiKeys?: ApiKeyStore;
+  auditLog?: AuditLog;
+  webhooks?: WebhookDispatcher;
+  allowPrivateWebhookTargets?: boolean; // Let the default dispatcher deliver to loopback and private addresses
+  corsOrigins?: string[];    // Browser origins allowed (default MDEN_CORS_ORIGINS, or all)
+  // Decay re-attestation runs every decayIntervalHours when set (default MDEN_DECAY_INTERVAL_HOURS)
+  decayIntervalHours?: number;
+  decay?: Pick<DecaySchedulerOptions, 'threshold' | 'budgetSol' | 'minBalanceSol' | 'feePerTransactionSol'>;
+}
+
+const REGISTRATION_ERROR_STATUS: Record<RegistrationError['kind'], number> = { invalid: 400, conflict: 409, not_found: 404, limited: 429 };
+const DISPUTE_ERROR_STATUS: Record<DisputeError['kind'], number> = { invalid: 400, conflict: 409, not_found: 404 };
+
+// Role each route requires; null routes are public. Anything unlisted needs reader.
+const ROUTE_ROLES: Array<{ method: string; pattern: RegExp; role: ApiRole | null }> = [
+  { method: 'GET', pattern: /^\/health$/, role: null },
+  { method: 'POST', pattern: /^\/agents\/register(\/challenge)?$/, role: 'platform-ingest' }, // The platform vouches for the agentId
+  { method: 'POST', pattern: /^\/disputes$/, role: null }, // Signed by the agent's wallet instead
+  { method: 'GET', pattern: /^\/disputes$/, role: 'reviewer' },
+  { method: 'POST', pattern: /^\/disputes\/[^/]+\/resolve$/, role: 'reviewer' },
+  { method: 'POST', pattern: /^\/oracle\/fund$/, role: 'oracle-admin' },
+  { method: 'POST', pattern: /^\/trust\/(revoke|suspend|reinstate)\//, role: 'oracle-admin' },
+  { method: '*', pattern: /^\/admin\//, role: 'oracle-admin' },
+  { method: 'POST', pattern: /^\/trust\/attest(\/batch)?$/, role: 'platform-ingest' },
+  { method: 'POST', pattern: /^\/endorsements$/, role: 'platform-ingest' },
+  { method: 'POST', pattern: /^\/oracle\/cosign$/, role: 'platform-ingest' },
+  { method: '*', pattern: /^\/webhooks(\/|$)/, role: 'platform-ingest' },
+];
+
+function requiredRole(method: string, pathname: string): ApiRole | null {
+  const rule = ROUTE_ROLES.find(r => (r.method === '*' || r.method === method) && r.pattern.test(pathname));
+  return rule ? rule.role : 'reader';
+}
 
-// Initialize oracle
-function initOracle() {
+// Scoring model selected with ?model=id@version, or ?model=id for its latest
+// version (default model otherwise)
+function resolveModel(url: URL): ScoringModel | null {
+  const ref = url.searchParams.get('model');
+  if (!ref) return CURRENT_SCORING_MODEL;
+  return resolveModelRef(ref);
+}
+
+// Match a route, percent-decoding its path segments like the rest of the input
+// (null: no match). As with a RegExp match, index 0 is the whole path.
+function matchRoute(pathname: string, pattern: RegExp): string[] | null {
+  const match = pathname.match(pattern);
+  if (!match) return null;
   try {
-    if (fs.existsSync(ORACLE_KEY_PATH)) {
-      const keyData = JSON.parse(fs.readFileSync(ORACLE_KEY_PATH, 'utf-8'));
-      attestor.initOracle(new Uint8Array(Buffer.from(keyData.secretKey, 'base64')));
-      console.log(`Oracle loaded: ${attestor.oraclePublicKey}`);
-    } else {
-      const oracle = attestor.generateOracle();
-      fs.mkdirSync(path.dirname(ORACLE_KEY_PATH), { recursive: true });
-      fs.writeFileSync(ORACLE_KEY_PATH, JSON.stringify(oracle, null, 2));
-      console.log(`New oracle generated: ${oracle.publicKey}`);
-      console.log(`Oracle key saved to ${ORACLE_KEY_PATH}`);
-    }
-  } catch (err) {
-    console.error('Failed to initialize oracle:', err);
+    return [match[0], ...match.slice(1).map(segment => decodeURIComponent(segment))];
+  } catch {
+    throw new ValidationError([{ field: 'path', code: 'invalid_value', message: 'Path segment is not valid percent-encoding' }]);
   }
 }
 
+// An empty body is {}; anything else must be JSON within MAX_BODY_BYTES
 function parseBody(req: http.IncomingMessage): Promise<any> {
   return new Promise((resolve, reject) => {
-    let body = '';
-    req.on('data', chunk => body += chunk);
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk); // Past the limit, drain without buffering
+    });
     req.on('end', () => {
+      if (size > MAX_BODY_BYTES) {
+        return reject(new ValidationError([
+          { field: 'body', code: 'body_too_large', message: `must be at most ${MAX_BODY_BYTES} bytes` },
+        ], 413));
+      }
+      const body = Buffer.concat(chunks).toString('utf-8');
+      if (!body.trim()) return resolve({});
       try { resolve(JSON.parse(body)); }
-      catch { resolve({}); }
+      catch { reject(new ValidationError([{ field: 'body', code: 'invalid_json', message: 'must be valid JSON' }])); }
     });
     req.on('error', reject);
   });
 }
 
 function json(res: http.ServerResponse, data: any, status = 200) {
-  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.writeHead(status, { 'Content-Type': 'application/json' });
   res.end(JSON.stringify(data));
 }
 
-async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
-  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
-  const method = req.method || 'GET';
+/**
+ * Build the API server. Background work (index sync, trust change checks,
+ * decay re-attestation) starts when it begins listening and stops on close.
+ */
+export function createServer(options: TrustApiOptions = {}): http.Server {
+  const clock = options.clock ?? systemClock;
+  const dataDir = options.dataDir ?? DEFAULT_DATA_DIR;
+  const oracleKeyPath = path.join(dataDir, 'oracle.json');
+  const env = (name: string) => process.env[name] ? Number(process.env[name]) : undefined;
 
-  // CORS preflight
-  if (method === 'OPTIONS') {
-    res.writeHead(204, {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    });
-    return res.end();
-  }
+  const attestor = options.attestor
+    ?? new SolanaAttestor(undefined, { clock, ...loadOracleQuorum(path.join(dataDir, 'oracle-set.json')) });
+  const store = options.store ?? new AttestationStore(path.join(dataDir, 'index.jsonl'));
+  const endorsementGraph = options.endorsementGraph ?? new EndorsementGraph(path.join(dataDir, 'endorsements.jsonl'));
+  const onchainCollector = options.onchainCollector ?? attestor.onchainCollector({
+    flaggedAddresses: loadFlaggedAddresses(path.join(dataDir, 'flagged-addresses.json')),
+  });
+  const tierPolicy = options.tierPolicy ?? loadTierPolicy(path.join(dataDir, 'tier-policy.json'));
+  const disputes = options.disputes ?? new DisputeStore(path.join(dataDir, 'disputes.jsonl'), clock);
+  const registry = options.registry ?? new AgentRegistry(path.join(dataDir, 'agents.jsonl'), undefined, clock);
+  const apiKeys = options.apiKeys ?? new ApiKeyStore(path.join(dataDir, 'api-keys.json'), clock);
+  const rateLimiter = new RateLimiter(clock);
+  const auditLog = options.auditLog ?? new AuditLog(path.join(dataDir, 'audit.jsonl'));
+  const monitor = new TrustMonitor(undefined, clock, path.join(dataDir, 'events.jsonl'));
+  const webhooks = options.webhooks ?? new WebhookDispatcher(path.join(dataDir, 'webhooks.json'),
+    { allowPrivateTargets: options.allowPrivateWebhookTargets }, clock);
+  monitor.on('change', change => webhooks.dispatch(change));
 
-  try {
-    // Health check
-    if (url.pathname === '/health') {
-      return json(res, {
-        status: 'ok',
-        oracle: attestor.oraclePublicKey,
-        network: 'devnet',
-        version: '1.0.0',
-      });
-    }
+  const decayScheduler = new DecayScheduler(attestor, store, {
+    threshold: env('MDEN_DECAY_THRESHOLD'),
+    budgetSol: env('MDEN_DECAY_BUDGET_SOL'),
+    minBalanceSol: env('MDEN_DECAY_MIN_BALANCE_SOL'),
+    ...options.decay,
+    reportPath: path.join(dataDir, 'decay-runs.jsonl'),
+    withLocks: (agentIds, fn) => withAgentLocks(agentIds, fn),
+    onReport: report => monitor.refresh(store, report.reattested.map(r => r.agentId)),
+    clock,
+  });
+  const decayIntervalHours = options.decayIntervalHours ?? env('MDEN_DECAY_INTERVAL_HOURS') ?? 0;
 
-    // Get oracle info
-    if (url.pathname === '/oracle' && method === 'GET') {
-      const balance = await attestor.getBalance();
-      return json(res, {
-        publicKey: attestor.oraclePublicKey,
-        network: 'devnet',
-        balance,
-      });
+  // Until the cache is primed from the index, a full refresh would announce every agent
+  let monitorPrimed = false;
+
+  // Comma-separated browser origins allowed to call the API (all if unset)
+  const corsOrigins = options.corsOrigins ?? (process.env.MDEN_CORS_ORIGINS || '*').split(',').map(o => o.trim());
+
+  // Initialize oracle
+  function initOracle() {
+    const passphrase = options.oraclePassphrase ?? process.env[ORACLE_PASSPHRASE_ENV];
+    const plaintextWarning = `Oracle key is stored unencrypted in ${oracleKeyPath}; ` +
+      `set ${ORACLE_PASSPHRASE_ENV} and run: moltbot-trust oracle encrypt`;
+    try {
+      if (fs.existsSync(oracleKeyPath)) {
+        const { keypair, encrypted, retired } = readOracleKey(oracleKeyPath, passphrase);
+        attestor.initOracle(keypair.secretKey, retired);
+        console.log(`Oracle loaded: ${attestor.oraclePublicKey}`);
+        if (!encrypted) console.log(plaintextWarning);
+      } else {
+        const keypair = Keypair.generate();
+        writeOracleKey(oracleKeyPath, keypair, { passphrase });
+        attestor.initOracle(keypair.secretKey);
+        console.log(`New oracle generated: ${keypair.publicKey.toBase58()}`);
+        console.log(`Oracle key saved to ${oracleKeyPath}`);
+        if (!passphrase) console.log(plaintextWarning);
+      }
+    } catch (err) {
+      console.error('Failed to initialize oracle:', err);
     }
+  }
 
-    // Fund oracle (devnet airdrop)
-    if (url.pathname === '/oracle/fund' && method === 'POST') {
-      const sig = await attestor.requestAirdrop(1);
-      return json(res, { signature: sig, amount: 1 });
+  // First start: create an admin key so the API is never left open
+  function initApiKeys() {
+    if (!apiKeys.isEmpty()) return;
+    const { key } = apiKeys.create('admin', 'oracle-admin');
+    console.log(`New oracle-admin API key (shown once): ${key}`);
+  }
+
+  function corsOrigin(req: http.IncomingMessage): string | null {
+    if (corsOrigins.includes('*')) return '*';
+    const origin = req.headers.origin;
+    return origin && corsOrigins.includes(origin) ? origin : null;
+  }
+
+  // Endorsements are scored from the graph, never from submitted counts
+  async function withGraphEndorsements(data: AgentPlatformData): Promise<AgentPlatformData> {
+    await store.sync(attestor);
+    const { scores } = endorsementGraph.compute(endorsementSeeds(store, clock.now()));
+    return applyEndorsementTrust(data, scores.get(data.agentId));
+  }
+
+  // Onchain inputs come from the wallet's own history, not from the platform
+  async function withWalletActivity(data: AgentPlatformData): Promise<AgentPlatformData> {
+    return applyWalletActivity(data, await onchainCollector.collect(data.solanaWallet));
+  }
+
+  // Score platform data and write it as the agent's next attestation, co-signed
+  // when there's an oracle set. Callers hold the agent's lock.
+  async function attestPlatformData(body: AgentPlatformData, model: ScoringModel, correctsSignature?: string) {
+    await store.sync(attestor);
+    const data = await withWalletActivity(await withGraphEndorsements(body));
+    const score = calculateTrustScore(data, { model, tierPolicy, requireTier: true, clock });
+    const proposal = await attestor.prepareAttestation(
+      correctsSignature ? { ...score, correctsSignature } : score, store.latest(data.agentId));
+    const attestation = await attestor.collectCoSignatures(proposal, { data });
+    const signature = await attestor.writeAttestation(attestation);
+    await store.sync(attestor);
+    return { attestation, signature };
+  }
+
+  // Attestation failures the caller can act on (null: anything else)
+  function attestationFailure(err: unknown): { status: number; body: object } | null {
+    if (err instanceof StaleAttestationError) {
+      return { status: 409, body: { error: err.message, latestSignature: err.latest.signature } };
     }
+    if (err instanceof QuorumError) {
+      return { status: 503, body: { error: err.message, code: 'quorum_not_reached' } };
+    }
+    if (err instanceof TierViolationError) {
+      return { status: 422, body: { error: err.message, code: 'tier_requirements_not_met', violations: err.violations } };
+    }
+    if (err instanceof AttestationTooLargeError) {
+      return { status: 422, body: { error: err.message, code: 'attestation_too_large' } };
+    }
+    return null;
+  }
 
-    // Calculate trust score (dry run — no on-chain write)
-    if (url.pathname === '/trust/calculate' && method === 'POST') {
-      const data: AgentPlatformData = await parseBody(req);
-      const attestation = calculateTrustScore(data);
-      return json(res, { attestation, onchain: false });
+  // A retired key signs whatever attestedAt its holder likes, so it's only trusted for an
+  // attestation its transaction (by signature) shows was confirmed before the key's cutoff
+  async function confirmedRetiredSigner(attestation: TrustAttestation, signature: unknown): Promise<string[]> {
+    if (typeof signature !== 'string' || !attestor.retiredOracles.some(k => k.publicKey === attestation.attestedBy)) return [];
+    const transaction = await attestor.verifyTransaction(signature);
+    const confirmed = transaction?.oraclePaid &&
+      transaction.attestations.some(a => a.final && a.attestation.oracleSignature === attestation.oracleSignature);
+    return confirmed ? [attestation.attestedBy] : [];
+  }
+
+  // Attestations are only written to wallets the agent has proven it owns
+  function unregisteredWallet(data: AgentPlatformData): string | null {
+    if (registry.isBound(data.agentId, data.solanaWallet)) return null;
+    return `Wallet ${data.solanaWallet} is not registered to agent ${data.agentId}`;
+  }
+
+  // Serializes writes per agent so each version is derived from the one before it
+  const agentLocks = new Map<string, Promise<unknown>>();
+
+  function withAgentLock<T>(agentId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = agentLocks.get(agentId) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(fn);
+    agentLocks.set(agentId, next);
+    next.finally(() => {
+      if (agentLocks.get(agentId) === next) agentLocks.delete(agentId);
+    }).catch(() => {});
+    return next;
+  }
+
+  // Locks several agents at once; sorted order keeps concurrent batches deadlock-free
+  function withAgentLocks<T>(agentIds: string[], fn: () => Promise<T>): Promise<T> {
+    const [first, ...rest] = [...new Set(agentIds)].sort();
+    if (first === undefined) return fn();
+    return withAgentLock(first, () => withAgentLocks(rest, fn));
+  }
+
+  async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+
+    const origin = corsOrigin(req);
+    if (origin) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      if (origin !== '*') res.setHeader('Vary', 'Origin');
     }
 
-    // Attest trust score on-chain
-    if (url.pathname === '/trust/attest' && method === 'POST') {
-      const data: AgentPlatformData = await parseBody(req);
-      const attestation = calculateTrustScore(data);
-      const signature = await attestor.writeAttestation(attestation);
-      return json(res, {
-        attestation,
-        onchain: true,
-        signature,
-        explorer: `https://explorer.solana.com/tx/${signature}?cluster=devnet`,
+    // CORS preflight
+    if (method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
       });
+      return res.end();
     }
 
-    // Query trust for an agent
-    if (url.pathname.startsWith('/trust/query/') && method === 'GET') {
-      const agentId = url.pathname.split('/trust/query/')[1];
-      // For now, read from on-chain history
-      const attestations = await attestor.readAttestations(50);
-      const match = attestations.find(a => a.attestation.id === agentId);
-      
-      if (!match) {
-        return json(res, { found: false, agentId }, 404);
-      }
-
-      return json(res, {
-        found: true,
-        agentId,
-        attestation: match.attestation,
-        signature: match.signature,
-        blockTime: match.blockTime,
-        explorer: `https://explorer.solana.com/tx/${match.signature}?cluster=devnet`,
+    // Writes are always audited; reads only when refused
+    let caller: ApiKey | null = null;
+    const audit: Partial<AuditEntry> = {};
+    res.on('finish', () => {
+      if (method === 'GET' && ![401, 403, 429].includes(res.statusCode)) return;
+      auditLog.record({
+        at: clock.now(),
+        keyId: caller?.id ?? null,
+        role: caller?.role ?? null,
+        method,
+        path: url.pathname,
+        status: res.statusCode,
+        ...audit,
       });
+    });
+
+    const role = requiredRole(method, url.pathname);
+    if (role) {
+      const token = bearerToken(req.headers.authorization);
+      caller = token ? apiKeys.authenticate(token) : null;
+      if (!caller) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        return json(res, { error: 'A valid API key is required' }, 401);
+      }
+      if (!hasRole(caller, role)) {
+        return json(res, { error: `Requires the ${role} role` }, 403);
+      }
+      const limit = rateLimiter.take(caller);
+      if (!limit.allowed) {
+        res.setHeader('Retry-After', Math.ceil(limit.retryAfterMs / 1000));
+        return json(res, { error: 'Rate limit exceeded' }, 429);
+      }
     }
 
-    // List all attestations
-    if (url.pathname === '/trust/attestations' && method === 'GET') {
-      const limit = parseInt(url.searchParams.get('limit') || '20');
-      const attestations = await attestor.readAttestations(limit);
-      return json(res, { attestations, count: attestations.length });
+    try {
+      // Health check
+      if (url.pathname === '/health') {
+        return json(res, {
+          status: 'ok',
+          oracle: attestor.oraclePublicKey,
+          network: 'devnet',
+          version: '1.0.0',
+        });
+      }
+
+      // Get oracle info
+      if (url.pathname === '/oracle' && method === 'GET') {
+        const balance = await attestor.getBalance();
+        return json(res, {
+          publicKey: attestor.oraclePublicKey,
+          network: 'devnet',
+          balance,
+          oracleSet: attestor.oracleSet,
+          retiredOracles: attestor.retiredOracles,
+        });
+      }
+
+      // Fund oracle (devnet airdrop)
+      if (url.pathname === '/oracle/fund' && method === 'POST') {
+        const sig = await attestor.requestAirdrop(1);
+        audit.signatures = [sig];
+        return json(res, { signature: sig, amount: 1 });
+      }
+
+      // Co-sign another oracle's proposal (this oracle as a quorum member)
+      if (url.pathname === '/oracle/cosign' && method === 'POST') {
+        const body = await parseBody(req);
+        if (!body.proposal || typeof body.proposal.attestedBy !== 'string') {
+          return json(res, { error: 'A proposal is required' }, 400);
+        }
+        if (!body.data === !body.decayedFrom) {
+          return json(res, { error: 'Exactly one of data or decayedFrom is required' }, 400);
+        }
+        audit.agentIds = [body.proposal.agentId];
+        // Members check the wallet's history themselves rather than the proposer's numbers
+        const basis = body.data
+          ? { data: await withWalletActivity(validatePlatformData(body.data, clock.now())) }
+          : { decayedFrom: body.decayedFrom as TrustAttestation };
+        try {
+          return json(res, await attestor.cosign({ ...basis, proposal: body.proposal }, tierPolicy));
+        } catch (err) {
+          if (err instanceof QuorumError) return json(res, { error: err.message }, 409);
+          throw err;
+        }
+      }
+
+      // List registered scoring models
+      if (url.pathname === '/models' && method === 'GET') {
+        return json(res, { models: listScoringModels() });
+      }
+
+      // Issue a wallet registration challenge
+      if (url.pathname === '/agents/register/challenge' && method === 'POST') {
+        const body = await parseBody(req);
+        if (typeof body.agentId !== 'string' || typeof body.solanaWallet !== 'string') {
+          return json(res, { error: 'agentId and solanaWallet are required' }, 400);
+        }
+        audit.agentIds = [body.agentId];
+        try {
+          return json(res, registry.createChallenge(body.agentId, body.solanaWallet));
+        } catch (err) {
+          if (err instanceof RegistrationError) return json(res, { error: err.message }, REGISTRATION_ERROR_STATUS[err.kind]);
+          throw err;
+        }
+      }
+
+      // Bind an agent to its wallet with the wallet's signature over the challenge
+      if (url.pathname === '/agents/register' && method === 'POST') {
+        const body = await parseBody(req);
+        const { agentId, solanaWallet, nonce, signature } = body;
+        if ([agentId, solanaWallet, nonce, signature].some(v => typeof v !== 'string')) {
+          return json(res, { error: 'agentId, solanaWallet, nonce and signature are required' }, 400);
+        }
+        audit.agentIds = [agentId];
+        try {
+          return json(res, { registered: true, binding: registry.register(agentId, solanaWallet, nonce, signature) });
+        } catch (err) {
+          if (err instanceof RegistrationError) return json(res, { error: err.message }, REGISTRATION_ERROR_STATUS[err.kind]);
+          throw err;
+        }
+      }
+
+      // Registered wallet for an agent
+      const agentRoute = matchRoute(url.pathname, /^\/agents\/([^/]+)$/);
+      if (agentRoute && method === 'GET') {
+        const agentId = agentRoute[1];
+        const binding = registry.get(agentId);
+        if (!binding) return json(res, { found: false, agentId }, 404);
+        return json(res, { found: true, ...binding });
+      }
+
+      // Calculate trust score (dry run — no on-chain write)
+      if (url.pathname === '/trust/calculate' && method === 'POST') {
+        const model = resolveModel(url);
+        if (!model) return json(res, { error: `Unknown scoring model: ${url.searchParams.get('model')}` }, 400);
+        const data = await withWalletActivity(await withGraphEndorsements(validatePlatformData(await parseBody(req), clock.now())));
+        const { attestation, tier } = explainTrustScore(data, { attestedBy: attestor.oraclePublicKey ?? undefined, model, tierPolicy, clock });
+        return json(res, { attestation, tier, onchain: false });
+      }
+
+      // Attest many agents, packing several attestations per transaction
+      if (url.pathname === '/trust/attest/batch' && method === 'POST') {
+        const model = resolveModel(url);
+        if (!model) return json(res, { error: `Unknown scoring model: ${url.searchParams.get('model')}` }, 400);
+        const body = await parseBody(req);
+        const agents = validatePlatformDataBatch(Array.isArray(body) ? body : body.agents, 'agents', clock.now());
+        const agentIds = agents.map(a => a.agentId);
+        if (new Set(agentIds).size !== agentIds.length) {
+          return json(res, { error: 'Each agent may appear only once per batch' }, 400);
+        }
+        audit.agentIds = agentIds;
+
+        const results = await withAgentLocks(agentIds, async () => {
+          await store.sync(attestor);
+          const prepared: TrustAttestation[] = [];
+          const rejected = new Map<string, string>();
+          for (const agent of agents) {
+            const unregistered = unregisteredWallet(agent);
+            if (unregistered) {
+              rejected.set(agent.agentId, unregistered);
+              continue;
+            }
+            try {
+              const data = await withWalletActivity(await withGraphEndorsements(agent));
+              const proposal = await attestor.prepareAttestation(calculateTrustScore(data, { model, tierPolicy, requireTier: true, clock }), store.latest(data.agentId));
+              prepared.push(await attestor.collectCoSignatures(proposal, { data }));
+            } catch (err: any) {
+              rejected.set(agent.agentId, err.message);
+            }
+          }
+
+          const written = await attestor.writeAttestations(prepared);
+          await store.sync(attestor);
+          monitor.refresh(store, written.filter(r => r.signature).map(r => r.agentId));
+          return agents.map(({ agentId }) => {
+            if (rejected.has(agentId)) return { agentId, signature: null, error: rejected.get(agentId), attempts: 0 };
+            const result = written.find(r => r.agentId === agentId)!;
+            const attestation = prepared.find(a => a.agentId === agentId);
+            return { ...result, attestation: result.signature ? attestation : undefined };
+          });
+        });
+
+        const succeeded = results.filter(r => r.signature).length;
+        audit.signatures = [...new Set(results.map(r => r.signature).filter((s): s is string => Boolean(s)))];
+        return json(res, {
+          results,
+          succeeded,
+          failed: results.length - succeeded,
+          transactions: new Set(results.map(r => r.signature).filter(Boolean)).size,
+        }, succeeded === results.length ? 200 : 207);
+      }
+
+      // Explain a trust score component by component (dry run)
+      if (url.pathname === '/trust/explain' && method === 'POST') {
+        const model = resolveModel(url);
+        if (!model) return json(res, { error: `Unknown scoring model: ${url.searchParams.get('model')}` }, 400);
+        const data = await withWalletActivity(await withGraphEndorsements(validatePlatformData(await parseBody(req), clock.now())));
+        return json(res, explainTrustScore(data, { attestedBy: attestor.oraclePublicKey ?? undefined, model, tierPolicy, clock }));
+      }
+
+      // Record endorsement edges
+      if (url.pathname === '/endorsements' && method === 'POST') {
+        const body = await parseBody(req);
+        const edges: EndorsementEdge[] = Array.isArray(body.edges) ? body.edges : [];
+        const valid = edges.filter(e =>
+          typeof e?.endorser === 'string' && typeof e.endorsee === 'string' && typeof e.timestamp === 'number');
+        if (valid.length !== edges.length || valid.length === 0) {
+          return json(res, { error: 'edges must be a non-empty array of { endorser, endorsee, timestamp }' }, 400);
+        }
+        const added = endorsementGraph.addEdges(valid);
+        return json(res, { added, total: endorsementGraph.edges().length });
+      }
+
+      // Graph-derived endorsement trust for an agent
+      const endorsementsRoute = matchRoute(url.pathname, /^\/endorsements\/([^/]+)$/);
+      if (endorsementsRoute && method === 'GET') {
+        const agentId = endorsementsRoute[1];
+        await store.sync(attestor);
+        const seeds = endorsementSeeds(store, clock.now());
+        const { scores, iterations, converged } = endorsementGraph.compute(seeds);
+        const trust = scores.get(agentId);
+        if (!trust) return json(res, { found: false, agentId }, 404);
+        return json(res, { found: true, ...trust, seeds, iterations, converged });
+      }
+
+      // Attest trust score on-chain
+      if (url.pathname === '/trust/attest' && method === 'POST') {
+        const model = resolveModel(url);
+        if (!model) return json(res, { error: `Unknown scoring model: ${url.searchParams.get('model')}` }, 400);
+        const body = validatePlatformData(await parseBody(req), clock.now());
+        audit.agentIds = [body.agentId];
+        const unregistered = unregisteredWallet(body);
+        if (unregistered) return json(res, { error: unregistered }, 403);
+        try {
+          const { attestation, signature } = await withAgentLock(body.agentId, () => attestPlatformData(body, model));
+          audit.signatures = [signature];
+          monitor.refresh(store, [attestation.agentId]);
+          return json(res, {
+            attestation,
+            onchain: true,
+            signature,
+            explorer: `https://explorer.solana.com/tx/${signature}?cluster=devnet`,
+          });
+        } catch (err) {
+          const failure = attestationFailure(err);
+          if (failure) return json(res, failure.body, failure.status);
+          throw err;
+        }
+      }
+
+      // File a dispute against an attestation, signed by the agent's wallet
+      if (url.pathname === '/disputes' && method === 'POST') {
+        const filing = await parseBody(req);
+        if (typeof filing.agentId !== 'string' || typeof filing.attestationSignature !== 'string') {
+          return json(res, { error: 'agentId and attestationSignature are required' }, 400);
+        }
+        audit.agentIds = [filing.agentId];
+        const binding = registry.get(filing.agentId);
+        if (!binding) return json(res, { error: `Agent ${filing.agentId} has no registered wallet` }, 403);
+
+        await store.sync(attestor);
+        const latest = store.latest(filing.agentId);
+        if (!store.history(filing.agentId).some(r => r.signature === filing.attestationSignature)) {
+          return json(res, { error: `${filing.attestationSignature} is not an attestation of agent ${filing.agentId}` }, 404);
+        }
+        if (latest!.signature !== filing.attestationSignature) {
+          return json(res, { error: `Superseded by version ${latest!.attestation.version}; dispute that one`, latestSignature: latest!.signature }, 409);
+        }
+        try {
+          return json(res, disputes.file(filing, binding.solanaWallet), 201);
+        } catch (err) {
+          if (err instanceof DisputeError) return json(res, { error: err.message }, DISPUTE_ERROR_STATUS[err.kind]);
+          throw err;
+        }
+      }
+
+      // List disputes for review
+      if (url.pathname === '/disputes' && method === 'GET') {
+        const status = url.searchParams.get('status') ?? undefined;
+        if (status && !['open', 'upheld', 'rejected'].includes(status)) {
+          return json(res, { error: 'status must be open, upheld or rejected' }, 400);
+        }
+        const list = disputes.list({ agentId: url.searchParams.get('agentId') ?? undefined, status: status as DisputeStatus | undefined });
+        return json(res, { disputes: list, count: list.length });
+      }
+
+      // Uphold a dispute with a corrected attestation, or reject it
+      const resolveRoute = matchRoute(url.pathname, /^\/disputes\/([^/]+)\/resolve$/);
+      if (resolveRoute && method === 'POST') {
+        const model = resolveModel(url);
+        if (!model) return json(res, { error: `Unknown scoring model: ${url.searchParams.get('model')}` }, 400);
+        const id = resolveRoute[1];
+        const dispute = disputes.get(id);
+        if (!dispute) return json(res, { error: `Unknown dispute ${id}` }, 404);
+        audit.agentIds = [dispute.agentId];
+        const body = await parseBody(req);
+        if (body.decision !== 'upheld' && body.decision !== 'rejected') {
+          return json(res, { error: 'decision must be upheld or rejected' }, 400);
+        }
+        if (typeof body.note !== 'string' || !body.note) return json(res, { error: 'A note is required' }, 400);
+        const resolution = { decision: body.decision, note: body.note, resolvedBy: caller!.id };
+
+        try {
+          // Under the agent's lock, so a rejection can't land while a correction is being written
+          if (body.decision === 'rejected') {
+            return json(res, { dispute: await withAgentLock(dispute.agentId, async () => disputes.resolve(id, resolution)) });
+          }
+
+          // Upheld: the corrected platform data is attested like POST /trust/attest
+          const corrected = validatePlatformData(body.data, clock.now());
+          if (corrected.agentId !== dispute.agentId) {
+            return json(res, { error: `Corrected data is for ${corrected.agentId}, not ${dispute.agentId}` }, 400);
+          }
+          const unregistered = unregisteredWallet(corrected);
+          if (unregistered) return json(res, { error: unregistered }, 403);
+
+          const { attestation, signature, resolved } = await withAgentLock(dispute.agentId, async () => {
+            disputes.open(id); // Not resolved while waiting for the lock
+            const written = await attestPlatformData(corrected, model, dispute.attestationSignature);
+            return { ...written, resolved: disputes.resolve(id, { ...resolution, correctedSignature: written.signature }) };
+          });
+          audit.signatures = [signature];
+          monitor.refresh(store, [attestation.agentId]);
+          return json(res, {
+            dispute: resolved,
+            attestation,
+            signature,
+            explorer: `https://explorer.solana.com/tx/${signature}?cluster=devnet`,
+          });
+        } catch (err) {
+          if (err instanceof DisputeError) return json(res, { error: err.message }, DISPUTE_ERROR_STATUS[err.kind]);
+          const failure = attestationFailure(err);
+          if (failure) return json(res, failure.body, failure.status);
+          throw err;
+        }
+      }
+
+      // A dispute and its resolution
+      const disputeRoute = matchRoute(url.pathname, /^\/disputes\/([^/]+)$/);
+      if (disputeRoute && method === 'GET') {
+        const dispute = disputes.get(disputeRoute[1]);
+        if (!dispute) return json(res, { found: false }, 404);
+        return json(res, { found: true, ...dispute });
+      }
+
+      // Verify a signed attestation offline; one by a retired key also needs its transaction `signature`
+      if (url.pathname === '/trust/verify' && method === 'POST') {
+        const body = await parseBody(req);
+        const attestation = body.attestation ?? body;
+        if (!attestation || typeof attestation.attestedBy !== 'string') {
+          return json(res, { error: 'An attestation is required' }, 400);
+        }
+        const { oracleSet } = attestor;
+        const trustedSigners = oracleSet?.oracles ?? [
+          ...(attestor.oraclePublicKey ? [attestor.oraclePublicKey] : []),
+          ...(await confirmedRetiredSigner(attestation, body.signature)),
+        ];
+        const verification = verifyAttestation(attestation, trustedSigners);
+        return json(res, oracleSet ? { ...verification, quorum: verifyQuorum(attestation, oracleSet) } : verification);
+      }
+
+      // Revoke or suspend an agent's attestation
+      const statusRoute = matchRoute(url.pathname, /^\/trust\/(revoke|suspend)\/([^/]+)$/);
+      if (statusRoute && method === 'POST') {
+        const [, action, agentId] = statusRoute;
+        audit.agentIds = [agentId];
+        const body = await parseBody(req);
+        if (!body.reason || typeof body.reason !== 'string') {
+          return json(res, { error: 'A reason is required' }, 400);
+        }
+        const status = action === 'revoke' ? AttestationStatus.REVOKED : AttestationStatus.SUSPENDED;
+        // Under the agent's lock, so a status record can't interleave with an attestation
+        const signature = await withAgentLock(agentId, async () => {
+          await store.sync(attestor);
+          if (!store.latest(agentId)) return null;
+          return attestor.writeStatusChange(agentId, status, body.reason);
+        });
+        if (!signature) return json(res, { error: `No attestation for ${agentId}`, agentId }, 404);
+        audit.signatures = [signature];
+        await store.sync(attestor);
+        monitor.refresh(store, [agentId]);
+        return json(res, {
+          agentId,
+          status,
+          revocationReason: body.reason,
+          signature,
+          explorer: `https://explorer.solana.com/tx/${signature}?cluster=devnet`,
+        });
+      }
+
+      // Reinstate a suspended or revoked agent
+      const reinstateRoute = matchRoute(url.pathname, /^\/trust\/reinstate\/([^/]+)$/);
+      if (reinstateRoute && method === 'POST') {
+        const agentId = reinstateRoute[1];
+        audit.agentIds = [agentId];
+        const body = await parseBody(req);
+        const result = await withAgentLock(agentId, async () => {
+          await store.sync(attestor);
+          if (!store.latest(agentId)) return { status: 404, error: `No attestation for ${agentId}` };
+          if (store.statusOf(agentId) === AttestationStatus.ACTIVE) {
+            return { status: 409, error: 'Agent is not suspended or revoked' };
+          }
+          return { signature: await attestor.writeStatusChange(agentId, AttestationStatus.ACTIVE, body.reason || 'reinstated') };
+        });
+        if (!result.signature) return json(res, { error: result.error, agentId }, result.status);
+        const { signature } = result;
+        audit.signatures = [signature];
+        await store.sync(attestor);
+        monitor.refresh(store, [agentId]);
+        return json(res, {
+          agentId,
+          status: AttestationStatus.ACTIVE,
+          signature,
+          explorer: `https://explorer.solana.com/tx/${signature}?cluster=devnet`,
+        });
+      }
+
+      // Query trust for an agent (by agentId, or by wallet)
+      const queryRoute = matchRoute(url.pathname, /^\/trust\/(query|wallet)\/([^/]+)$/);
+      if (queryRoute && method === 'GET') {
+        const [, by, key] = queryRoute;
+        await store.sync(attestor);
+        let match = by === 'wallet' ? store.latestByWallet(key) : store.latest(key);
+        // By wallet, only while the agent still holds it: an unbound wallet names no one
+        if (by === 'wallet' && match && !registry.isBound(match.attestation.agentId, key)) match = null;
+        const agentId = match?.attestation.agentId ?? key;
+        const latestStatus = store.latestStatus(agentId);
+        const dispute = disputes.openFor(agentId);
+
+        // Pollers can revalidate cheaply: the response only changes with a new record or dispute
+        if (match || latestStatus) {
+          const etag = `"${match?.signature ?? ''}:${latestStatus?.signature ?? ''}:${dispute?.id ?? ''}"`;
+          if (req.headers['if-none-match'] === etag) {
+            res.writeHead(304, { ETag: etag });
+            return res.end();
+          }
+          res.setHeader('ETag', etag);
+        }
+
+        // A revoked or suspended agent reports its status, never its last good score
+        if (latestStatus && latestStatus.change.status !== AttestationStatus.ACTIVE) {
+          return json(res, {
+            found: true,
+            agentId,
+            status: latestStatus.change.status,
+            revocationReason: latestStatus.change.reason,
+            changedAt: latestStatus.change.changedAt,
+            signature: latestStatus.signature,
+            explorer: `https://explorer.solana.com/tx/${latestStatus.signature}?cluster=devnet`,
+          });
+        }
+
+        if (!match) {
+          return json(res, { found: false, [by === 'wallet' ? 'solanaWallet' : 'agentId']: key }, 404);
+        }
+
+        return json(res, {
+          found: true,
+          agentId,
+          status: AttestationStatus.ACTIVE,
+          attestation: match.attestation,
+          signature: match.signature,
+          blockTime: match.blockTime,
+          explorer: `https://explorer.solana.com/tx/${match.signature}?cluster=devnet`,
+          ...(dispute ? { dispute: disputeNotice(dispute) } : {}),
+        });
+      }
+
+      // Search attestations with a TrustQuery (JSON body, or query params for GET)
+      if (url.pathname === '/trust/search' && (method === 'GET' || method === 'POST')) {
+        const input = method === 'POST' ? await parseBody(req) : Object.fromEntries(url.searchParams);
+        const query = parseTrustQuery(input);
+        await store.sync(attestor);
+        return json(res, executeTrustQuery(store, query, clock.now(), disputes));
+      }
+
+      // Score timeline for an agent
+      const historyRoute = matchRoute(url.pathname, /^\/trust\/history\/([^/]+)$/);
+      if (historyRoute && method === 'GET') {
+        const agentId = historyRoute[1];
+        await store.sync(attestor);
+        const records = store.history(agentId);
+        if (records.length === 0) {
+          return json(res, { found: false, agentId }, 404);
+        }
+        const statusChanges = store.statusHistory(agentId);
+        return json(res, {
+          found: true,
+          agentId,
+          history: buildTrustHistory(records),
+          statusChanges: statusChanges.map(s => ({ ...s.change, signature: s.signature })),
+        });
+      }
+
+      // List recent attestations
+      if (url.pathname === '/trust/attestations' && method === 'GET') {
+        const limit = parseInt(url.searchParams.get('limit') || '20');
+        await store.sync(attestor);
+        const attestations = store.recent(limit);
+        return json(res, { attestations, count: attestations.length });
+      }
+
+      // Server-Sent Events feed of trust changes, filtered like a webhook
+      if (url.pathname === '/trust/stream' && method === 'GET') {
+        const subscription = parseSubscription(Object.fromEntries(url.searchParams));
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+        });
+        res.flushHeaders();
+        const send = (change: TrustChange) => {
+          for (const event of deriveEvents(change, subscription)) {
+            res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+          }
+        };
+
+        // Resume after the last event the client saw
+        const lastEventId = req.headers['last-event-id'];
+        if (typeof lastEventId === 'string') {
+          const seq = parseInt(lastEventId.split('-')[0]);
+          if (Number.isFinite(seq)) monitor.since(seq).forEach(send);
+        }
+
+        monitor.on('change', send);
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+        req.on('close', () => {
+          clearInterval(heartbeat);
+          monitor.off('change', send);
+        });
+        return;
+      }
+
+      // Register a webhook; the signing secret is only in this response
+      if (url.pathname === '/webhooks' && method === 'POST') {
+        const body = await parseBody(req);
+        let target: URL | null = null;
+        try { target = new URL(body.url); } catch {}
+        const targetIssue = target ? webhooks.targetIssue(target) : 'must be an http(s) URL';
+        if (!target || targetIssue) {
+          throw new ValidationError([{ field: 'url', code: 'invalid_value', message: targetIssue! }]);
+        }
+        const webhook = webhooks.register(caller!.id, target.toString(), parseSubscription(body));
+        return json(res, webhook, 201);
+      }
+
+      // Webhooks registered by this key (all of them for admins)
+      if (url.pathname === '/webhooks' && method === 'GET') {
+        const owner = hasRole(caller!, 'oracle-admin') ? undefined : caller!.id;
+        return json(res, { webhooks: webhooks.list(owner).map(({ secret, ...webhook }) => webhook) });
+      }
+
+      // Remove a webhook
+      const deleteWebhookRoute = matchRoute(url.pathname, /^\/webhooks\/([^/]+)\/delete$/);
+      if (deleteWebhookRoute && method === 'POST') {
+        const webhook = webhooks.get(deleteWebhookRoute[1]);
+        if (!webhook || (webhook.owner !== caller!.id && !hasRole(caller!, 'oracle-admin'))) {
+          return json(res, { error: 'Webhook not found', id: deleteWebhookRoute[1] }, 404);
+        }
+        webhooks.remove(webhook.id);
+        return json(res, { id: webhook.id, removed: true });
+      }
+
+      // Run decay re-attestation now
+      if (url.pathname === '/admin/decay/run' && method === 'POST') {
+        const report = await decayScheduler.runOnce();
+        audit.agentIds = report.reattested.map(r => r.agentId);
+        audit.signatures = [...new Set(report.reattested.map(r => r.signature))];
+        return json(res, report, report.error ? 502 : 200);
+      }
+
+      // Past decay run reports, newest first
+      if (url.pathname === '/admin/decay/runs' && method === 'GET') {
+        const limit = parseInt(url.searchParams.get('limit') || '20');
+        return json(res, { runs: decayScheduler.reports(limit) });
+      }
+
+      // API keys (hashes are never returned)
+      if (url.pathname === '/admin/keys' && method === 'GET') {
+        return json(res, { keys: apiKeys.list().map(({ hash, ...key }) => key) });
+      }
+
+      // Create an API key; the plaintext is only in this response
+      if (url.pathname === '/admin/keys' && method === 'POST') {
+        const body = await parseBody(req);
+        if (typeof body.id !== 'string' || !API_ROLES.includes(body.role)) {
+          return json(res, { error: `id and role (${API_ROLES.join(', ')}) are required` }, 400);
+        }
+        if (body.rateLimit !== undefined && !isRateLimit(body.rateLimit)) {
+          return json(res, { error: 'rateLimit must be a positive integer (requests per minute)' }, 400);
+        }
+        try {
+          const { key, apiKey } = apiKeys.create(body.id, body.role, body.rateLimit);
+          const { hash, ...info } = apiKey;
+          return json(res, { key, ...info }, 201);
+        } catch (err: any) {
+          return json(res, { error: err.message }, 409);
+        }
+      }
+
+      // Revoke an API key
+      const revokeKeyRoute = matchRoute(url.pathname, /^\/admin\/keys\/([^/]+)\/revoke$/);
+      if (revokeKeyRoute && method === 'POST') {
+        const revoked = apiKeys.revoke(revokeKeyRoute[1]);
+        if (!revoked) return json(res, { error: 'No active key with that id', id: revokeKeyRoute[1] }, 404);
+        return json(res, { id: revokeKeyRoute[1], revoked });
+      }
+
+      // Unbind an agent from its wallet, e.g. when someone else registered its agentId
+      const unbindRoute = matchRoute(url.pathname, /^\/admin\/agents\/([^/]+)\/unbind$/);
+      if (unbindRoute && method === 'POST') {
+        const agentId = unbindRoute[1];
+        const body = await parseBody(req);
+        if (typeof body.reason !== 'string' || !body.reason.trim()) {
+          return json(res, { error: 'A reason is required' }, 400);
+        }
+        audit.agentIds = [agentId];
+        try {
+          return json(res, { unbound: true, ...registry.unbind(agentId, body.reason) });
+        } catch (err) {
+          if (err instanceof RegistrationError) return json(res, { error: err.message }, REGISTRATION_ERROR_STATUS[err.kind]);
+          throw err;
+        }
+      }
+
+      // Audit trail, newest first
+      if (url.pathname === '/admin/audit' && method === 'GET') {
+        const limit = parseInt(url.searchParams.get('limit') || '100');
+        const entries = auditLog.recent(limit, url.searchParams.get('keyId') ?? undefined);
+        return json(res, { entries, count: entries.length });
+      }
+
+      // 404
+      json(res, { error: 'Not found', endpoints: [
+        'GET  /health',
+        'GET  /oracle',
+        'GET  /models',
+        'POST /agents/register/challenge',
+        'POST /agents/register',
+        'GET  /agents/:agentId',
+        'POST /oracle/fund',
+        'POST /oracle/cosign',
+        'POST /endorsements',
+        'GET  /endorsements/:agentId',
+        'POST /disputes',
+        'GET  /disputes',
+        'GET  /disputes/:id',
+        'POST /disputes/:id/resolve',
+        'POST /trust/calculate',
+        'POST /trust/explain',
+        'POST /trust/attest',
+        'POST /trust/attest/batch',
+        'POST /trust/verify',
+        'POST /trust/revoke/:agentId',
+        'POST /trust/suspend/:agentId',
+        'POST /trust/reinstate/:agentId',
+        'GET  /trust/query/:agentId',
+        'GET  /trust/wallet/:wallet',
+        'GET  /trust/history/:agentId',
+        'GET  /trust/search',
+        'POST /trust/search',
+        'GET  /trust/attestations',
+        'GET  /trust/stream',
+        'GET  /webhooks',
+        'POST /webhooks',
+        'POST /webhooks/:id/delete',
+        'GET  /admin/keys',
+        'POST /admin/keys',
+        'POST /admin/keys/:id/revoke',
+        'POST /admin/agents/:agentId/unbind',
+        'GET  /admin/audit',
+        'POST /admin/decay/run',
+        'GET  /admin/decay/runs',
+      ]}, 404);
+
+    } catch (err: any) {
+      if (err instanceof ValidationError) {
+        audit.error = err.message;
+        return json(res, { error: 'Invalid request', code: 'validation_failed', issues: err.issues }, err.status);
+      }
+      console.error('Request error:', err);
+      audit.error = err.message;
+      json(res, { error: err.message }, 500);
     }
+  }
 
-    // 404
-    json(res, { error: 'Not found', endpoints: [
-      'GET  /health',
-      'GET  /oracle',
-      'POST /oracle/fund',
-      'POST /trust/calculate',
-      'POST /trust/attest',
-      'GET  /trust/query/:agentId',
-      'GET  /trust/attestations',
-    ]}, 404);
-
-  } catch (err: any) {
-    console.error('Request error:', err);
-    json(res, { error: err.message }, 500);
+  // Start
+  if (!attestor.oraclePublicKey) initOracle();
+  if (attestor.oracleSet) console.log(`Oracle set: ${attestor.oracleSet.threshold} of ${attestor.oracleSet.oracles.length}`);
+  initApiKeys();
+  try {
+    const models = loadScoringModels(path.join(dataDir, 'models'));
+    if (models.length > 0) console.log(`Scoring models loaded: ${models.map(m => `${m.id}@${m.version}`).join(', ')}`);
+  } catch (err) {
+    console.error('Failed to load scoring models:', err);
   }
+
+  const server = http.createServer(handleRequest);
+  let changeCheck: NodeJS.Timeout | null = null;
+
+  server.on('listening', () => {
+    if (!attestor.oraclePublicKey) return;
+    store.sync(attestor)
+      .then(r => {
+        console.log(`Index synced: ${r.attestations} attestations from ${r.transactions} transactions`);
+        monitor.refresh(store, undefined, { emit: false });
+        monitorPrimed = true;
+      })
+      .catch(err => console.error('Index sync failed:', err));
+
+    // Decay moves current scores with no new records; check for threshold crossings
+    changeCheck = setInterval(() => {
+      store.sync(attestor)
+        .then(() => {
+          monitor.refresh(store, undefined, { emit: monitorPrimed });
+          monitorPrimed = true;
+        })
+        .catch(err => console.error('Trust change check failed:', err));
+    }, DECAY_CHECK_INTERVAL_MS);
+    changeCheck.unref();
+
+    if (decayIntervalHours > 0) {
+      decayScheduler.start(decayIntervalHours * 60 * 60 * 1000);
+      console.log(`Decay re-attestation every ${decayIntervalHours}h`);
+    }
+  });
+
+  server.on('close', () => {
+    if (changeCheck) clearInterval(changeCheck);
+    changeCheck = null;
+    decayScheduler.stop();
+  });
+
+  return server;
 }
 
-// Start
-initOracle();
-const server = http.createServer(handleRequest);
-server.listen(PORT, () => {
-  console.log(`Moltbot Den Trust Protocol API running on port ${PORT}`);
-  console.log(`Oracle: ${attestor.oraclePublicKey}`);
-  console.log(`Network: Solana Devnet`);
-});
+if (require.main === module) {
+  // The default attestor loads oracle-set.json, and the oracle key logs itself
+  createServer().listen(PORT, () => {
+    console.log(`Moltbot Den Trust Protocol API running on port ${PORT}`);
+    console.log(`Network: Solana Devnet`);
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * Attestation Signing
+ *
+ * Every attestation carries a hash of its canonical payload and an ed25519
+ * signature over that hash by the oracle key, so it can be verified offline —
+ * e.g. when relayed in an HTTP header — without touching Solana.
+ *
+ * Canonical form: JSON with recursively sorted keys, timestamps truncated to
+ * Unix seconds (the precision stored on-chain), lifecycle and signature
+ * fields excluded.
+ */
+
+import * as crypto from 'crypto';
+import { TrustAttestation } from './schema';
+import { verifyBytes } from './ed25519';
+import { OracleSigner } from './oracle-signer';
+
+// Not covered by the signature: lifecycle is tracked in separate records
+const UNSIGNED_FIELDS = ['status', 'revocationReason', 'payloadHash', 'oracleSignature', 'coSignatures'];
+
+// Stored on-chain with second precision
+const TIMESTAMP_FIELDS = ['attestedAt', 'lastActivityAt', 'tierExpiresAt'];
+
+export interface AttestationVerification {
+  valid: boolean;
+  signer: string;            // attestedBy of the checked attestation
+  trustedSigner: boolean;    // Signer is one of the accepted oracle keys
+  errors: string[];
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * Canonical serialization of the signed portion of an attestation
+ */
+export function canonicalizeAttestation(attestation: TrustAttestation): string {
+  const payload: Record<string, unknown> = { ...attestation };
+  for (const field of UNSIGNED_FIELDS) delete payload[field];
+  for (const field of TIMESTAMP_FIELDS) {
+    if (typeof payload[field] === 'number') {
+      payload[field] = Math.floor(payload[field] as number / 1000);
+    }
+  }
+  return JSON.stringify(sortKeys(payload));
+}
+
+/**
+ * sha256 of the canonical payload, hex encoded
+ */
+export function hashAttestation(attestation: TrustAttestation): string {
+  return crypto.createHash('sha256').update(canonicalizeAttestation(attestation)).digest('hex');
+}
+
+/**
+ * Sign an attestation as the given oracle. Sets attestedBy to the oracle
+ * pubkey before hashing, so the signer is part of the signed payload.
+ */
+export async function signAttestation(attestation: TrustAttestation, oracle: OracleSigner): Promise<TrustAttestation> {
+  const unsigned: TrustAttestation = { ...attestation, attestedBy: oracle.publicKey.toBase58() };
+  delete unsigned.payloadHash;
+  delete unsigned.oracleSignature;
+  delete unsigned.coSignatures; // Signed the previous payload
+
+  const payloadHash = hashAttestation(unsigned);
+  return {
+    ...unsigned,
+    payloadHash,
+    oracleSignature: await oracle.sign(Buffer.from(payloadHash, 'hex')),
+  };
+}
+
+/**
+ * Verify payload integrity and the oracle signature. When trustedSigners is
+ * given, the signer must also be one of those keys.
+ */
+export function verifyAttestation(attestation: TrustAttestation, trustedSigners?: string[]): AttestationVerification {
+  const errors: string[] = [];
+  const signer = attestation.attestedBy;
+  const trustedSigner = trustedSigners ? trustedSigners.includes(signer) : true;
+
+  const payloadHash = hashAttestation(attestation);
+  if (!attestation.payloadHash) {
+    errors.push('Missing payloadHash');
+  } else if (attestation.payloadHash !== payloadHash) {
+    errors.push('Payload does not match payloadHash');
+  }
+
+  if (!attestation.oracleSignature) {
+    errors.push('Missing oracleSignature');
+  } else if (!verifyBytes(Buffer.from(payloadHash, 'hex'), attestation.oracleSignature, signer)) {
+    errors.push('Invalid oracle signature');
+  }
+
+  if (!trustedSigner) {
+    errors.push(`Signer ${signer} is not a trusted oracle`);
+  }
+
+  return { valid: errors.length === 0, signer, trustedSigner, errors };
+}
@@ -0,0 +1,311 @@
+/**
+ * Local Attestation Index
+ *
+ * Persistent, append-only JSONL index of the oracle's memo records, so
+ * queries are answered locally instead of rescanning chain history.
+ *
+ * - Each line is one record: an attestation, a status change, or a cursor
+ * - Incremental sync pulls only transactions newer than the cursor signature
+ * - Backfill pages through the full history via getSignaturesForAddress
+ * - Records are keyed by agentId and by wallet; duplicates are dropped on load/sync
+ * - After a key rotation, the retired keys' histories are indexed once too
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AttestationRecord, SolanaAttestor, StatusChangeRecord } from './solana-attestor';
+import { AttestationStatus } from './schema';
+
+export const DEFAULT_INDEX_PATH = path.join(process.env.HOME || '~', '.config/moltbotden-trust/index.jsonl');
+
+// getSignaturesForAddress maximum page size
+const PAGE_SIZE = 1000;
+
+type IndexLine =
+  | { type: 'attestation'; record: AttestationRecord }
+  | { type: 'status'; record: StatusChangeRecord }
+  | { type: 'cursor'; newest: string | null; oldest: string | null; complete: boolean }
+  | { type: 'retired'; oracle: string }; // A retired oracle key's history is fully indexed
+
+export interface SyncResult {
+  attestations: number;  // New attestation records ingested
+  statusChanges: number; // New status change records ingested
+  transactions: number;  // Transactions scanned
+}
+
+/** Newest first: by slot, then by attestation/change time within a slot */
+function byRecency(a: { slot: number; blockTime: number }, b: { slot: number; blockTime: number }): number {
+  return (b.slot - a.slot) || (b.blockTime - a.blockTime);
+}
+
+export class AttestationStore {
+  private attestationsByAgent = new Map<string, AttestationRecord[]>();
+  private agentsByWallet = new Map<string, Set<string>>(); // Every agent ever attested with the wallet
+  private statusByAgent = new Map<string, StatusChangeRecord[]>();
+  private seen = new Set<string>(); // record keys already indexed
+
+  // Cursors: newest ingested signature, and the oldest reached by backfill
+  private newest: string | null = null;
+  private oldest: string | null = null;
+  private complete = false;
+  private retiredIndexed = new Set<string>();
+
+  private syncing: Promise<SyncResult> | null = null;
+
+  constructor(private filePath: string = DEFAULT_INDEX_PATH) {
+    this.load();
+  }
+
+  /**
+   * Ingest new oracle transactions since the last sync. On an empty index
+   * this walks the full history; afterwards it only reads what's new.
+   * Concurrent callers share the same in-flight sync.
+   */
+  async sync(attestor: SolanaAttestor): Promise<SyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.runSync(attestor).finally(() => { this.syncing = null; });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Continue walking older history from the oldest indexed signature until
+   * the beginning of the oracle's history is reached.
+   */
+  async backfill(attestor: SolanaAttestor): Promise<SyncResult> {
+    const result: SyncResult = { attestations: 0, statusChanges: 0, transactions: 0 };
+    if (this.complete) return result;
+
+    let before = this.oldest ?? undefined;
+    for (;;) {
+      const page = await attestor.readTrustRecordPage({ before, limit: PAGE_SIZE });
+      this.ingestPage(page.attestations, page.statusChanges, result);
+      result.transactions += page.transactionCount;
+
+      if (page.oldestSignature) {
+        before = page.oldestSignature;
+        this.oldest = page.oldestSignature;
+        if (!this.newest) this.newest = page.newestSignature;
+      }
+      if (page.transactionCount < PAGE_SIZE) {
+        this.complete = true;
+        break;
+      }
+    }
+
+    this.appendCursor();
+    return result;
+  }
+
+  private async runSync(attestor: SolanaAttestor): Promise<SyncResult> {
+    // A complete but empty index (no history yet) reads forward from the start
+    if (!this.newest && !this.complete) {
+      const result = await this.backfill(attestor);
+      await this.indexRetiredKeys(attestor, result);
+      return result;
+    }
+
+    const result: SyncResult = { attestations: 0, statusChanges: 0, transactions: 0 };
+    let before: string | undefined;
+    let newest: string | null = null;
+
+    for (;;) {
+      const page = await attestor.readTrustRecordPage({ before, until: this.newest ?? undefined, limit: PAGE_SIZE });
+      this.ingestPage(page.attestations, page.statusChanges, result);
+      result.transactions += page.transactionCount;
+
+      if (!newest) newest = page.newestSignature;
+      if (page.transactionCount < PAGE_SIZE || !page.oldestSignature) break;
+      before = page.oldestSignature;
+    }
+
+    if (newest) {
+      this.newest = newest;
+      this.appendCursor();
+    }
+
+    // An interrupted backfill resumes from where it stopped
+    if (!this.complete) {
+      const older = await this.backfill(attestor);
+      result.attestations += older.attestations;
+      result.statusChanges += older.statusChanges;
+      result.transactions += older.transactions;
+    }
+    await this.indexRetiredKeys(attestor, result);
+    return result;
+  }
+
+  /**
+   * Walk the full history of each key the oracle retired since the last
+   * sync. Once rotated, a key isn't used to write again, so one pass is enough;
+   * the attestor drops whatever it wrote after its cutoff.
+   */
+  private async indexRetiredKeys(attestor: SolanaAttestor, result: SyncResult): Promise<void> {
+    for (const { publicKey } of attestor.retiredOracles) {
+      if (this.retiredIndexed.has(publicKey)) continue;
+
+      let before: string | undefined;
+      for (;;) {
+        const page = await attestor.readTrustRecordPage({ oracle: publicKey, before, limit: PAGE_SIZE });
+        this.ingestPage(page.attestations, page.statusChanges, result);
+        result.transactions += page.transactionCount;
+        if (page.transactionCount < PAGE_SIZE || !page.oldestSignature) break;
+        before = page.oldestSignature;
+      }
+
+      this.retiredIndexed.add(publicKey);
+      this.append([{ type: 'retired', oracle: publicKey }]);
+    }
+  }
+
+  /**
+   * Latest attestation for an agent
+   */
+  latest(agentId: string): AttestationRecord | null {
+    return this.attestationsByAgent.get(agentId)?.[0] ?? null;
+  }
+
+  /**
+   * Latest attestation for the agent bound to a wallet: of the agents whose
+   * latest attestation names it (agents since moved to another wallet don't
+   * count), the most recently attested
+   */
+  latestByWallet(wallet: string): AttestationRecord | null {
+    const current = [...(this.agentsByWallet.get(wallet) ?? [])]
+      .map(agentId => this.latest(agentId)!)
+      .filter(record => record.attestation.solanaWallet === wallet);
+    return current.sort(byRecency)[0] ?? null;
+  }
+
+  /**
+   * All attestations for an agent, newest (highest version) first
+   */
+  history(agentId: string): AttestationRecord[] {
+    return [...(this.attestationsByAgent.get(agentId) ?? [])];
+  }
+
+  /**
+   * Most recent lifecycle change for an agent, if any
+   */
+  latestStatus(agentId: string): StatusChangeRecord | null {
+    return this.statusByAgent.get(agentId)?.[0] ?? null;
+  }
+
+  /**
+   * All lifecycle changes for an agent, newest first
+   */
+  statusHistory(agentId: string): StatusChangeRecord[] {
+    return [...(this.statusByAgent.get(agentId) ?? [])];
+  }
+
+  /**
+   * Current status for an agent (ACTIVE unless a later change says otherwise)
+   */
+  statusOf(agentId: string): AttestationStatus {
+    return this.latestStatus(agentId)?.change.status ?? AttestationStatus.ACTIVE;
+  }
+
+  /**
+   * Latest attestation for every indexed agent
+   */
+  latestAll(): AttestationRecord[] {
+    return [...this.attestationsByAgent.values()].map(records => records[0]).sort(byRecency);
+  }
+
+  /**
+   * Most recent attestation records across all agents
+   */
+  recent(limit: number = 20): AttestationRecord[] {
+    return [...this.attestationsByAgent.values()].flat().sort(byRecency).slice(0, limit);
+  }
+
+  get agentCount(): number {
+    return this.attestationsByAgent.size;
+  }
+
+  get isComplete(): boolean {
+    return this.complete;
+  }
+
+  private ingestPage(attestations: AttestationRecord[], statusChanges: StatusChangeRecord[], result: SyncResult): void {
+    const lines: IndexLine[] = [];
+
+    for (const record of attestations) {
+      if (this.addAttestation(record)) {
+        lines.push({ type: 'attestation', record });
+        result.attestations++;
+      }
+    }
+    for (const record of statusChanges) {
+      if (this.addStatusChange(record)) {
+        lines.push({ type: 'status', record });
+        result.statusChanges++;
+      }
+    }
+
+    this.append(lines);
+  }
+
+  private addAttestation(record: AttestationRecord): boolean {
+    const { agentId, solanaWallet } = record.attestation;
+    const key = `attestation:${record.signature}:${agentId}`;
+    if (this.seen.has(key)) return false;
+    this.seen.add(key);
+
+    const records = this.attestationsByAgent.get(agentId) ?? [];
+    records.push(record);
+    // Version orders an agent's records; slot breaks ties for pre-versioning records
+    records.sort((a, b) => (b.attestation.version - a.attestation.version) || byRecency(a, b));
+    this.attestationsByAgent.set(agentId, records);
+
+    const agents = this.agentsByWallet.get(solanaWallet) ?? new Set<string>();
+    agents.add(agentId);
+    this.agentsByWallet.set(solanaWallet, agents);
+    return true;
+  }
+
+  private addStatusChange(record: StatusChangeRecord): boolean {
+    const { agentId } = record.change;
+    const key = `status:${record.signature}:${agentId}`;
+    if (this.seen.has(key)) return false;
+    this.seen.add(key);
+
+    const records = this.statusByAgent.get(agentId) ?? [];
+    records.push(record);
+    records.sort((a, b) => byRecency(a, b) || (b.change.changedAt - a.change.changedAt));
+    this.statusByAgent.set(agentId, records);
+    return true;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const content = fs.readFileSync(this.filePath, 'utf-8');
+    for (const raw of content.split('\n')) {
+      if (!raw.trim()) continue;
+      let line: IndexLine;
+      try { line = JSON.parse(raw); }
+      catch { continue; } // Torn final line from an interrupted write
+
+      if (line.type === 'attestation') this.addAttestation(line.record);
+      else if (line.type === 'status') this.addStatusChange(line.record);
+      else if (line.type === 'cursor') {
+        this.newest = line.newest;
+        this.oldest = line.oldest;
+        this.complete = line.complete;
+      } else if (line.type === 'retired') {
+        this.retiredIndexed.add(line.oracle);
+      }
+    }
+  }
+
+  private appendCursor(): void {
+    this.append([{ type: 'cursor', newest: this.newest, oldest: this.oldest, complete: this.complete }]);
+  }
+
+  private append(lines: IndexLine[]): void {
+    if (lines.length === 0) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, lines.map(l => JSON.stringify(l)).join('\n') + '\n');
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Audit Log
+ *
+ * Append-only JSONL record of every state-changing API request: which key
+ * made it, what it touched (agents, transaction signatures) and how it ended.
+ * Rejected requests (bad key, wrong role, rate limited) are recorded too.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiRole } from './api-auth';
+
+export const DEFAULT_AUDIT_LOG_PATH = path.join(process.env.HOME || '~', '.config/moltbotden-trust/audit.jsonl');
+
+export interface AuditEntry {
+  at: number;                // Unix timestamp (ms)
+  keyId: string | null;      // null when no valid key was presented
+  role: ApiRole | null;
+  method: string;
+  path: string;
+  status: number;            // HTTP status returned
+  agentIds?: string[];
+  signatures?: string[];     // Transactions written
+  error?: string;
+}
+
+export class AuditLog {
+  constructor(private filePath: string = DEFAULT_AUDIT_LOG_PATH) {}
+
+  record(entry: AuditEntry): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    } catch (err) {
+      console.error('Failed to write audit log:', err);
+    }
+  }
+
+  /**
+   * Most recent entries first, optionally for one key
+   */
+  recent(limit = 100, keyId?: string): AuditEntry[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    const entries: AuditEntry[] = [];
+    for (const raw of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!raw.trim()) continue;
+      try { entries.push(JSON.parse(raw)); }
+      catch {} // Torn final line from an interrupted write
+    }
+    return entries
+      .filter(e => keyId === undefined || e.keyId === keyId)
+      .reverse()
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,477 @@
+#!/usr/bin/env node
+/**
+ * moltbot-trust: command-line oracle operations
+ *
+ * Scriptable counterparts of the API's oracle endpoints, working on the same
+ * data directory (oracle key, attestation index, agent registry, endorsement
+ * graph, scoring models, oracle set). Results are JSON on stdout (export can
+ * also write CSV), progress messages go to stderr, and the exit code is
+ * non-zero when anything failed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { Keypair } from '@solana/web3.js';
+import { BatchAttestationResult, SolanaAttestor } from './solana-attestor';
+import { AttestationStore } from './attestation-store';
+import { AgentRegistry } from './agent-registry';
+import { EndorsementGraph, applyEndorsementTrust, endorsementSeeds } from './endorsement-graph';
+import { applyWalletActivity, loadFlaggedAddresses } from './onchain-collector';
+import { loadTierPolicy } from './verification-tiers';
+import { CURRENT_SCORING_MODEL, ScoringModel, getScoringModel, loadScoringModels, resolveModelRef } from './scoring-model';
+import { ValidationError, ValidationIssue, platformDataIssues } from './validation';
+import { buildTrustHistory } from './trust-query';
+import { AgentPlatformData, calculateTrustScore, getCurrentScore } from './trust-engine';
+import { AttestationStatus, TRUST_COMPONENTS, TrustAttestation, VerificationTier } from './schema';
+import { Clock, systemClock } from './clock';
+import { loadOracleQuorum } from './oracle-quorum';
+import { KeystoreError, ORACLE_PASSPHRASE_ENV, OracleKey, readOracleKey, writeOracleKey } from './oracle-keystore';
+import { KeypairSigner } from './oracle-signer';
+import { DEFAULT_DATA_DIR } from './data-dir';
+
+const USAGE = `Usage: moltbot-trust <command> [options]
+
+Commands:
+  keygen                    Generate the oracle keypair (encrypted with the passphrase)
+  oracle info               Oracle public key, retired keys, balance and indexed agents
+  oracle encrypt            Encrypt a plaintext oracle key file
+  oracle rotate             Hand over to a new oracle key: publish the handover, move the SOL
+  calculate <file.json>     Score platform data as given, without writing on-chain
+  attest <file.json|dir>    Score, with onchain inputs from the wallet's history, and attest
+  query <agentId>           Latest attestation, status and current score
+  history <agentId>         Score timeline with per-component deltas
+  verify <signature>        Check the trust records in a transaction
+  export                    Latest attestation of every agent
+
+Platform data files hold one agent object or an array of them; a directory
+attests every *.json file in it.
+
+Options:
+  --data-dir <dir>          Key, index, registry and oracle-set files (default ~/.config/moltbotden-trust)
+  --rpc <url>               Solana RPC (default MDEN_RPC_URL, or devnet)
+  --model <id[@version]>    Scoring model for calculate and attest (latest version by default)
+  --dry-run                 attest: sign and print without sending
+  --format csv|json         export format (default json)
+  --out <file>              export: write to a file instead of stdout
+  --force                   keygen: replace an existing key
+  --passphrase-file <file>  Oracle key passphrase (default MDEN_ORACLE_PASSPHRASE)
+  --grace-hours <n>         oracle rotate: keep accepting the old key this long (default 0)
+  -h, --help                Show this help
+`;
+
+const EXPORT_COLUMNS = [
+  'agentId', 'agentName', 'solanaWallet', 'status', 'trustScore', 'currentScore',
+  ...TRUST_COMPONENTS, 'verificationTier', 'version', 'attestedAt', 'lastActivityAt',
+  'modelId', 'modelVersion', 'signature',
+] as const;
+
+/**
+ * A failure to report to the user as-is (exit code 2 for usage errors)
+ */
+export class CliError extends Error {
+  constructor(message: string, public readonly exitCode = 1) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export interface CliOptions {
+  attestor?: SolanaAttestor; // Default: --rpc; an attestor without an oracle loads oracle.json
+  clock?: Clock;             // Default: system clock
+  stdout?: (text: string) => void;
+}
+
+/**
+ * Run one command; resolves to the process exit code
+ */
+export async function runCli(argv: string[], options: CliOptions = {}): Promise<number> {
+  const stdout = options.stdout ?? (text => process.stdout.write(text));
+  const clock = options.clock ?? systemClock;
+
+  // Library progress messages go to stderr so stdout stays machine-readable
+  const log = console.log;
+  console.log = console.error;
+  try {
+    const { values, positionals } = parseCommandLine(argv);
+    if (values.help) {
+      stdout(USAGE);
+      return 0;
+    }
+    if (positionals.length === 0) throw new CliError(USAGE, 2);
+
+    const [command, ...args] = positionals;
+    const dataDir = values['data-dir'] ?? DEFAULT_DATA_DIR;
+    const oracleKeyPath = path.join(dataDir, 'oracle.json');
+    const passphrase = values['passphrase-file']
+      ? readPassphrase(values['passphrase-file'])
+      : process.env[ORACLE_PASSPHRASE_ENV];
+    const requirePassphrase = () => {
+      if (!passphrase) throw new CliError(`A passphrase is required: set ${ORACLE_PASSPHRASE_ENV} or pass --passphrase-file`);
+      return passphrase;
+    };
+    const attestor = options.attestor ?? new SolanaAttestor(values.rpc ?? process.env.MDEN_RPC_URL, {
+      clock,
+      ...loadOracleQuorum(path.join(dataDir, 'oracle-set.json')),
+    });
+    const store = new AttestationStore(path.join(dataDir, 'index.jsonl'));
+    const print = (data: unknown) => stdout(JSON.stringify(data, null, 2) + '\n');
+    const argument = (name: string) => {
+      if (args.length !== 1) throw new CliError(`Usage: moltbot-trust ${command} <${name}>`, 2);
+      return args[0];
+    };
+
+    loadScoringModels(path.join(dataDir, 'models'));
+    const tierPolicy = loadTierPolicy(path.join(dataDir, 'tier-policy.json'));
+
+    switch (command) {
+      case 'keygen': {
+        if (fs.existsSync(oracleKeyPath) && !values.force) {
+          throw new CliError(`An oracle key already exists at ${oracleKeyPath} (use --force to replace it)`);
+        }
+        const keypair = Keypair.generate();
+        writeOracleKey(oracleKeyPath, keypair, { passphrase: requirePassphrase() });
+        print({ publicKey: keypair.publicKey.toBase58(), path: oracleKeyPath });
+        return 0;
+      }
+
+      case 'oracle': {
+        if (args.length !== 1) throw new CliError('Usage: moltbot-trust oracle info|encrypt|rotate', 2);
+        switch (args[0]) {
+          case 'info': {
+            loadOracle(attestor, oracleKeyPath, passphrase);
+            const balance = await attestor.getBalance();
+            await store.sync(attestor);
+            print({ publicKey: attestor.oraclePublicKey, retired: attestor.retiredOracles, balance, agents: store.agentCount });
+            return 0;
+          }
+
+          case 'encrypt': {
+            const { keypair, encrypted, retired } = readKey(oracleKeyPath, passphrase);
+            if (encrypted) throw new CliError(`The oracle key in ${oracleKeyPath} is already encrypted`);
+            writeOracleKey(oracleKeyPath, keypair, { passphrase: requirePassphrase(), retired });
+            print({ publicKey: keypair.publicKey.toBase58(), path: oracleKeyPath, encrypted: true });
+            return 0;
+          }
+
+          case 'rotate': {
+            const graceHours = Number(values['grace-hours'] ?? 0);
+            if (!Number.isFinite(graceHours) || graceHours < 0) throw new CliError('--grace-hours must be a non-negative number', 2);
+            requirePassphrase();
+            loadOracle(attestor, oracleKeyPath, passphrase);
+
+            // The new key is on disk before the handover is published, so a failure can't lose it
+            const next = Keypair.generate();
+            const pendingPath = path.join(dataDir, 'oracle.next.json');
+            writeOracleKey(pendingPath, next, { passphrase });
+            let signature: string;
+            try {
+              const rotated = await attestor.rotateOracle(new KeypairSigner(next), {
+                cutoff: clock.now() + graceHours * 60 * 60 * 1000,
+              });
+              signature = rotated.signature;
+            } catch (err) {
+              fs.rmSync(pendingPath, { force: true });
+              throw err;
+            }
+            writeOracleKey(oracleKeyPath, next, { passphrase, retired: attestor.retiredOracles });
+            fs.rmSync(pendingPath, { force: true });
+
+            const retired = attestor.retiredOracles[attestor.retiredOracles.length - 1];
+            print({
+              publicKey: attestor.oraclePublicKey,
+              retired: retired.publicKey,
+              cutoff: new Date(retired.cutoff).toISOString(),
+              signature,
+            });
+            return 0;
+          }
+
+          default:
+            throw new CliError('Usage: moltbot-trust oracle info|encrypt|rotate', 2);
+        }
+      }
+
+      case 'calculate': {
+        const model = resolveModel(values.model);
+        const agents = readPlatformData(argument('file.json'), clock.now());
+        print(agents.map(data => calculateTrustScore(data, {
+          attestedBy: attestor.oraclePublicKey ?? undefined,
+          model,
+          tierPolicy,
+          clock,
+        })));
+        return 0;
+      }
+
+      case 'attest': {
+        const model = resolveModel(values.model);
+        const agents = readPlatformData(argument('file.json|dir'), clock.now());
+        const agentIds = agents.map(a => a.agentId);
+        const duplicate = agentIds.find((id, i) => agentIds.indexOf(id) !== i);
+        if (duplicate) throw new CliError(`Agent ${duplicate} appears more than once`);
+
+        loadOracle(attestor, oracleKeyPath, passphrase);
+        const registry = new AgentRegistry(path.join(dataDir, 'agents.jsonl'), undefined, clock);
+        const endorsementGraph = new EndorsementGraph(path.join(dataDir, 'endorsements.jsonl'));
+        const onchainCollector = attestor.onchainCollector({
+          flaggedAddresses: loadFlaggedAddresses(path.join(dataDir, 'flagged-addresses.json')),
+        });
+        await store.sync(attestor);
+
+        // The graph and its seeds don't change during the run
+        const endorsementScores = endorsementGraph.compute(endorsementSeeds(store, clock.now())).scores;
+        const prepared: TrustAttestation[] = [];
+        const rejected = new Map<string, string>();
+        for (let data of agents) {
+          // Same rules as POST /trust/attest: registered wallets only, graph endorsements
+          // and the wallet's own history win, claimed tiers must be met
+          if (!registry.isBound(data.agentId, data.solanaWallet)) {
+            rejected.set(data.agentId, `Wallet ${data.solanaWallet} is not registered to agent ${data.agentId}`);
+            continue;
+          }
+          data = applyEndorsementTrust(data, endorsementScores.get(data.agentId));
+          try {
+            data = applyWalletActivity(data, await onchainCollector.collect(data.solanaWallet));
+            const proposal = await attestor.prepareAttestation(calculateTrustScore(data, { model, tierPolicy, requireTier: true, clock }), store.latest(data.agentId));
+            prepared.push(await attestor.collectCoSignatures(proposal, { data }));
+          } catch (err) {
+            rejected.set(data.agentId, err instanceof Error ? err.message : String(err));
+          }
+        }
+
+        const written: BatchAttestationResult[] = values['dry-run']
+          ? prepared.map(a => ({ agentId: a.agentId, signature: null, error: null, attempts: 0 }))
+          : await attestor.writeAttestations(prepared);
+        const results = agentIds.map(agentId => {
+          if (rejected.has(agentId)) return { agentId, signature: null, error: rejected.get(agentId)!, attempts: 0 };
+          const result = written.find(r => r.agentId === agentId)!;
+          const attestation = prepared.find(a => a.agentId === agentId);
+          return { ...result, attestation: result.error ? undefined : attestation };
+        });
+
+        const failed = results.filter(r => r.error).length;
+        print({
+          dryRun: Boolean(values['dry-run']),
+          results,
+          succeeded: results.length - failed,
+          failed,
+          transactions: new Set(results.map(r => r.signature).filter(Boolean)).size,
+        });
+        return failed > 0 ? 1 : 0;
+      }
+
+      case 'query': {
+        const agentId = argument('agentId');
+        loadOracle(attestor, oracleKeyPath, passphrase);
+        await store.sync(attestor);
+        const match = store.latest(agentId);
+        const latestStatus = store.latestStatus(agentId);
+
+        // A revoked or suspended agent reports its status, never its last good score
+        if (latestStatus && latestStatus.change.status !== AttestationStatus.ACTIVE) {
+          print({
+            found: true,
+            agentId,
+            status: latestStatus.change.status,
+            revocationReason: latestStatus.change.reason,
+            changedAt: latestStatus.change.changedAt,
+            signature: latestStatus.signature,
+          });
+          return 0;
+        }
+        if (!match) {
+          print({ found: false, agentId });
+          return 1;
+        }
+        print({
+          found: true,
+          agentId,
+          status: AttestationStatus.ACTIVE,
+          ...getCurrentScore(match.attestation, clock.now()),
+          attestation: match.attestation,
+          signature: match.signature,
+          blockTime: match.blockTime,
+        });
+        return 0;
+      }
+
+      case 'history': {
+        const agentId = argument('agentId');
+        loadOracle(attestor, oracleKeyPath, passphrase);
+        await store.sync(attestor);
+        const records = store.history(agentId);
+        if (records.length === 0) {
+          print({ found: false, agentId });
+          return 1;
+        }
+        print({
+          found: true,
+          agentId,
+          history: buildTrustHistory(records),
+          statusChanges: store.statusHistory(agentId).map(s => ({ ...s.change, signature: s.signature })),
+        });
+        return 0;
+      }
+
+      case 'verify': {
+        const signature = argument('signature');
+        loadOracle(attestor, oracleKeyPath, passphrase);
+        const verification = await attestor.verifyTransaction(signature);
+        if (!verification) throw new CliError(`Transaction not found: ${signature}`);
+        print(verification);
+        return verification.valid ? 0 : 1;
+      }
+
+      case 'export': {
+        if (args.length > 0) throw new CliError('Usage: moltbot-trust export [--format csv|json] [--out file]', 2);
+        const format = values.format ?? 'json';
+        if (format !== 'csv' && format !== 'json') throw new CliError(`Unknown export format: ${format}`, 2);
+        loadOracle(attestor, oracleKeyPath, passphrase);
+        await store.sync(attestor);
+
+        const rows = store.latestAll()
+          .sort((a, b) => a.attestation.agentId.localeCompare(b.attestation.agentId))
+          .map(record => {
+            const { attestation } = record;
+            const status = store.statusOf(attestation.agentId);
+            const row: Record<string, unknown> = {
+              ...attestation,
+              status: AttestationStatus[status],
+              currentScore: getCurrentScore({ ...attestation, status }, clock.now()).currentScore,
+              verificationTier: VerificationTier[attestation.verificationTier],
+              attestedAt: new Date(attestation.attestedAt).toISOString(),
+              lastActivityAt: new Date(attestation.lastActivityAt).toISOString(),
+              modelId: attestation.modelId ?? getScoringModel()!.id,
+              modelVersion: attestation.modelVersion ?? getScoringModel()!.version,
+              signature: record.signature,
+            };
+            return Object.fromEntries(EXPORT_COLUMNS.map(column => [column, row[column]]));
+          });
+
+        const output = format === 'csv' ? toCsv(rows) : JSON.stringify(rows, null, 2) + '\n';
+        if (values.out) {
+          fs.writeFileSync(values.out, output);
+          console.error(`Exported ${rows.length} agents to ${values.out}`);
+        } else {
+          stdout(output);
+        }
+        return 0;
+      }
+
+      default:
+        throw new CliError(`Unknown command: ${command}\n\n${USAGE}`, 2);
+    }
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      for (const issue of err.issues) console.error(`${issue.field}: ${issue.message}`);
+      return 1;
+    }
+    console.error(err instanceof CliError ? err.message : `Error: ${err instanceof Error ? err.message : err}`);
+    return err instanceof CliError ? err.exitCode : 1;
+  } finally {
+    console.log = log;
+  }
+}
+
+function parseCommandLine(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'data-dir': { type: 'string' },
+        'rpc': { type: 'string' },
+        'model': { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        'format': { type: 'string' },
+        'out': { type: 'string' },
+        'force': { type: 'boolean' },
+        'passphrase-file': { type: 'string' },
+        'grace-hours': { type: 'string' },
+        'help': { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    throw new CliError(err instanceof Error ? err.message : String(err), 2);
+  }
+}
+
+function readKey(keyPath: string, passphrase: string | undefined): OracleKey {
+  if (!fs.existsSync(keyPath)) {
+    throw new CliError(`No oracle key at ${keyPath} (create one with: moltbot-trust keygen)`);
+  }
+  try {
+    return readOracleKey(keyPath, passphrase);
+  } catch (err) {
+    if (err instanceof KeystoreError) throw new CliError(err.message);
+    throw err;
+  }
+}
+
+function loadOracle(attestor: SolanaAttestor, keyPath: string, passphrase: string | undefined): void {
+  if (attestor.oraclePublicKey) return;
+  const { keypair, retired } = readKey(keyPath, passphrase);
+  attestor.initOracle(keypair.secretKey, retired);
+}
+
+function readPassphrase(file: string): string {
+  try {
+    return fs.readFileSync(file, 'utf-8').replace(/\r?\n$/, '');
+  } catch (err) {
+    throw new CliError(`Cannot read passphrase file: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+function resolveModel(ref: string | undefined): ScoringModel {
+  if (!ref) return CURRENT_SCORING_MODEL;
+  const model = resolveModelRef(ref);
+  if (!model) throw new CliError(`Unknown scoring model: ${ref}`);
+  return model;
+}
+
+/**
+ * Read and validate platform data from a file, or every *.json file in a
+ * directory. Issues name the file (and array index) they were found in.
+ */
+function readPlatformData(target: string, now: number): AgentPlatformData[] {
+  if (!fs.existsSync(target)) throw new CliError(`No such file or directory: ${target}`);
+  const files = fs.statSync(target).isDirectory()
+    ? fs.readdirSync(target).filter(file => file.endsWith('.json')).sort().map(file => path.join(target, file))
+    : [target];
+  if (files.length === 0) throw new CliError(`No .json files in ${target}`);
+
+  const agents: AgentPlatformData[] = [];
+  const issues: ValidationIssue[] = [];
+  for (const file of files) {
+    let input: unknown;
+    try {
+      input = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (err) {
+      issues.push({ field: file, code: 'invalid_json', message: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+    const items = Array.isArray(input) ? input : [input];
+    items.forEach((item, i) => {
+      issues.push(...platformDataIssues(item, Array.isArray(input) ? `${file}[${i}].` : `${file}: `, now));
+      agents.push(item as AgentPlatformData);
+    });
+  }
+
+  if (issues.length > 0) throw new ValidationError(issues);
+  return agents;
+}
+
+function toCsv(rows: Array<Record<string, unknown>>): string {
+  const cell = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [EXPORT_COLUMNS.join(','), ...rows.map(row => EXPORT_COLUMNS.map(c => cell(row[c])).join(','))].join('\n') + '\n';
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
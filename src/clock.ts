@@ -0,0 +1,35 @@
+/**
+ * Clock
+ *
+ * Source of the current time for anything stateful (attestor, stores, API),
+ * so time-dependent behavior — decay, expiry, rate limits — can be driven
+ * deterministically. Pure engine functions take `now` directly instead.
+ */
+
+export interface Clock {
+  now(): number;             // Unix timestamp (ms)
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * A clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  constructor(private time: number = Date.now()) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  set(time: number): void {
+    this.time = time;
+  }
+
+  advance(ms: number): number {
+    this.time += ms;
+    return this.time;
+  }
+}
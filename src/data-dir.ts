@@ -0,0 +1,10 @@
+/**
+ * Data Directory
+ *
+ * Where the API and CLI keep key, index, registry and log files unless told
+ * otherwise (`dataDir` / `--data-dir`).
+ */
+
+import * as path from 'path';
+
+export const DEFAULT_DATA_DIR = path.join(process.env.HOME || '~', '.config/moltbotden-trust');
@@ -0,0 +1,214 @@
+/**
+ * Decay Scheduler
+ *
+ * On-chain scores only change when an agent is re-attested, so an inactive
+ * agent's score stays frozen at its last value for consumers that can't run
+ * the decay math themselves. The scheduler periodically carries decay
+ * forward for every known agent and re-attests those whose score has moved
+ * by at least a threshold, largest drop first, while the oracle's SOL
+ * balance allows. Each run is recorded as a report.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AttestationStore } from './attestation-store';
+import { SolanaAttestor } from './solana-attestor';
+import { decayAttestation } from './trust-engine';
+import { AttestationStatus } from './schema';
+import { Clock, systemClock } from './clock';
+
+export const DEFAULT_DECAY_REPORTS_PATH = path.join(process.env.HOME || '~', '.config/moltbotden-trust/decay-runs.jsonl');
+
+// Agents attested per chunk; the balance is re-checked between chunks
+const CHUNK_SIZE = 9;
+
+export interface DecaySchedulerOptions {
+  threshold?: number;        // Minimum score drop that warrants re-attesting (default 10)
+  minBalanceSol?: number;    // Balance held in reserve; never spent (default 0.05)
+  budgetSol?: number;        // Most a single run may spend (default 0.01)
+  feePerTransactionSol?: number; // Cost estimate per transaction (default 0.000005)
+  reportPath?: string;
+  // Serializes with other writers for the same agents (the API's agent locks)
+  withLocks?: <T>(agentIds: string[], fn: () => Promise<T>) => Promise<T>;
+  onReport?: (report: DecayRunReport) => void;
+  clock?: Clock;             // Default: system clock
+}
+
+export interface DecayRunReport {
+  startedAt: number;         // Unix timestamp (ms)
+  finishedAt: number;
+  agentsChecked: number;
+  candidates: number;        // Agents whose score moved by at least the threshold
+  reattested: Array<{ agentId: string; from: number; to: number; signature: string }>;
+  failed: Array<{ agentId: string; error: string }>;
+  deferred: string[];        // Candidates left for a later run (budget or balance)
+  balanceBeforeSol: number | null;
+  balanceAfterSol: number | null;
+  budgetExhausted: boolean;
+  error?: string;            // Set when the run could not complete
+}
+
+export class DecayScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<DecayRunReport> | null = null;
+
+  constructor(
+    private attestor: SolanaAttestor,
+    private store: AttestationStore,
+    private options: DecaySchedulerOptions = {},
+  ) {}
+
+  /**
+   * Run every intervalMs (first run after one interval)
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.runOnce().catch(err => console.error('Decay run failed:', err));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Run now; a run already in progress is shared rather than started twice
+   */
+  runOnce(): Promise<DecayRunReport> {
+    if (!this.running) {
+      this.running = this.run().finally(() => { this.running = null; });
+    }
+    return this.running;
+  }
+
+  /**
+   * Past run reports, newest first
+   */
+  reports(limit = 20): DecayRunReport[] {
+    const filePath = this.reportPath;
+    if (!fs.existsSync(filePath)) return [];
+    const reports: DecayRunReport[] = [];
+    for (const raw of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+      if (!raw.trim()) continue;
+      try { reports.push(JSON.parse(raw)); }
+      catch {} // Torn final line from an interrupted write
+    }
+    return reports.reverse().slice(0, limit);
+  }
+
+  private get clock(): Clock {
+    return this.options.clock ?? systemClock;
+  }
+
+  private get reportPath(): string {
+    return this.options.reportPath ?? DEFAULT_DECAY_REPORTS_PATH;
+  }
+
+  private async run(): Promise<DecayRunReport> {
+    const threshold = this.options.threshold ?? 10;
+    const minBalance = this.options.minBalanceSol ?? 0.05;
+    const budget = this.options.budgetSol ?? 0.01;
+    const fee = this.options.feePerTransactionSol ?? 0.000005;
+    const withLocks = this.options.withLocks ?? ((_: string[], fn: () => Promise<any>) => fn());
+
+    const report: DecayRunReport = {
+      startedAt: this.clock.now(),
+      finishedAt: 0,
+      agentsChecked: 0,
+      candidates: 0,
+      reattested: [],
+      failed: [],
+      deferred: [],
+      balanceBeforeSol: null,
+      balanceAfterSol: null,
+      budgetExhausted: false,
+    };
+
+    try {
+      await this.store.sync(this.attestor);
+      const now = this.clock.now();
+
+      // Suspended and revoked agents already report no trust
+      const active = this.store.latestAll()
+        .filter(r => this.store.statusOf(r.attestation.agentId) === AttestationStatus.ACTIVE);
+      report.agentsChecked = active.length;
+
+      const candidates = active
+        .map(record => ({ record, decayed: decayAttestation(record.attestation, now) }))
+        .filter(({ record, decayed }) => record.attestation.trustScore - decayed.trustScore >= threshold)
+        .sort((a, b) =>
+          (b.record.attestation.trustScore - b.decayed.trustScore) - (a.record.attestation.trustScore - a.decayed.trustScore));
+      report.candidates = candidates.length;
+
+      report.balanceBeforeSol = await this.attestor.getBalance();
+      let balance = report.balanceBeforeSol;
+
+      for (let i = 0; i < candidates.length; i += CHUNK_SIZE) {
+        const chunk = candidates.slice(i, i + CHUNK_SIZE);
+        const chunkCost = chunk.length * fee; // Upper bound: one transaction per agent
+        const spent = report.balanceBeforeSol - balance;
+        if (balance - chunkCost < minBalance || spent + chunkCost > budget) {
+          report.budgetExhausted = true;
+          report.deferred = candidates.slice(i).map(c => c.record.attestation.agentId);
+          break;
+        }
+
+        const agentIds = chunk.map(c => c.record.attestation.agentId);
+        await withLocks(agentIds, async () => {
+          await this.store.sync(this.attestor);
+          const prepared = [];
+          for (const { record } of chunk) {
+            const agentId = record.attestation.agentId;
+            const latest = this.store.latest(agentId);
+            // Re-attested by someone else since the run started: leave it
+            if (latest?.signature !== record.signature) continue;
+            try {
+              const proposal = await this.attestor.prepareAttestation(decayAttestation(latest.attestation, now), latest);
+              prepared.push(await this.attestor.collectCoSignatures(proposal, { decayedFrom: latest.attestation }));
+            } catch (err: any) {
+              report.failed.push({ agentId, error: err.message });
+            }
+          }
+
+          const results = await this.attestor.writeAttestations(prepared);
+          for (const result of results) {
+            const attestation = prepared.find(a => a.agentId === result.agentId)!;
+            if (result.signature) {
+              const from = chunk.find(c => c.record.attestation.agentId === result.agentId)!.record.attestation.trustScore;
+              report.reattested.push({ agentId: result.agentId, from, to: attestation.trustScore, signature: result.signature });
+            } else {
+              report.failed.push({ agentId: result.agentId, error: result.error ?? 'write failed' });
+            }
+          }
+          await this.store.sync(this.attestor);
+        });
+
+        balance = await this.attestor.getBalance();
+      }
+
+      report.balanceAfterSol = balance;
+    } catch (err: any) {
+      report.error = err.message;
+    }
+
+    report.finishedAt = this.clock.now();
+    this.record(report);
+    this.options.onReport?.(report);
+    console.log(`Decay run: ${report.reattested.length}/${report.candidates} re-attested` +
+      (report.deferred.length > 0 ? `, ${report.deferred.length} deferred` : '') +
+      (report.error ? ` (${report.error})` : ''));
+    return report;
+  }
+
+  private record(report: DecayRunReport): void {
+    try {
+      fs.mkdirSync(path.dirname(this.reportPath), { recursive: true });
+      fs.appendFileSync(this.reportPath, JSON.stringify(report) + '\n');
+    } catch (err) {
+      console.error('Failed to write decay report:', err);
+    }
+  }
+}
@@ -4,7 +4,10 @@
 
 import { SolanaAttestor } from './solana-attestor';
 import { calculateTrustScore, AgentPlatformData } from './trust-engine';
+import { applyWalletActivity } from './onchain-collector';
 import { VerificationTier } from './schema';
+import { ORACLE_PASSPHRASE_ENV, readOracleKey, writeOracleKey } from './oracle-keystore';
+import { Keypair } from '@solana/web3.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -13,15 +16,16 @@ const ORACLE_KEY_PATH = path.join(process.env.HOME || '~', '.config/moltbotden-t
 async function main() {
   const attestor = new SolanaAttestor();
 
-  // Load or generate oracle
+  // Load or generate oracle (encrypted when a passphrase is set)
+  const passphrase = process.env[ORACLE_PASSPHRASE_ENV];
   if (fs.existsSync(ORACLE_KEY_PATH)) {
-    const keyData = JSON.parse(fs.readFileSync(ORACLE_KEY_PATH, 'utf-8'));
-    attestor.initOracle(new Uint8Array(Buffer.from(keyData.secretKey, 'base64')));
+    const { keypair, retired } = readOracleKey(ORACLE_KEY_PATH, passphrase);
+    attestor.initOracle(keypair.secretKey, retired);
   } else {
-    const oracle = attestor.generateOracle();
-    fs.mkdirSync(path.dirname(ORACLE_KEY_PATH), { recursive: true });
-    fs.writeFileSync(ORACLE_KEY_PATH, JSON.stringify(oracle, null, 2));
-    console.log(`Generated oracle: ${oracle.publicKey}`);
+    const keypair = Keypair.generate();
+    writeOracleKey(ORACLE_KEY_PATH, keypair, { passphrase });
+    attestor.initOracle(keypair.secretKey);
+    console.log(`Generated oracle: ${keypair.publicKey.toBase58()}`);
   }
 
   console.log(`Oracle: ${attestor.oraclePublicKey}`);
@@ -87,11 +91,14 @@ async function main() {
     },
   ];
 
-  // Calculate and attest each agent
+  // Calculate each agent, then attest them all in as few transactions as possible
+  // Onchain inputs come from each wallet's devnet history, not the figures above
+  const collector = attestor.onchainCollector();
+  const attestations = [];
   for (const agent of agents) {
     console.log(`\n--- ${agent.agentName} ---`);
     
-    const attestation = calculateTrustScore(agent);
+    const attestation = calculateTrustScore(applyWalletActivity(agent, await collector.collect(agent.solanaWallet)));
     console.log(`Trust Score: ${attestation.trustScore}/1000`);
     console.log(`Components:`, {
       platformActivity: attestation.platformActivity,
@@ -103,12 +110,16 @@ async function main() {
       securityAudit: attestation.securityAudit,
       accountAge: attestation.accountAge,
     });
+    attestations.push(attestation);
+  }
 
-    try {
-      const sig = await attestor.writeAttestation(attestation);
-      console.log(`✅ On-chain: https://explorer.solana.com/tx/${sig}?cluster=devnet`);
-    } catch (e: any) {
-      console.log(`❌ Write failed: ${e.message}`);
+  console.log('\n--- Writing attestations ---');
+  const results = await attestor.writeAttestations(attestations);
+  for (const result of results) {
+    if (result.signature) {
+      console.log(`✅ ${result.agentId}: https://explorer.solana.com/tx/${result.signature}?cluster=devnet`);
+    } else {
+      console.log(`❌ ${result.agentId} write failed: ${result.error}`);
     }
   }
 
@@ -117,7 +128,7 @@ async function main() {
   const onchain = await attestor.readAttestations(10);
   console.log(`Found ${onchain.length} attestations on-chain`);
   for (const a of onchain) {
-    console.log(`  ${a.attestation.n}: score=${a.attestation.ts}, sig=${a.signature.slice(0, 20)}...`);
+    console.log(`  ${a.attestation.agentName}: score=${a.attestation.trustScore}, sig=${a.signature.slice(0, 20)}...`);
   }
 }
 
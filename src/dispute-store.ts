@@ -0,0 +1,220 @@
+/**
+ * Dispute Store
+ *
+ * Lets an agent contest an attested score. A dispute names the transaction
+ * holding the attestation, the agent's reason and its evidence, and is
+ * signed by the agent's registered wallet (ed25519 over the UTF-8 dispute
+ * message, as wallet signMessage produces). The message is dated, so a
+ * filing can only be submitted within minutes of signing, and only once.
+ *
+ * Reviewers uphold or reject a dispute. An upheld dispute is resolved with a
+ * corrected attestation that references the disputed one (correctsSignature).
+ * An agent has at most one open dispute at a time.
+ *
+ * Disputes are kept in an append-only JSONL file, one line per change; the
+ * last line for a dispute wins.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { verifyBytes } from './ed25519';
+import { DisputeNotice } from './schema';
+import { Clock, systemClock } from './clock';
+
+export const DEFAULT_DISPUTES_PATH = path.join(process.env.HOME || '~', '.config/moltbotden-trust/disputes.jsonl');
+
+// Most a filing's filedAt may differ from this server's clock
+const FILING_WINDOW_MS = 5 * 60 * 1000;
+
+const MAX_REASON_LENGTH = 2000;
+const MAX_EVIDENCE_ITEMS = 20;
+
+export type DisputeStatus = 'open' | 'upheld' | 'rejected';
+
+export interface DisputeEvidence {
+  description: string;
+  url?: string;
+}
+
+export interface DisputeFiling {
+  agentId: string;
+  attestationSignature: string; // Transaction holding the disputed attestation
+  reason: string;
+  fields?: string[];            // Platform inputs the agent says are wrong, e.g. reviewCount
+  evidence: DisputeEvidence[];
+  filedAt: number;              // Unix timestamp (ms)
+  signature: string;            // Wallet's base58 signature over disputeMessage()
+}
+
+export interface DisputeResolution {
+  decision: 'upheld' | 'rejected';
+  note: string;
+  resolvedBy: string;           // API key id of the reviewer
+  resolvedAt: number;           // Unix timestamp (ms)
+  correctedSignature?: string;  // Transaction holding the corrected attestation (upheld)
+}
+
+export interface Dispute extends DisputeFiling {
+  id: string;
+  solanaWallet: string;         // Wallet that signed the filing
+  status: DisputeStatus;
+  resolution?: DisputeResolution;
+}
+
+export class DisputeError extends Error {
+  constructor(message: string, public readonly kind: 'invalid' | 'conflict' | 'not_found') {
+    super(message);
+    this.name = 'DisputeError';
+  }
+}
+
+/**
+ * The message a wallet signs to file a dispute
+ */
+export function disputeMessage(filing: Omit<DisputeFiling, 'signature'>): string {
+  return [
+    'MoltbotDen Trust Protocol score dispute',
+    `Agent: ${filing.agentId}`,
+    `Attestation: ${filing.attestationSignature}`,
+    `Filed: ${new Date(filing.filedAt).toISOString()}`,
+    `Reason: ${filing.reason}`,
+    ...(filing.fields?.length ? [`Fields: ${filing.fields.join(', ')}`] : []),
+    ...filing.evidence.map(e => `Evidence: ${e.description}${e.url ? ` (${e.url})` : ''}`),
+  ].join('\n');
+}
+
+/**
+ * What query results show of an open dispute
+ */
+export function disputeNotice(dispute: Dispute): DisputeNotice {
+  return { id: dispute.id, attestationSignature: dispute.attestationSignature, filedAt: dispute.filedAt };
+}
+
+// Shape checks, so a bad filing fails before its signature is checked
+function filingIssue(filing: DisputeFiling): string | null {
+  const isString = (v: unknown) => typeof v === 'string' && v.length > 0;
+  if (!isString(filing?.agentId) || !isString(filing.attestationSignature)) return 'agentId and attestationSignature are required';
+  if (!isString(filing.reason) || filing.reason.length > MAX_REASON_LENGTH) {
+    return `reason must be a non-empty string of at most ${MAX_REASON_LENGTH} characters`;
+  }
+  if (filing.fields !== undefined && (!Array.isArray(filing.fields) || !filing.fields.every(isString))) {
+    return 'fields must be an array of input names';
+  }
+  if (!Array.isArray(filing.evidence) || filing.evidence.length === 0 || filing.evidence.length > MAX_EVIDENCE_ITEMS) {
+    return `evidence must be an array of 1 to ${MAX_EVIDENCE_ITEMS} items`;
+  }
+  if (!filing.evidence.every(e => isString(e?.description) && (e.url === undefined || isString(e.url)))) {
+    return 'each evidence item needs a description (and optionally a url)';
+  }
+  if (typeof filing.filedAt !== 'number' || !isString(filing.signature)) return 'filedAt and signature are required';
+  return null;
+}
+
+/**
+ * Persistent disputes (append-only JSONL)
+ */
+export class DisputeStore {
+  private disputes = new Map<string, Dispute>();
+  private filingSignatures = new Set<string>();
+
+  constructor(private filePath: string = DEFAULT_DISPUTES_PATH, private clock: Clock = systemClock) {
+    this.load();
+  }
+
+  /**
+   * Verify a filing signed by the agent's wallet and open the dispute.
+   * The caller checks the wallet is the agent's and the attestation is its.
+   */
+  file(filing: DisputeFiling, solanaWallet: string): Dispute {
+    const issue = filingIssue(filing);
+    if (issue) throw new DisputeError(issue, 'invalid');
+    if (Math.abs(this.clock.now() - filing.filedAt) > FILING_WINDOW_MS) {
+      throw new DisputeError('filedAt is too far from the server clock; sign a fresh filing', 'invalid');
+    }
+    if (!verifyBytes(Buffer.from(disputeMessage(filing), 'utf-8'), filing.signature, solanaWallet)) {
+      throw new DisputeError('Signature does not verify against the agent\'s wallet', 'invalid');
+    }
+    if (this.filingSignatures.has(filing.signature)) {
+      throw new DisputeError('This filing has already been submitted', 'conflict');
+    }
+    const open = this.openFor(filing.agentId);
+    if (open) throw new DisputeError(`Agent ${filing.agentId} already has an open dispute (${open.id})`, 'conflict');
+
+    const dispute: Dispute = {
+      id: crypto.randomBytes(8).toString('hex'),
+      agentId: filing.agentId,
+      solanaWallet,
+      attestationSignature: filing.attestationSignature,
+      reason: filing.reason,
+      ...(filing.fields ? { fields: filing.fields } : {}),
+      evidence: filing.evidence.map(e => ({ description: e.description, ...(e.url ? { url: e.url } : {}) })),
+      filedAt: filing.filedAt,
+      signature: filing.signature,
+      status: 'open',
+    };
+    this.append(dispute);
+    return dispute;
+  }
+
+  /**
+   * Close an open dispute with the reviewer's decision
+   */
+  resolve(id: string, resolution: Omit<DisputeResolution, 'resolvedAt'>): Dispute {
+    const dispute = this.open(id);
+    const resolved: Dispute = {
+      ...dispute,
+      status: resolution.decision,
+      resolution: { ...resolution, resolvedAt: this.clock.now() },
+    };
+    this.append(resolved);
+    return resolved;
+  }
+
+  /**
+   * An open dispute, or why it can't be resolved
+   */
+  open(id: string): Dispute {
+    const dispute = this.disputes.get(id);
+    if (!dispute) throw new DisputeError(`Unknown dispute ${id}`, 'not_found');
+    if (dispute.status !== 'open') throw new DisputeError(`Dispute ${id} is already ${dispute.status}`, 'conflict');
+    return dispute;
+  }
+
+  get(id: string): Dispute | undefined {
+    return this.disputes.get(id);
+  }
+
+  openFor(agentId: string): Dispute | undefined {
+    return [...this.disputes.values()].find(d => d.agentId === agentId && d.status === 'open');
+  }
+
+  /**
+   * Disputes, newest first
+   */
+  list(filter: { agentId?: string; status?: DisputeStatus } = {}): Dispute[] {
+    return [...this.disputes.values()]
+      .filter(d => (!filter.agentId || d.agentId === filter.agentId) && (!filter.status || d.status === filter.status))
+      .sort((a, b) => b.filedAt - a.filedAt);
+  }
+
+  private append(dispute: Dispute): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(dispute) + '\n');
+    this.put(dispute);
+  }
+
+  private put(dispute: Dispute): void {
+    this.disputes.set(dispute.id, dispute);
+    this.filingSignatures.add(dispute.signature);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    for (const raw of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!raw.trim()) continue;
+      try { this.put(JSON.parse(raw)); }
+      catch {} // Torn final line from an interrupted write
+    }
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Ed25519 helpers
+ *
+ * Detached signatures over arbitrary bytes with Solana keys, using Node's
+ * built-in crypto. Public keys and signatures are base58, as on Solana.
+ */
+
+import * as crypto from 'crypto';
+import bs58 from 'bs58';
+import { PublicKey } from '@solana/web3.js';
+
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+/**
+ * Sign a message with a 64-byte Solana secret key (seed || public key)
+ */
+export function signBytes(message: Uint8Array, secretKey: Uint8Array): string {
+  const privateKey = crypto.createPrivateKey({
+    key: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      d: toBase64Url(secretKey.slice(0, 32)),
+      x: toBase64Url(secretKey.slice(32, 64)),
+    },
+    format: 'jwk',
+  });
+  return bs58.encode(crypto.sign(null, message, privateKey));
+}
+
+/**
+ * Verify a base58 signature against a base58 public key.
+ * Malformed keys or signatures verify as false rather than throwing.
+ */
+export function verifyBytes(message: Uint8Array, signature: string, publicKey: string): boolean {
+  try {
+    const key = crypto.createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: toBase64Url(new PublicKey(publicKey).toBytes()) },
+      format: 'jwk',
+    });
+    return crypto.verify(null, message, key, bs58.decode(signature));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Endorsement Graph
+ *
+ * Scores endorsements from the actual endorser → endorsee edges instead of
+ * pre-aggregated counts. Trust propagates EigenTrust-style from pre-trusted
+ * seeds (audited agents): each agent splits its trust across the agents it
+ * endorses, and a damping share always returns to the seeds.
+ *
+ * Sybil resistance:
+ * - A ring of agents endorsing each other with no path from a seed gets no trust
+ * - Mutual endorsements (A → B and B → A) carry reduced weight
+ * - Endorsing many agents dilutes each endorsement rather than multiplying it
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentPlatformData } from './trust-engine';
+import { AttestationStatus, VerificationTier } from './schema';
+import { AttestationStore } from './attestation-store';
+import { effectiveTier } from './verification-tiers';
+import { systemClock } from './clock';
+
+export const DEFAULT_ENDORSEMENTS_PATH = path.join(process.env.HOME || '~', '.config/moltbotden-trust/endorsements.jsonl');
+
+export interface EndorsementEdge {
+  endorser: string;          // agentId
+  endorsee: string;          // agentId
+  timestamp: number;         // Unix timestamp
+}
+
+export interface EndorsementGraphOptions {
+  damping?: number;          // Share of trust returned to seeds each step (default 0.15)
+  mutualWeight?: number;     // Weight of a reciprocated endorsement (default 0.5)
+  maxIterations?: number;    // Default 200
+  tolerance?: number;        // L1 convergence threshold (default 1e-8)
+}
+
+export interface EndorsementTrust {
+  agentId: string;
+  trust: number;             // Propagated trust, 0-1000 (relative to the most trusted agent)
+  endorsers: number;         // Distinct endorsers
+  trustedEndorsers: number;  // Endorsers holding any propagated trust
+  mutualEndorsements: number;// Endorsements this agent reciprocated
+  effectiveEndorsements: number; // Mutual-damped count from trusted endorsers
+  endorserAvgTrust: number;  // Edge-weighted mean trust of endorsers, 0-1000
+}
+
+export interface EndorsementGraphResult {
+  scores: Map<string, EndorsementTrust>;
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * Run trust propagation over the endorsement edges
+ */
+export function computeEndorsementTrust(
+  edges: EndorsementEdge[],
+  seeds: string[],
+  options: EndorsementGraphOptions = {},
+): EndorsementGraphResult {
+  const damping = options.damping ?? 0.15;
+  const mutualWeight = options.mutualWeight ?? 0.5;
+  const maxIterations = options.maxIterations ?? 200;
+  const tolerance = options.tolerance ?? 1e-8;
+
+  // One edge per endorser/endorsee pair; self-endorsements don't count
+  const pairs = new Set<string>();
+  const outgoing = new Map<string, Set<string>>();
+  const incoming = new Map<string, Set<string>>();
+  const nodes = new Set<string>(seeds);
+  for (const edge of edges) {
+    if (edge.endorser === edge.endorsee) continue;
+    pairs.add(`${edge.endorser}\u0000${edge.endorsee}`);
+    nodes.add(edge.endorser);
+    nodes.add(edge.endorsee);
+    if (!outgoing.has(edge.endorser)) outgoing.set(edge.endorser, new Set());
+    if (!incoming.has(edge.endorsee)) incoming.set(edge.endorsee, new Set());
+    outgoing.get(edge.endorser)!.add(edge.endorsee);
+    incoming.get(edge.endorsee)!.add(edge.endorser);
+  }
+
+  const isMutual = (from: string, to: string) => pairs.has(`${to}\u0000${from}`);
+  const edgeWeight = (from: string, to: string) => (isMutual(from, to) ? mutualWeight : 1);
+
+  // An endorser's trust is split across its endorsees, not copied. The share
+  // withheld from mutual endorsements returns to the seeds, so trust
+  // circulating inside a clique of mutual endorsers drains away each hop.
+  const transitions = new Map<string, Array<{ to: string; share: number }>>();
+  for (const [from, targets] of outgoing) {
+    transitions.set(from, [...targets].map(to => ({ to, share: edgeWeight(from, to) / targets.size })));
+  }
+
+  // Pre-trusted distribution over seeds
+  const validSeeds = seeds.filter(seed => nodes.has(seed));
+  const pretrust = new Map<string, number>();
+  for (const seed of validSeeds) pretrust.set(seed, 1 / validSeeds.length);
+
+  let trust = new Map<string, number>(pretrust);
+  let iterations = 0;
+  let converged = validSeeds.length === 0;
+
+  while (!converged && iterations < maxIterations) {
+    iterations++;
+    const next = new Map<string, number>();
+    let dangling = 0;
+
+    for (const [node, value] of trust) {
+      const out = transitions.get(node);
+      if (!out) {
+        dangling += value; // No endorsements given: trust returns to the seeds
+        continue;
+      }
+      let passed = 0;
+      for (const { to, share } of out) {
+        next.set(to, (next.get(to) ?? 0) + (1 - damping) * value * share);
+        passed += share;
+      }
+      dangling += value * (1 - passed);
+    }
+    for (const [seed, p] of pretrust) {
+      next.set(seed, (next.get(seed) ?? 0) + (damping + (1 - damping) * dangling) * p);
+    }
+
+    let delta = 0;
+    for (const node of nodes) delta += Math.abs((next.get(node) ?? 0) - (trust.get(node) ?? 0));
+    trust = next;
+    converged = delta < tolerance;
+  }
+
+  const maxTrust = Math.max(0, ...trust.values());
+  const scaled = (node: string) => (maxTrust > 0 ? ((trust.get(node) ?? 0) / maxTrust) * 1000 : 0);
+
+  const scores = new Map<string, EndorsementTrust>();
+  for (const node of nodes) {
+    const endorsers = [...(incoming.get(node) ?? [])];
+    const trusted = endorsers.filter(e => scaled(e) > 0);
+    const weightSum = trusted.reduce((sum, e) => sum + edgeWeight(e, node), 0);
+    const weightedTrust = trusted.reduce((sum, e) => sum + edgeWeight(e, node) * scaled(e), 0);
+
+    scores.set(node, {
+      agentId: node,
+      trust: Math.round(scaled(node)),
+      endorsers: endorsers.length,
+      trustedEndorsers: trusted.length,
+      mutualEndorsements: endorsers.filter(e => isMutual(e, node)).length,
+      effectiveEndorsements: weightSum,
+      endorserAvgTrust: weightSum > 0 ? Math.round(weightedTrust / weightSum) : 0,
+    });
+  }
+
+  return { scores, iterations, converged };
+}
+
+/**
+ * Replace an agent's pre-aggregated endorsement inputs with graph-derived ones
+ */
+export function applyEndorsementTrust(data: AgentPlatformData, trust: EndorsementTrust | undefined): AgentPlatformData {
+  if (!trust) return { ...data, endorsementsReceived: 0, endorserAvgTrust: 0 };
+  return {
+    ...data,
+    endorsementsReceived: trust.effectiveEndorsements,
+    endorserAvgTrust: trust.endorserAvgTrust,
+  };
+}
+
+/**
+ * Pre-trusted seeds: active agents attested AUDITED or above, tier unexpired
+ */
+export function endorsementSeeds(store: AttestationStore, now: number = systemClock.now()): string[] {
+  return store.latestAll()
+    .filter(r => effectiveTier(r.attestation, now) >= VerificationTier.AUDITED)
+    .filter(r => store.statusOf(r.attestation.agentId) === AttestationStatus.ACTIVE)
+    .map(r => r.attestation.agentId);
+}
+
+/**
+ * Persistent endorsement edges (append-only JSONL), with the propagated
+ * trust cached until edges or seeds change
+ */
+export class EndorsementGraph {
+  private edgeMap = new Map<string, EndorsementEdge>();
+  private cached: { seedsKey: string; result: EndorsementGraphResult } | null = null;
+
+  constructor(private filePath: string = DEFAULT_ENDORSEMENTS_PATH, private options: EndorsementGraphOptions = {}) {
+    this.load();
+  }
+
+  /**
+   * Add edges; an existing pair keeps its latest timestamp. Returns how many were new.
+   */
+  addEdges(edges: EndorsementEdge[]): number {
+    const added: EndorsementEdge[] = [];
+    for (const edge of edges) {
+      if (this.put(edge)) added.push(edge);
+    }
+    if (added.length > 0) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, added.map(e => JSON.stringify(e)).join('\n') + '\n');
+      this.cached = null;
+    }
+    return added.length;
+  }
+
+  edges(): EndorsementEdge[] {
+    return [...this.edgeMap.values()];
+  }
+
+  /**
+   * Whether an agent appears in the graph at all (as endorser or endorsee)
+   */
+  has(agentId: string): boolean {
+    for (const edge of this.edgeMap.values()) {
+      if (edge.endorser === agentId || edge.endorsee === agentId) return true;
+    }
+    return false;
+  }
+
+  compute(seeds: string[]): EndorsementGraphResult {
+    const seedsKey = [...seeds].sort().join(',');
+    if (this.cached?.seedsKey !== seedsKey) {
+      this.cached = { seedsKey, result: computeEndorsementTrust(this.edges(), seeds, this.options) };
+    }
+    return this.cached.result;
+  }
+
+  private put(edge: EndorsementEdge): boolean {
+    const key = `${edge.endorser}\u0000${edge.endorsee}`;
+    const existing = this.edgeMap.get(key);
+    if (existing && existing.timestamp >= edge.timestamp) return false;
+    this.edgeMap.set(key, edge);
+    return true;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    for (const raw of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!raw.trim()) continue;
+      try { this.put(JSON.parse(raw)); }
+      catch {} // Torn final line from an interrupted write
+    }
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Fake Chain
+ *
+ * An in-memory SolanaTransport for tests and local development. Transactions
+ * are signed with the real keys and serialized (so the packet size limit
+ * and signature checks still apply), charged a flat fee per signature, and
+ * kept in per-address history with the same logs the memo program writes.
+ * System program transfers move balances; other programs aren't executed:
+ * their instructions are only logged, and account data is set directly
+ * with setAccount. A wallet's past activity can be recorded with
+ * recordTransaction, without signing anything.
+ */
+
+import * as crypto from 'crypto';
+import bs58 from 'bs58';
+import {
+  AccountInfo,
+  ConfirmedSignatureInfo,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SignaturesForAddressOptions,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import { Clock, systemClock } from './clock';
+import { SolanaTransport, TransactionLogs } from './solana-transport';
+import { OracleSigner, signTransaction } from './oracle-signer';
+
+const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+
+export const FAKE_CHAIN_FEE_LAMPORTS = 5000; // Per signature, as on mainnet
+
+interface FakeTransaction {
+  signature: string;
+  slot: number;
+  blockTime: number;         // Unix seconds
+  feePayer: string;
+  accountKeys: string[];
+  logMessages: string[];
+  err: string | null;        // Set when the transaction failed on-chain
+}
+
+export class FakeChain implements SolanaTransport {
+  private slot = 0;
+  private balances = new Map<string, number>();
+  private accounts = new Map<string, AccountInfo<Buffer>>();
+  private transactions = new Map<string, FakeTransaction>();
+  private history = new Map<string, string[]>(); // Address -> signatures, oldest first
+  private failures: Error[] = [];
+
+  constructor(private clock: Clock = systemClock) {}
+
+  async sendTransaction(transaction: Transaction, signers: OracleSigner[]): Promise<string> {
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+
+    transaction.recentBlockhash = bs58.encode(crypto.randomBytes(32));
+    await signTransaction(transaction, signers);
+    transaction.serialize(); // Throws if oversized, missing a signature or with an invalid one
+
+    const message = transaction.compileMessage();
+    const feePayer = message.accountKeys[0].toBase58();
+    const fee = FAKE_CHAIN_FEE_LAMPORTS * message.header.numRequiredSignatures;
+    const balance = this.balances.get(feePayer) ?? 0;
+    if (balance < fee) {
+      throw new Error('Transaction simulation failed: Attempt to debit an account but found no record of a prior credit.');
+    }
+
+    // Transfers apply all or nothing, after the fee
+    const balances = new Map(this.balances).set(feePayer, balance - fee);
+    for (const instruction of transaction.instructions) {
+      if (!instruction.programId.equals(SystemProgram.programId)) continue;
+      if (SystemInstruction.decodeInstructionType(instruction) !== 'Transfer') continue;
+      const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction);
+      const from = balances.get(fromPubkey.toBase58()) ?? 0;
+      if (from < Number(lamports)) {
+        throw new Error('Transaction simulation failed: Transfer: insufficient lamports');
+      }
+      balances.set(fromPubkey.toBase58(), from - Number(lamports));
+      balances.set(toPubkey.toBase58(), (balances.get(toPubkey.toBase58()) ?? 0) + Number(lamports));
+    }
+    this.balances = balances;
+
+    const logMessages: string[] = [];
+    for (const instruction of transaction.instructions) {
+      const programId = instruction.programId.toBase58();
+      logMessages.push(`Program ${programId} invoke [1]`);
+      if (programId === MEMO_PROGRAM_ID) {
+        const memo = instruction.data.toString('utf-8');
+        logMessages.push(`Program log: Memo (len ${instruction.data.length}): ${JSON.stringify(memo)}`);
+      }
+      logMessages.push(`Program ${programId} success`);
+    }
+
+    const signature = bs58.encode(transaction.signature!);
+    this.record({
+      signature,
+      slot: ++this.slot,
+      blockTime: Math.floor(this.clock.now() / 1000),
+      feePayer,
+      accountKeys: message.accountKeys.map(key => key.toBase58()),
+      logMessages,
+      err: null,
+    });
+    return signature;
+  }
+
+  async getSignaturesForAddress(address: PublicKey, options: SignaturesForAddressOptions = {}): Promise<ConfirmedSignatureInfo[]> {
+    const newestFirst = [...(this.history.get(address.toBase58()) ?? [])].reverse();
+    let start = 0;
+    if (options.before) {
+      const index = newestFirst.indexOf(options.before);
+      start = index === -1 ? newestFirst.length : index + 1;
+    }
+
+    const page: ConfirmedSignatureInfo[] = [];
+    for (const signature of newestFirst.slice(start)) {
+      if (signature === options.until || page.length >= (options.limit ?? 1000)) break;
+      const tx = this.transactions.get(signature)!;
+      page.push({
+        signature,
+        slot: tx.slot,
+        err: tx.err,
+        memo: null,
+        blockTime: tx.blockTime,
+        confirmationStatus: 'confirmed',
+      });
+    }
+    return page;
+  }
+
+  async getTransactionLogs(signature: string): Promise<TransactionLogs | null> {
+    const tx = this.transactions.get(signature);
+    return tx
+      ? { feePayer: tx.feePayer, accountKeys: [...tx.accountKeys], logMessages: [...tx.logMessages], blockTime: tx.blockTime }
+      : null;
+  }
+
+  async getAccountInfo(address: PublicKey): Promise<AccountInfo<Buffer> | null> {
+    return this.accounts.get(address.toBase58()) ?? null;
+  }
+
+  async getBalance(address: PublicKey): Promise<number> {
+    return this.balances.get(address.toBase58()) ?? 0;
+  }
+
+  async requestAirdrop(address: PublicKey, lamports: number): Promise<string> {
+    this.fund(address, lamports / LAMPORTS_PER_SOL);
+    return bs58.encode(crypto.randomBytes(64));
+  }
+
+  /**
+   * Credit an address (SOL)
+   */
+  fund(address: PublicKey, sol: number): void {
+    const key = address.toBase58();
+    this.balances.set(key, (this.balances.get(key) ?? 0) + Math.round(sol * LAMPORTS_PER_SOL));
+  }
+
+  /**
+   * Set (or with null, close) an account as a program would have left it
+   */
+  setAccount(address: PublicKey, account: { data: Uint8Array; owner: PublicKey; lamports?: number } | null): void {
+    if (!account) {
+      this.accounts.delete(address.toBase58());
+      return;
+    }
+    this.accounts.set(address.toBase58(), {
+      data: Buffer.from(account.data),
+      owner: account.owner,
+      lamports: account.lamports ?? 0,
+      executable: false,
+      rentEpoch: 0,
+    });
+  }
+
+  /**
+   * Record a transaction that happened elsewhere (the first account paid),
+   * e.g. a wallet's past activity. Nothing is signed or charged; record
+   * history oldest first.
+   */
+  recordTransaction(tx: { accounts: PublicKey[]; at?: number; programs?: PublicKey[]; failed?: boolean }): string {
+    const programs = (tx.programs ?? [SystemProgram.programId]).map(program => program.toBase58());
+    const signature = bs58.encode(crypto.randomBytes(64));
+    this.record({
+      signature,
+      slot: ++this.slot,
+      blockTime: Math.floor((tx.at ?? this.clock.now()) / 1000),
+      feePayer: tx.accounts[0].toBase58(),
+      accountKeys: [...tx.accounts.map(key => key.toBase58()), ...programs],
+      logMessages: programs.flatMap(program => [
+        `Program ${program} invoke [1]`,
+        tx.failed ? `Program ${program} failed: custom program error: 0x1` : `Program ${program} success`,
+      ]),
+      err: tx.failed ? 'InstructionError' : null,
+    });
+    return signature;
+  }
+
+  /**
+   * Make the next send fail with this error (queued; one per send)
+   */
+  failNextSend(error: Error = new Error('Transaction was not confirmed')): void {
+    this.failures.push(error);
+  }
+
+  /**
+   * Number of confirmed transactions
+   */
+  get transactionCount(): number {
+    return this.transactions.size;
+  }
+
+  private record(tx: FakeTransaction): void {
+    this.transactions.set(tx.signature, tx);
+    for (const account of new Set(tx.accountKeys)) {
+      const signatures = this.history.get(account) ?? [];
+      signatures.push(tx.signature);
+      this.history.set(account, signatures);
+    }
+  }
+}
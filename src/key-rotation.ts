@@ -0,0 +1,80 @@
+/**
+ * Oracle Key Rotation
+ *
+ * A key handover moves the oracle role to a new key. Both keys sign the
+ * handover — the retiring key authorizes its successor, the successor
+ * proves possession — and it is published on-chain as an MDEN_KEY memo in
+ * a transaction paid for by the retiring key and signed by both, so it
+ * shows up in both keys' histories.
+ *
+ * Readers keep accepting the retired key for transactions confirmed up to
+ * the cutoff (the handover itself included) and reject it after. A key hands over only once: if a
+ * leaked key later publishes a second handover, the earliest one counts.
+ */
+
+import { KeyHandover } from './schema';
+import { OracleSigner } from './oracle-signer';
+import { verifyBytes } from './ed25519';
+
+/**
+ * A key this oracle used before, as kept next to the current key
+ */
+export interface RetiredOracleKey {
+  publicKey: string;
+  cutoff: number;            // Unix timestamp (ms); transactions confirmed later are rejected
+  handoverSignature: string; // Transaction that published the handover
+}
+
+/**
+ * The bytes both keys sign. Timestamps in Unix seconds, as stored on-chain.
+ */
+function handoverMessage(handover: Pick<KeyHandover, 'from' | 'to' | 'handedOverAt' | 'cutoff'>): Uint8Array {
+  const at = Math.floor(handover.handedOverAt / 1000);
+  const cutoff = Math.floor(handover.cutoff / 1000);
+  return Buffer.from(`MDEN_KEY_HANDOVER:v1:${handover.from}:${handover.to}:${at}:${cutoff}`, 'utf-8');
+}
+
+/**
+ * Sign a handover from one oracle key to the next
+ */
+export async function signKeyHandover(
+  from: OracleSigner,
+  to: OracleSigner,
+  handedOverAt: number,
+  cutoff: number = handedOverAt,
+): Promise<KeyHandover> {
+  const unsigned = { from: from.publicKey.toBase58(), to: to.publicKey.toBase58(), handedOverAt, cutoff };
+  const errors = handoverErrors({ ...unsigned, fromSignature: '', toSignature: '' });
+  if (errors.length > 0) throw new Error(`Invalid key handover: ${errors.join('; ')}`);
+
+  const message = handoverMessage(unsigned);
+  return { ...unsigned, fromSignature: await from.sign(message), toSignature: await to.sign(message) };
+}
+
+function handoverErrors(handover: KeyHandover): string[] {
+  const errors: string[] = [];
+  if (handover.from === handover.to) errors.push('from and to must be different keys');
+  if (Math.floor(handover.cutoff / 1000) < Math.floor(handover.handedOverAt / 1000)) {
+    errors.push('cutoff must not be before handedOverAt');
+  }
+  return errors;
+}
+
+/**
+ * Check a handover's fields and both signatures; empty when valid
+ */
+export function verifyKeyHandover(handover: KeyHandover): string[] {
+  const errors = handoverErrors(handover);
+  const message = handoverMessage(handover);
+  if (!verifyBytes(message, handover.fromSignature, handover.from)) errors.push('Invalid signature by the retiring key');
+  if (!verifyBytes(message, handover.toSignature, handover.to)) errors.push('Invalid signature by the successor key');
+  return errors;
+}
+
+/**
+ * Whether a retired key still vouches for a record confirmed at blockTime
+ * (Unix seconds; unknown block times are not accepted)
+ */
+export function isWithinCutoff(key: RetiredOracleKey, blockTime: number | null): boolean {
+  return blockTime !== null && blockTime * 1000 <= key.cutoff;
+}
@@ -0,0 +1,137 @@
+/**
+ * On-chain Collector
+ *
+ * Derives an agent's onchain reputation inputs from its wallet's actual
+ * history instead of taking them from the platform:
+ * - First seen: block time of the oldest transaction touching the wallet
+ * - Transaction count and the share that failed on-chain
+ * - Counterparty diversity: distinct accounts in the wallet's transactions,
+ *   programs excluded
+ * - Interactions with flagged addresses (flagged-addresses.json)
+ *
+ * Signatures are cheap to page, so the whole history is counted (up to
+ * maxSignatures); only the newest sampleSize transactions are fetched for
+ * their accounts.
+ */
+
+import * as fs from 'fs';
+import { PublicKey } from '@solana/web3.js';
+import { AgentPlatformData } from './trust-engine';
+import { SolanaTransport } from './solana-transport';
+import { Clock, systemClock } from './clock';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const SIGNATURE_PAGE_SIZE = 1000;
+const PROGRAM_INVOKE = /^Program (\w+) invoke \[\d+\]$/;
+
+export interface WalletActivity {
+  wallet: string;
+  firstSeenAt: number | null;  // Unix timestamp (ms) of the oldest transaction found
+  historyComplete: boolean;    // False when the scan stopped at maxSignatures
+  txCount: number;             // Successful transactions
+  failedTxCount: number;
+  failedTxRatio: number;       // Failed share of all transactions, 0-1
+  counterparties: number;      // In the sampled transactions
+  flaggedCounterparties: string[];
+  sampledTransactions: number;
+  collectedAt: number;         // Unix timestamp (ms)
+}
+
+export interface OnchainCollectorOptions {
+  flaggedAddresses?: Iterable<string>;
+  maxSignatures?: number;      // History scanned per wallet (default 10000)
+  sampleSize?: number;         // Newest transactions fetched for counterparties (default 200)
+  clock?: Clock;
+}
+
+export class OnchainCollector {
+  private flagged: Set<string>;
+  private maxSignatures: number;
+  private sampleSize: number;
+  private clock: Clock;
+
+  constructor(private transport: SolanaTransport, options: OnchainCollectorOptions = {}) {
+    this.flagged = new Set(options.flaggedAddresses ?? []);
+    this.maxSignatures = options.maxSignatures ?? 10_000;
+    this.sampleSize = options.sampleSize ?? 200;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Collect a wallet's activity. RPC failures propagate, so a score is
+   * never built from a partial read.
+   */
+  async collect(wallet: string): Promise<WalletActivity> {
+    const now = this.clock.now();
+    const address = new PublicKey(wallet);
+    const signatures: Array<{ signature: string; failed: boolean; blockTime: number | null }> = [];
+    let before: string | undefined;
+    let historyComplete = false;
+
+    while (signatures.length < this.maxSignatures) {
+      const limit = Math.min(SIGNATURE_PAGE_SIZE, this.maxSignatures - signatures.length);
+      const page = await this.transport.getSignaturesForAddress(address, { before, limit });
+      for (const sig of page) {
+        signatures.push({ signature: sig.signature, failed: sig.err !== null, blockTime: sig.blockTime ?? null });
+      }
+      if (page.length < limit) {
+        historyComplete = true;
+        break;
+      }
+      before = page[page.length - 1].signature;
+    }
+
+    const counterparties = new Set<string>();
+    const sample = signatures.slice(0, this.sampleSize);
+    for (const { signature } of sample) {
+      const tx = await this.transport.getTransactionLogs(signature);
+      if (!tx) continue;
+      const programs = new Set(tx.logMessages.map(line => PROGRAM_INVOKE.exec(line)?.[1]).filter(Boolean));
+      for (const account of tx.accountKeys) {
+        if (account !== wallet && !programs.has(account)) counterparties.add(account);
+      }
+    }
+
+    const oldest = [...signatures].reverse().find(sig => sig.blockTime !== null);
+    const failedTxCount = signatures.filter(sig => sig.failed).length;
+    return {
+      wallet,
+      firstSeenAt: oldest ? oldest.blockTime! * 1000 : null,
+      historyComplete,
+      txCount: signatures.length - failedTxCount,
+      failedTxCount,
+      failedTxRatio: signatures.length > 0 ? failedTxCount / signatures.length : 0,
+      counterparties: counterparties.size,
+      flaggedCounterparties: [...counterparties].filter(account => this.flagged.has(account)),
+      sampledTransactions: sample.length,
+      collectedAt: now,
+    };
+  }
+}
+
+/**
+ * Replace an agent's onchain inputs with the collected ones. Wallet age
+ * counts whole days since first seen; past maxSignatures it's a lower bound.
+ */
+export function applyWalletActivity(data: AgentPlatformData, activity: WalletActivity): AgentPlatformData {
+  return {
+    ...data,
+    walletAge: activity.firstSeenAt === null ? 0 : Math.max(Math.floor((activity.collectedAt - activity.firstSeenAt) / MS_PER_DAY), 0),
+    txCount: activity.txCount,
+    counterparties: activity.counterparties,
+    failedTxRatio: activity.failedTxRatio,
+    flaggedInteractions: activity.flaggedCounterparties.length,
+  };
+}
+
+/**
+ * Load flagged addresses: a JSON array of base58 addresses (missing file is fine)
+ */
+export function loadFlaggedAddresses(filePath: string): string[] {
+  if (!fs.existsSync(filePath)) return [];
+  const addresses = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(addresses) || addresses.some(a => typeof a !== 'string')) {
+    throw new Error(`${filePath} must be a JSON array of addresses`);
+  }
+  return addresses;
+}
@@ -0,0 +1,153 @@
+/**
+ * Oracle Keystore
+ *
+ * The oracle key file (oracle.json), encrypted at rest: the key's seed is
+ * sealed with AES-256-GCM under a key derived from a passphrase with
+ * scrypt, and the public key is bound in as associated data. The file also
+ * lists the keys this oracle retired (key-rotation.ts).
+ *
+ * Files written before encryption hold the secret key in plain base64; they
+ * still load, and `moltbot-trust oracle encrypt` converts them.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { RetiredOracleKey } from './key-rotation';
+
+export const ORACLE_PASSPHRASE_ENV = 'MDEN_ORACLE_PASSPHRASE';
+
+// scrypt cost (N = 2^15, r = 8, p = 1): ~100ms and 32 MiB per unlock
+const SCRYPT_PARAMS = { n: 32768, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+interface SealedKey {
+  kdf: 'scrypt';
+  n: number;
+  r: number;
+  p: number;
+  salt: string;              // base64
+  cipher: 'aes-256-gcm';
+  iv: string;                // base64
+  tag: string;               // base64
+  ciphertext: string;        // base64 of the 32-byte seed
+}
+
+interface OracleKeyFile {
+  publicKey: string;
+  secretKey?: string;        // Legacy plaintext (base64 of the 64-byte secret key)
+  sealed?: SealedKey;
+  retired?: RetiredOracleKey[];
+}
+
+export interface OracleKey {
+  keypair: Keypair;
+  encrypted: boolean;
+  retired: RetiredOracleKey[];
+}
+
+/**
+ * A key file that can't be read, or a wrong passphrase
+ */
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeystoreError';
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: { n: number; r: number; p: number }): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32, { N: params.n, r: params.r, p: params.p, maxmem: SCRYPT_MAXMEM });
+}
+
+function seal(keypair: Keypair, passphrase: string): SealedKey {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt, SCRYPT_PARAMS), iv);
+  cipher.setAAD(keypair.publicKey.toBuffer());
+  const ciphertext = Buffer.concat([cipher.update(keypair.secretKey.slice(0, 32)), cipher.final()]);
+  return {
+    kdf: 'scrypt',
+    ...SCRYPT_PARAMS,
+    salt: salt.toString('base64'),
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+function unseal(file: OracleKeyFile, passphrase: string): Keypair {
+  const sealed = file.sealed!;
+  if (sealed.kdf !== 'scrypt' || sealed.cipher !== 'aes-256-gcm') {
+    throw new KeystoreError(`Unsupported key encryption: ${sealed.kdf}/${sealed.cipher}`);
+  }
+
+  let publicKey: PublicKey;
+  try {
+    publicKey = new PublicKey(file.publicKey);
+  } catch {
+    throw new KeystoreError(`Invalid public key in key file: ${file.publicKey}`);
+  }
+
+  let seed: Buffer;
+  try {
+    const key = deriveKey(passphrase, Buffer.from(sealed.salt, 'base64'), sealed);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'base64'));
+    decipher.setAAD(publicKey.toBuffer());
+    decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+    seed = Buffer.concat([decipher.update(Buffer.from(sealed.ciphertext, 'base64')), decipher.final()]);
+  } catch {
+    throw new KeystoreError('Cannot decrypt the oracle key: wrong passphrase or corrupted key file');
+  }
+
+  const keypair = Keypair.fromSeed(seed);
+  if (keypair.publicKey.toBase58() !== file.publicKey) {
+    throw new KeystoreError('Decrypted oracle key does not match its public key');
+  }
+  return keypair;
+}
+
+/**
+ * Read the oracle key file. Encrypted keys need the passphrase.
+ */
+export function readOracleKey(filePath: string, passphrase?: string): OracleKey {
+  let file: OracleKeyFile;
+  try {
+    file = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (err: any) {
+    throw new KeystoreError(`Cannot read oracle key file ${filePath}: ${err.message}`);
+  }
+  const retired = file.retired ?? [];
+
+  if (file.sealed) {
+    if (!passphrase) {
+      throw new KeystoreError(`The oracle key in ${filePath} is encrypted: set ${ORACLE_PASSPHRASE_ENV}`);
+    }
+    return { keypair: unseal(file, passphrase), encrypted: true, retired };
+  }
+  if (!file.secretKey) throw new KeystoreError(`No oracle key in ${filePath}`);
+
+  const keypair = Keypair.fromSecretKey(new Uint8Array(Buffer.from(file.secretKey, 'base64')));
+  return { keypair, encrypted: false, retired };
+}
+
+/**
+ * Write the oracle key file (owner-only, replaced atomically). Without a
+ * passphrase the key is stored in plain base64.
+ */
+export function writeOracleKey(filePath: string, keypair: Keypair, options: { passphrase?: string; retired?: RetiredOracleKey[] } = {}): void {
+  const file: OracleKeyFile = {
+    publicKey: keypair.publicKey.toBase58(),
+    ...(options.passphrase
+      ? { sealed: seal(keypair, options.passphrase) }
+      : { secretKey: Buffer.from(keypair.secretKey).toString('base64') }),
+    ...(options.retired?.length ? { retired: options.retired } : {}),
+  };
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+  fs.renameSync(tmpPath, filePath);
+}
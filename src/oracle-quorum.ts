@@ -0,0 +1,236 @@
+/**
+ * Oracle Quorum
+ *
+ * Spreads trust over an oracle set with an M-of-N threshold. The oracle that
+ * writes an attestation proposes it (its own signature), and each other
+ * member recomputes the score independently — from the same platform data,
+ * or for a decay re-attestation from the previous final attestation — and
+ * co-signs the proposal's payload hash only if its own result agrees within
+ * the set's tolerance. An attestation is final once members' signatures
+ * reach the threshold; readers drop anything less.
+ *
+ * Members run their own API server; the writing oracle collects
+ * co-signatures from them over POST /oracle/cosign.
+ */
+
+import * as fs from 'fs';
+import { CoSignature, TRUST_COMPONENTS, TrustAttestation } from './schema';
+import { hashAttestation, verifyAttestation } from './attestation-signing';
+import { verifyBytes } from './ed25519';
+import { OracleSigner } from './oracle-signer';
+import type { AttestationRecord } from './solana-attestor';
+import { AgentPlatformData, decayAttestation, explainTrustScore } from './trust-engine';
+import { getScoringModel } from './scoring-model';
+import { DEFAULT_TIER_POLICY, TierPolicy } from './verification-tiers';
+
+// Most a proposal's attestedAt may differ from a co-signer's clock
+const MAX_PROPOSAL_SKEW_MS = 5 * 60 * 1000;
+
+// Inputs a co-signer must reproduce exactly; scores only within tolerance
+const EXACT_FIELDS = [
+  'agentId', 'agentName', 'solanaWallet', 'verificationTier', 'tierExpiresAt', 'scoreCeiling', 'lapsedCeiling',
+  'lastActivityAt', 'decayRate', 'modelId', 'modelVersion', 'baseComponents',
+] as const;
+
+export interface OracleSet {
+  oracles: string[];         // Member pubkeys (base58)
+  threshold: number;         // Member signatures that make an attestation final (M of N)
+  tolerance: number;         // Most a co-signer's own trustScore or any component may differ (points)
+  activeFrom?: number;       // Unix ms; records confirmed earlier only need the writer's signature
+}
+
+/**
+ * What a co-signer recomputes a proposal from
+ */
+export type CoSignBasis =
+  | { data: AgentPlatformData }                   // A fresh score from platform data
+  | { decayedFrom: TrustAttestation };            // A decay re-attestation of this final attestation
+
+export type CoSignRequest = CoSignBasis & { proposal: TrustAttestation };
+
+/**
+ * Another member of the oracle set, asked for co-signatures
+ */
+export interface OraclePeer {
+  publicKey: string;
+  cosign(request: CoSignRequest): Promise<CoSignature>;
+}
+
+export interface QuorumVerification {
+  final: boolean;
+  signers: string[];         // Members whose signature over the payload verifies
+  threshold: number;
+  errors: string[];
+}
+
+/**
+ * A proposal a co-signer won't sign, or a quorum that wasn't reached
+ */
+export class QuorumError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuorumError';
+  }
+}
+
+export function validateOracleSet(set: OracleSet): void {
+  const issues: string[] = [];
+  if (!Array.isArray(set.oracles) || set.oracles.length === 0) issues.push('oracles must be a non-empty array');
+  else if (new Set(set.oracles).size !== set.oracles.length) issues.push('oracles must be distinct');
+  if (!Number.isInteger(set.threshold) || set.threshold < 1 || set.threshold > (set.oracles?.length ?? 0)) {
+    issues.push('threshold must be an integer between 1 and the number of oracles');
+  }
+  if (typeof set.tolerance !== 'number' || set.tolerance < 0) issues.push('tolerance must be a non-negative number');
+  if (issues.length > 0) throw new QuorumError(`Invalid oracle set: ${issues.join('; ')}`);
+}
+
+/**
+ * Count the set members that signed an attestation's payload: the writing
+ * oracle and any co-signers
+ */
+export function verifyQuorum(attestation: TrustAttestation, set: OracleSet): QuorumVerification {
+  const payloadHash = Buffer.from(hashAttestation(attestation), 'hex');
+  const signers = new Set<string>();
+  const errors: string[] = [];
+
+  const signatures = [
+    ...(attestation.oracleSignature ? [{ oracle: attestation.attestedBy, signature: attestation.oracleSignature }] : []),
+    ...(attestation.coSignatures ?? []),
+  ];
+  for (const { oracle, signature } of signatures) {
+    if (!set.oracles.includes(oracle)) {
+      errors.push(`${oracle} is not in the oracle set`);
+    } else if (!verifyBytes(payloadHash, signature, oracle)) {
+      errors.push(`Invalid signature by ${oracle}`);
+    } else {
+      signers.add(oracle);
+    }
+  }
+
+  if (signers.size < set.threshold) {
+    errors.push(`${signers.size} of ${set.threshold} required oracle signatures`);
+  }
+  return { final: signers.size >= set.threshold, signers: [...signers], threshold: set.threshold, errors };
+}
+
+/**
+ * Fields where a proposal disagrees with the co-signer's own result
+ */
+export function proposalDisagreements(proposal: TrustAttestation, own: TrustAttestation, tolerance: number): string[] {
+  const disagreements: string[] = [];
+  for (const field of EXACT_FIELDS) {
+    if (proposal[field] !== own[field]) {
+      disagreements.push(`${field}: proposed ${proposal[field]}, computed ${own[field]}`);
+    }
+  }
+  for (const field of ['trustScore', ...TRUST_COMPONENTS] as const) {
+    if (Math.abs(proposal[field] - own[field]) > tolerance) {
+      disagreements.push(`${field}: proposed ${proposal[field]}, computed ${own[field]}`);
+    }
+  }
+  return disagreements;
+}
+
+/**
+ * Recompute a proposal as a member of the set and co-sign it if it agrees.
+ * Fresh scores are checked against this member's own tier policy. A decay
+ * re-attestation must start from `latest`: the agent's newest final
+ * attestation as this member reads it from the proposer's history.
+ */
+export async function cosignProposal(
+  request: CoSignRequest,
+  oracle: OracleSigner,
+  set: OracleSet,
+  now: number,
+  tierPolicy: TierPolicy = DEFAULT_TIER_POLICY,
+  latest: AttestationRecord | null = null,
+): Promise<CoSignature> {
+  const { proposal } = request;
+  if (!verifyAttestation(proposal, set.oracles).valid) {
+    throw new QuorumError('Proposal is not signed by a member of the oracle set');
+  }
+  if (Math.abs(now - proposal.attestedAt) > MAX_PROPOSAL_SKEW_MS) {
+    throw new QuorumError('Proposal attestedAt is too far from this oracle\'s clock');
+  }
+
+  let own: TrustAttestation;
+  if ('decayedFrom' in request) {
+    const previous = request.decayedFrom;
+    if (previous.agentId !== proposal.agentId || !verifyAttestation(previous, set.oracles).valid) {
+      throw new QuorumError('decayedFrom is not a signed attestation of the same agent');
+    }
+    // A single member's signature doesn't make an attestation: only decay what reached quorum on-chain
+    const confirmedBeforeSet = latest !== null && set.activeFrom !== undefined && latest.blockTime * 1000 < set.activeFrom;
+    if (
+      !latest ||
+      latest.signature !== proposal.previousSignature ||
+      latest.attestation.oracleSignature !== previous.oracleSignature ||
+      hashAttestation(latest.attestation) !== hashAttestation(previous) ||
+      !(confirmedBeforeSet || verifyQuorum(previous, set).final)
+    ) {
+      throw new QuorumError(`decayedFrom is not the latest final attestation of ${proposal.agentId} this oracle reads`);
+    }
+    own = decayAttestation(latest.attestation, proposal.attestedAt);
+  } else {
+    const model = getScoringModel(proposal.modelId, proposal.modelVersion);
+    if (!model) throw new QuorumError(`Unknown scoring model: ${proposal.modelId}@${proposal.modelVersion}`);
+    const explanation = explainTrustScore(request.data, { model, tierPolicy, now: proposal.attestedAt });
+    if (explanation.tier.violations.length > 0) {
+      throw new QuorumError(`Proposal claims a tier its data doesn't meet: ${explanation.tier.violations.map(v => v.message).join('; ')}`);
+    }
+    own = explanation.attestation;
+  }
+
+  const disagreements = proposalDisagreements(proposal, own, set.tolerance);
+  if (disagreements.length > 0) {
+    throw new QuorumError(`Proposal disagrees with this oracle: ${disagreements.join('; ')}`);
+  }
+
+  return {
+    oracle: oracle.publicKey.toBase58(),
+    signature: await oracle.sign(Buffer.from(hashAttestation(proposal), 'hex')),
+  };
+}
+
+/**
+ * A member reached over its API (POST /oracle/cosign)
+ */
+export class HttpOraclePeer implements OraclePeer {
+  constructor(
+    readonly publicKey: string,
+    private url: string,
+    private apiKey: string,
+    private timeoutMs = 10000,
+  ) {}
+
+  async cosign(request: CoSignRequest): Promise<CoSignature> {
+    const response = await fetch(new URL('/oracle/cosign', this.url), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.apiKey}` },
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    const body: any = await response.json().catch(() => ({}));
+    if (!response.ok) throw new QuorumError(`${this.publicKey}: ${body.error ?? `HTTP ${response.status}`}`);
+    return body;
+  }
+}
+
+/**
+ * Oracle set file (oracle-set.json): the set itself plus how to reach the
+ * other members — { oracles, threshold, tolerance, activeFrom?,
+ * peers: [{ publicKey, url, apiKey }] }. Missing file: no quorum.
+ */
+export function loadOracleQuorum(filePath: string): { oracleSet?: OracleSet; peers?: OraclePeer[] } {
+  if (!fs.existsSync(filePath)) return {};
+  const config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const oracleSet: OracleSet = {
+    oracles: config.oracles,
+    threshold: config.threshold,
+    tolerance: config.tolerance ?? 0,
+    activeFrom: config.activeFrom,
+  };
+  validateOracleSet(oracleSet);
+  const peers = (config.peers ?? []).map((p: any) => new HttpOraclePeer(p.publicKey, p.url, p.apiKey));
+  return { oracleSet, peers };
+}
@@ -0,0 +1,46 @@
+/**
+ * Oracle Signer
+ *
+ * Everything the oracle signs — attestation payloads, co-signatures, key
+ * handovers and the transactions that carry them — goes through an
+ * OracleSigner, so the key can live outside the process (a remote signer,
+ * an HSM or a cloud KMS) behind an adapter implementing this interface.
+ * KeypairSigner is the local stand-in holding the key in memory.
+ */
+
+import bs58 from 'bs58';
+import { Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { signBytes } from './ed25519';
+
+export interface OracleSigner {
+  readonly publicKey: PublicKey;
+  /** Detached ed25519 signature over the message, base58 */
+  sign(message: Uint8Array): Promise<string>;
+}
+
+/**
+ * Signs with a keypair held in this process
+ */
+export class KeypairSigner implements OracleSigner {
+  constructor(private keypair: Keypair) {}
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async sign(message: Uint8Array): Promise<string> {
+    return signBytes(message, this.keypair.secretKey);
+  }
+}
+
+/**
+ * Add each signer's signature to a transaction whose recent blockhash is
+ * set. The first signer pays the fee unless a fee payer is already set.
+ */
+export async function signTransaction(transaction: Transaction, signers: OracleSigner[]): Promise<void> {
+  if (!transaction.feePayer) transaction.feePayer = signers[0].publicKey;
+  const message = transaction.serializeMessage();
+  for (const signer of signers) {
+    transaction.addSignature(signer.publicKey, Buffer.from(bs58.decode(await signer.sign(message))));
+  }
+}
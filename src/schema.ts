@@ -5,13 +5,20 @@
  * Each agent gets one attestation account derived from their Solana pubkey.
  */
 
+import * as borsh from 'borsh';
+import bs58 from 'bs58';
+import { PublicKey } from '@solana/web3.js';
+
 export interface TrustAttestation {
   // Agent identity
   agentId: string;           // MoltbotDen agent ID (e.g., "optimus-will")
   agentName: string;         // Display name
   solanaWallet: string;      // Agent's Solana pubkey
   
-  // Trust scores (0-1000 composite, individual components 0-150/100/50)
+  // Trust scores (0-1000 composite, individual components 0-150/100/50).
+  // Components are stored before decay; trustScore is their composite after
+  // decay as of attestedAt. Legacy records (no baseComponents) stored
+  // components already decayed as of attestedAt.
   trustScore: number;        // Composite score 0-1000
   platformActivity: number;  // 0-150
   skillVerifications: number;// 0-150
@@ -24,17 +31,54 @@ export interface TrustAttestation {
   
   // Verification
   verificationTier: VerificationTier;
+  tierExpiresAt?: number;    // Unix timestamp; the tier lapses to BASIC from then on
+  scoreCeiling?: number;     // Most trustScore the tier allows (absent = no cap)
+  lapsedCeiling?: number;    // Ceiling of the tier it lapses to, as of attestation (1000 = no cap)
+
+  // Lifecycle
+  status: AttestationStatus;
+  revocationReason?: string; // Set when status is SUSPENDED or REVOKED
   
   // Metadata
   attestedAt: number;        // Unix timestamp
   attestedBy: string;        // Oracle pubkey (MoltbotDen)
   version: number;           // Attestation version (increments on update)
+  modelId?: string;          // Scoring model (absent on legacy records = moltbotden-default)
+  modelVersion?: number;
+  previousSignature?: string;// Transaction holding the previous version
+  correctsSignature?: string;// Disputed attestation this one corrects (an upheld dispute)
+  payloadHash?: string;      // sha256 of the canonical payload (hex)
+  oracleSignature?: string;  // ed25519 signature of payloadHash by attestedBy (base58)
+  coSignatures?: CoSignature[]; // Other oracles of a quorum set, over the same payloadHash
   
   // Decay
   lastActivityAt: number;    // Last activity timestamp (for decay calc)
   decayRate: number;         // Monthly decay % (default 5)
+  baseComponents?: boolean;  // Components are undecayed (all records since schema v2)
+}
+
+/**
+ * A quorum oracle's signature over another oracle's attestation payload
+ */
+export interface CoSignature {
+  oracle: string;            // Co-signing oracle pubkey (base58)
+  signature: string;         // ed25519 signature of payloadHash (base58)
 }
 
+// Score components, in memo order
+export const TRUST_COMPONENTS = [
+  'platformActivity',
+  'skillVerifications',
+  'endorsements',
+  'reviews',
+  'deploymentMetrics',
+  'onchainReputation',
+  'securityAudit',
+  'accountAge',
+] as const;
+
+export type TrustComponent = typeof TRUST_COMPONENTS[number];
+
 export enum VerificationTier {
   UNVERIFIED = 0,
   BASIC = 1,       // Free — email + platform registration
@@ -43,11 +87,46 @@ export enum VerificationTier {
   ENTERPRISE = 4,  // 50K $INTL — full security audit + SLA
 }
 
+export enum AttestationStatus {
+  ACTIVE = 0,
+  SUSPENDED = 1,   // Temporarily untrusted — can be reinstated
+  REVOKED = 2,     // Compromised wallet or withdrawn trust — consumers must stop trusting
+}
+
+/**
+ * Lifecycle change for an agent's attestation, written by the oracle as its
+ * own memo record. The most recent change for an agent wins.
+ */
+export interface TrustStatusChange {
+  agentId: string;
+  status: AttestationStatus;
+  reason: string;
+  changedAt: number;         // Unix timestamp
+  changedBy: string;         // Oracle pubkey
+}
+
+/**
+ * An oracle key handing its role over to a new key. Signed by both keys;
+ * records of the old key confirmed from the cutoff on are rejected.
+ */
+export interface KeyHandover {
+  from: string;              // Retiring oracle pubkey
+  to: string;                // Successor oracle pubkey
+  handedOverAt: number;      // Unix timestamp
+  cutoff: number;            // Unix timestamp, not before handedOverAt
+  fromSignature: string;     // ed25519 (base58) by the retiring key
+  toSignature: string;       // ed25519 (base58) by the successor
+}
+
 export interface TrustQuery {
   agentId?: string;
   solanaWallet?: string;
-  minScore?: number;
-  verificationTier?: VerificationTier;
+  minScore?: number;                   // Minimum current (decayed) score
+  verificationTier?: VerificationTier; // Minimum tier, unexpired
+  sortBy?: 'currentScore' | 'trustScore' | 'attestedAt';
+  order?: 'asc' | 'desc';
+  limit?: number;                      // Page size (default 20, max 100)
+  offset?: number;
 }
 
 export interface TrustQueryResult {
@@ -56,4 +135,294 @@ export interface TrustQueryResult {
   currentScore: number;      // Score after decay applied
   decayApplied: number;      // How much decay was applied
   queryTimestamp: number;
+  signature?: string;        // Transaction holding the attestation
+  dispute?: DisputeNotice;   // The agent's open dispute, if any
+}
+
+/**
+ * Open dispute against an agent's score, as shown to consumers
+ */
+export interface DisputeNotice {
+  id: string;
+  attestationSignature: string; // Disputed attestation
+  filedAt: number;           // Unix timestamp
+}
+
+/**
+ * Compact memo encoding of a TrustAttestation (short keys, Unix seconds).
+ * Memos are limited to ~566 bytes, so every byte counts.
+ */
+export interface CompactAttestation {
+  v: number;                 // protocol version
+  id: string;
+  n: string;
+  w: string;
+  ts: number;
+  c: {                       // components
+    pa: number;
+    sv: number;
+    en: number;
+    rv: number;
+    dm: number;
+    or: number;
+    sa: number;
+    aa: number;
+  };
+  vt: VerificationTier;
+  at: number;                // Unix seconds
+  la: number;                // Unix seconds
+  ver: number;
+  dr: number;
+  sg?: string;               // oracle signature (payload hash is recomputed on read)
+  ps?: string;               // previous version's transaction signature
+  m?: string;                // scoring model as "id@version" (absent = default)
+}
+
+export function toCompactAttestation(attestation: TrustAttestation): CompactAttestation {
+  return {
+    v: 1,
+    id: attestation.agentId,
+    n: attestation.agentName,
+    w: attestation.solanaWallet,
+    ts: attestation.trustScore,
+    c: {
+      pa: attestation.platformActivity,
+      sv: attestation.skillVerifications,
+      en: attestation.endorsements,
+      rv: attestation.reviews,
+      dm: attestation.deploymentMetrics,
+      or: attestation.onchainReputation,
+      sa: attestation.securityAudit,
+      aa: attestation.accountAge,
+    },
+    vt: attestation.verificationTier,
+    at: Math.floor(attestation.attestedAt / 1000),
+    la: Math.floor(attestation.lastActivityAt / 1000),
+    ver: attestation.version,
+    dr: attestation.decayRate,
+    sg: attestation.oracleSignature,
+    ps: attestation.previousSignature,
+    m: attestation.modelId ? `${attestation.modelId}@${attestation.modelVersion ?? 1}` : undefined,
+  };
+}
+
+/**
+ * Decode a compact memo attestation. Status is always ACTIVE here — lifecycle
+ * changes live in their own records and are resolved by the reader.
+ */
+export function fromCompactAttestation(compact: CompactAttestation, attestedBy: string): TrustAttestation {
+  if (typeof compact?.id !== 'string' || typeof compact.ts !== 'number' || !compact.c) {
+    throw new Error('Malformed compact attestation');
+  }
+
+  // Legacy records carry no model; leave it unset so their signed payload is unchanged
+  const [modelId, modelVersion] = compact.m ? compact.m.split('@') : [];
+
+  return {
+    agentId: compact.id,
+    agentName: compact.n,
+    solanaWallet: compact.w,
+    trustScore: compact.ts,
+    platformActivity: compact.c.pa,
+    skillVerifications: compact.c.sv,
+    endorsements: compact.c.en,
+    reviews: compact.c.rv,
+    deploymentMetrics: compact.c.dm,
+    onchainReputation: compact.c.or,
+    securityAudit: compact.c.sa,
+    accountAge: compact.c.aa,
+    verificationTier: compact.vt,
+    status: AttestationStatus.ACTIVE,
+    attestedAt: compact.at * 1000,
+    attestedBy,
+    version: compact.ver,
+    lastActivityAt: compact.la * 1000,
+    decayRate: compact.dr,
+    oracleSignature: compact.sg,
+    previousSignature: compact.ps,
+    modelId,
+    modelVersion: modelVersion ? Number(modelVersion) : undefined,
+  };
+}
+
+/**
+ * Binary attestation encoding: a schema version byte followed by a fixed
+ * Borsh layout for that version. Carried base64 in memos, and laid out to
+ * match an on-chain attestation account.
+ */
+export const ATTESTATION_SCHEMA_VERSION = 6;
+
+// Field layout shared by memo records and the on-chain trust account
+export const ATTESTATION_FIELDS_V1: Record<string, borsh.Schema> = {
+  agentId: 'string',
+  agentName: 'string',
+  solanaWallet: { array: { type: 'u8', len: 32 } },
+  trustScore: 'u16',
+  platformActivity: 'u16',
+  skillVerifications: 'u16',
+  endorsements: 'u16',
+  reviews: 'u16',
+  deploymentMetrics: 'u16',
+  onchainReputation: 'u16',
+  securityAudit: 'u16',
+  accountAge: 'u16',
+  verificationTier: 'u8',
+  attestedAt: 'i64',           // Unix seconds
+  lastActivityAt: 'i64',       // Unix seconds
+  version: 'u32',
+  decayRateBps: 'u16',         // decayRate in hundredths of a percent
+  modelId: 'string',           // '' = unrecorded (legacy default model)
+  modelVersion: 'u16',         // 0 = unrecorded
+  previousSignature: { option: { array: { type: 'u8', len: 64 } } },
+  oracleSignature: { option: { array: { type: 'u8', len: 64 } } },
+};
+
+// v2: components are stored undecayed, flagged per record
+export const ATTESTATION_FIELDS_V2: Record<string, borsh.Schema> = {
+  ...ATTESTATION_FIELDS_V1,
+  baseComponents: 'bool',
+};
+
+// v3: co-signatures of a quorum oracle set
+export const ATTESTATION_FIELDS_V3: Record<string, borsh.Schema> = {
+  ...ATTESTATION_FIELDS_V2,
+  coSignatures: {
+    array: { type: { struct: { oracle: { array: { type: 'u8', len: 32 } }, signature: { array: { type: 'u8', len: 64 } } } } },
+  },
+};
+
+// v4: tier expiry and the tier's score ceiling
+export const ATTESTATION_FIELDS_V4: Record<string, borsh.Schema> = {
+  ...ATTESTATION_FIELDS_V3,
+  tierExpiresAt: { option: 'i64' },  // Unix seconds
+  scoreCeiling: { option: 'u16' },
+};
+
+// v5: the disputed attestation a correction replaces
+export const ATTESTATION_FIELDS_V5: Record<string, borsh.Schema> = {
+  ...ATTESTATION_FIELDS_V4,
+  correctsSignature: { option: { array: { type: 'u8', len: 64 } } },
+};
+
+// v6: the ceiling a lapsed tier falls back to, under the attesting oracle's policy
+export const ATTESTATION_FIELDS_V6: Record<string, borsh.Schema> = {
+  ...ATTESTATION_FIELDS_V5,
+  lapsedCeiling: { option: 'u16' },
+};
+
+// Layout written by this version
+export const ATTESTATION_FIELDS = ATTESTATION_FIELDS_V6;
+
+const ATTESTATION_LAYOUTS: Record<number, borsh.Schema> = {
+  1: { struct: ATTESTATION_FIELDS_V1 },
+  2: { struct: ATTESTATION_FIELDS_V2 },
+  3: { struct: ATTESTATION_FIELDS_V3 },
+  4: { struct: ATTESTATION_FIELDS_V4 },
+  5: { struct: ATTESTATION_FIELDS_V5 },
+  6: { struct: ATTESTATION_FIELDS_V6 },
+};
+
+/**
+ * Map an attestation onto ATTESTATION_FIELDS values
+ */
+export function toAttestationFields(attestation: TrustAttestation): Record<string, unknown> {
+  return {
+    agentId: attestation.agentId,
+    agentName: attestation.agentName,
+    solanaWallet: new PublicKey(attestation.solanaWallet).toBytes(),
+    trustScore: attestation.trustScore,
+    platformActivity: attestation.platformActivity,
+    skillVerifications: attestation.skillVerifications,
+    endorsements: attestation.endorsements,
+    reviews: attestation.reviews,
+    deploymentMetrics: attestation.deploymentMetrics,
+    onchainReputation: attestation.onchainReputation,
+    securityAudit: attestation.securityAudit,
+    accountAge: attestation.accountAge,
+    verificationTier: attestation.verificationTier,
+    attestedAt: Math.floor(attestation.attestedAt / 1000),
+    lastActivityAt: Math.floor(attestation.lastActivityAt / 1000),
+    version: attestation.version,
+    decayRateBps: Math.round(attestation.decayRate * 100),
+    modelId: attestation.modelId ?? '',
+    modelVersion: attestation.modelId ? attestation.modelVersion ?? 1 : 0,
+    previousSignature: attestation.previousSignature ? bs58.decode(attestation.previousSignature) : null,
+    oracleSignature: attestation.oracleSignature ? bs58.decode(attestation.oracleSignature) : null,
+    baseComponents: attestation.baseComponents ?? false,
+    coSignatures: (attestation.coSignatures ?? []).map(c => ({
+      oracle: new PublicKey(c.oracle).toBytes(),
+      signature: bs58.decode(c.signature),
+    })),
+    tierExpiresAt: attestation.tierExpiresAt !== undefined ? Math.floor(attestation.tierExpiresAt / 1000) : null,
+    scoreCeiling: attestation.scoreCeiling ?? null,
+    correctsSignature: attestation.correctsSignature ? bs58.decode(attestation.correctsSignature) : null,
+    lapsedCeiling: attestation.lapsedCeiling ?? null,
+  };
+}
+
+export function encodeAttestation(attestation: TrustAttestation): Uint8Array {
+  const body = borsh.serialize(ATTESTATION_LAYOUTS[ATTESTATION_SCHEMA_VERSION], toAttestationFields(attestation));
+
+  const encoded = new Uint8Array(body.length + 1);
+  encoded[0] = ATTESTATION_SCHEMA_VERSION;
+  encoded.set(body, 1);
+  return encoded;
+}
+
+/**
+ * Decode a binary attestation. As with compact memos, status is ACTIVE and
+ * attestedBy comes from the reader (the oracle that wrote the record).
+ */
+export function decodeAttestation(encoded: Uint8Array, attestedBy: string): TrustAttestation {
+  const layout = ATTESTATION_LAYOUTS[encoded[0]];
+  if (!layout) throw new Error(`Unsupported attestation schema version ${encoded[0]}`);
+
+  return fromAttestationFields(borsh.deserialize(layout, encoded.subarray(1)), attestedBy);
+}
+
+/**
+ * Build an attestation from decoded attestation fields (any schema version)
+ */
+export function fromAttestationFields(fields: unknown, attestedBy: string): TrustAttestation {
+  const raw = fields as any;
+  const signature = (bytes: number[] | null) => (bytes ? bs58.encode(Uint8Array.from(bytes)) : undefined);
+
+  return {
+    agentId: raw.agentId,
+    agentName: raw.agentName,
+    solanaWallet: new PublicKey(Uint8Array.from(raw.solanaWallet)).toBase58(),
+    trustScore: raw.trustScore,
+    platformActivity: raw.platformActivity,
+    skillVerifications: raw.skillVerifications,
+    endorsements: raw.endorsements,
+    reviews: raw.reviews,
+    deploymentMetrics: raw.deploymentMetrics,
+    onchainReputation: raw.onchainReputation,
+    securityAudit: raw.securityAudit,
+    accountAge: raw.accountAge,
+    verificationTier: raw.verificationTier,
+    status: AttestationStatus.ACTIVE,
+    attestedAt: Number(raw.attestedAt) * 1000,
+    attestedBy,
+    version: raw.version,
+    lastActivityAt: Number(raw.lastActivityAt) * 1000,
+    decayRate: raw.decayRateBps / 100,
+    oracleSignature: signature(raw.oracleSignature),
+    previousSignature: signature(raw.previousSignature),
+    modelId: raw.modelId || undefined,
+    modelVersion: raw.modelId ? raw.modelVersion : undefined,
+    baseComponents: raw.baseComponents || undefined,
+    // Only quorum records carry the field at all
+    ...(raw.coSignatures?.length ? {
+      coSignatures: raw.coSignatures.map((c: any) => ({
+        oracle: new PublicKey(Uint8Array.from(c.oracle)).toBase58(),
+        signature: signature(c.signature)!,
+      })),
+    } : {}),
+    // Absent before v4 and for uncapped tiers; left unset so the signed payload is unchanged
+    ...(raw.tierExpiresAt != null ? { tierExpiresAt: Number(raw.tierExpiresAt) * 1000 } : {}),
+    ...(raw.scoreCeiling != null ? { scoreCeiling: raw.scoreCeiling } : {}),
+    ...(raw.lapsedCeiling != null ? { lapsedCeiling: raw.lapsedCeiling } : {}),
+    ...(raw.correctsSignature ? { correctsSignature: signature(raw.correctsSignature) } : {}),
+  };
 }
@@ -0,0 +1,331 @@
+/**
+ * Scoring Models
+ *
+ * A scoring model describes how raw platform data becomes component scores:
+ * each component has a max weight and a list of terms, each term normalizes
+ * one input to 0-1 and contributes up to its points. Models are identified by
+ * id + version, and every attestation records the model that produced it, so
+ * the formula can change without making old attestations ambiguous.
+ *
+ * New scores use moltbotden-default v2, which scores onchainReputation from
+ * the wallet activity the oracle collects (onchain-collector.ts).
+ * Attestations without a model id were produced by moltbotden-default v1.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentPlatformData } from './trust-engine';
+import { TRUST_COMPONENTS, TrustComponent } from './schema';
+
+// Inputs a term can read
+export const NUMERIC_INPUTS = [
+  'denMessages',
+  'dmsSent',
+  'promptResponses',
+  'verifiedSkills',
+  'totalSkills',
+  'endorsementsReceived',
+  'endorserAvgTrust',
+  'reviewCount',
+  'avgReviewScore',
+  'uptimePercent',
+  'responseQuality',
+  'walletAge',
+  'txCount',
+  'counterparties',
+  'failedTxRatio',
+  'flaggedInteractions',
+  'auditScore',
+  'accountAgeDays',
+] as const;
+
+export type NumericInput = typeof NUMERIC_INPUTS[number];
+
+export type Normalizer =
+  | { type: 'saturating'; at: number }                 // min(input / at, 1)
+  | { type: 'ratio'; denominator: NumericInput }       // input / max(denominator, 1)
+  | { type: 'inverse'; at: number };                   // max(1 - input / at, 0): full points at 0
+
+export interface ScoringTerm {
+  name: string;              // Sub-score name, e.g. "messageScore"
+  input: NumericInput;
+  normalizer: Normalizer;
+  points: number;            // Points when the normalized input is 1
+}
+
+export interface ComponentModel {
+  maxWeight: number;
+  terms: ScoringTerm[];
+  requires?: keyof AgentPlatformData; // Component scores 0 unless this input is truthy
+}
+
+// How one component decays; a rule without monthlyRate or halfLifeDays uses
+// the attestation's decayRate
+export interface DecayRule {
+  monthlyRate?: number;      // Fraction lost per inactive month
+  halfLifeDays?: number;     // Alternatively: the score halves every N inactive days
+  floor?: number;            // Fraction of the base score never lost to decay (0-1)
+}
+
+export interface ScoringModel {
+  id: string;
+  version: number;
+  description?: string;
+  components: Record<TrustComponent, ComponentModel>;
+  decay: {
+    monthlyRate: number;     // Fraction lost per inactive month (0.05 = 5%)
+    components: TrustComponent[];
+    rules?: Partial<Record<TrustComponent, DecayRule>>; // Per-component overrides
+  };
+}
+
+export class ScoringModelError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid scoring model: ${issues.join('; ')}`);
+    this.name = 'ScoringModelError';
+  }
+}
+
+const saturating = (name: string, input: NumericInput, at: number, points: number): ScoringTerm =>
+  ({ name, input, normalizer: { type: 'saturating', at }, points });
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  id: 'moltbotden-default',
+  version: 1,
+  description: 'Original MoltbotDen trust formula',
+  components: {
+    platformActivity: {
+      maxWeight: 150,
+      terms: [
+        saturating('messageScore', 'denMessages', 100, 60),
+        saturating('dmScore', 'dmsSent', 50, 40),
+        saturating('promptScore', 'promptResponses', 10, 50),
+      ],
+    },
+    skillVerifications: {
+      maxWeight: 150,
+      requires: 'totalSkills',
+      terms: [
+        { name: 'ratioScore', input: 'verifiedSkills', normalizer: { type: 'ratio', denominator: 'totalSkills' }, points: 100 },
+        saturating('countBonus', 'verifiedSkills', 10, 50),
+      ],
+    },
+    endorsements: {
+      maxWeight: 150,
+      terms: [
+        saturating('countScore', 'endorsementsReceived', 20, 75),
+        saturating('qualityScore', 'endorserAvgTrust', 1000, 75),
+      ],
+    },
+    reviews: {
+      maxWeight: 150,
+      terms: [
+        saturating('countScore', 'reviewCount', 15, 75),
+        saturating('qualityScore', 'avgReviewScore', 5, 75),
+      ],
+    },
+    deploymentMetrics: {
+      maxWeight: 150,
+      terms: [
+        saturating('uptimeScore', 'uptimePercent', 100, 75),
+        saturating('qualityScore', 'responseQuality', 100, 75),
+      ],
+    },
+    onchainReputation: {
+      maxWeight: 100,
+      terms: [
+        saturating('ageScore', 'walletAge', 365, 50),
+        saturating('txScore', 'txCount', 100, 50),
+      ],
+    },
+    securityAudit: {
+      maxWeight: 100,
+      requires: 'securityAuditPassed',
+      terms: [
+        saturating('auditScore', 'auditScore', 100, 100),
+      ],
+    },
+    accountAge: {
+      maxWeight: 50,
+      terms: [
+        saturating('ageScore', 'accountAgeDays', 180, 50),
+      ],
+    },
+  },
+  decay: {
+    monthlyRate: 0.05,
+    components: ['platformActivity', 'endorsements', 'reviews', 'deploymentMetrics'],
+  },
+};
+
+const inverse = (name: string, input: NumericInput, at: number, points: number): ScoringTerm =>
+  ({ name, input, normalizer: { type: 'inverse', at }, points });
+
+export const CURRENT_SCORING_MODEL: ScoringModel = {
+  ...DEFAULT_SCORING_MODEL,
+  version: 2,
+  description: 'Onchain reputation from collected wallet activity',
+  components: {
+    ...DEFAULT_SCORING_MODEL.components,
+    onchainReputation: {
+      maxWeight: 100,
+      requires: 'txCount',
+      terms: [
+        saturating('ageScore', 'walletAge', 365, 25),
+        saturating('txScore', 'txCount', 100, 20),
+        saturating('diversityScore', 'counterparties', 25, 20),
+        inverse('reliabilityScore', 'failedTxRatio', 0.5, 15),
+        inverse('cleanScore', 'flaggedInteractions', 1, 20),
+      ],
+    },
+  },
+};
+
+const registry = new Map<string, ScoringModel>();
+
+function registryKey(id: string, version: number): string {
+  return `${id}@${version}`;
+}
+
+/**
+ * Check a model is complete and keeps the composite on the 0-1000 scale
+ */
+export function validateScoringModel(model: ScoringModel): void {
+  const issues: string[] = [];
+
+  if (!model || typeof model !== 'object') throw new ScoringModelError(['model must be an object']);
+  if (typeof model.id !== 'string' || !model.id || model.id.includes('@')) {
+    issues.push('id must be a non-empty string without "@"');
+  }
+  if (!Number.isInteger(model.version) || model.version < 1) {
+    issues.push('version must be a positive integer');
+  }
+
+  let totalWeight = 0;
+  for (const key of TRUST_COMPONENTS) {
+    const component = model.components?.[key];
+    if (!component) {
+      issues.push(`components.${key} is missing`);
+      continue;
+    }
+    if (!(component.maxWeight >= 0)) issues.push(`components.${key}.maxWeight must be >= 0`);
+    totalWeight += component.maxWeight;
+
+    for (const [i, term] of (component.terms ?? []).entries()) {
+      const at = `components.${key}.terms[${i}]`;
+      if (!(NUMERIC_INPUTS as readonly string[]).includes(term.input)) issues.push(`${at}.input is not a numeric input`);
+      if (!(term.points >= 0)) issues.push(`${at}.points must be >= 0`);
+      if (term.normalizer?.type === 'saturating') {
+        if (!(term.normalizer.at > 0)) issues.push(`${at}.normalizer.at must be > 0`);
+      } else if (term.normalizer?.type === 'inverse') {
+        if (!(term.normalizer.at > 0)) issues.push(`${at}.normalizer.at must be > 0`);
+      } else if (term.normalizer?.type === 'ratio') {
+        if (!(NUMERIC_INPUTS as readonly string[]).includes(term.normalizer.denominator)) {
+          issues.push(`${at}.normalizer.denominator is not a numeric input`);
+        }
+      } else {
+        issues.push(`${at}.normalizer.type must be saturating, ratio or inverse`);
+      }
+    }
+  }
+  if (totalWeight !== 1000) issues.push(`component max weights must sum to 1000 (got ${totalWeight})`);
+
+  if (!(model.decay?.monthlyRate >= 0 && model.decay.monthlyRate < 1)) {
+    issues.push('decay.monthlyRate must be in [0, 1)');
+  }
+  for (const key of model.decay?.components ?? []) {
+    if (!(TRUST_COMPONENTS as readonly string[]).includes(key)) issues.push(`decay.components has unknown component ${key}`);
+  }
+  for (const [key, rule] of Object.entries(model.decay?.rules ?? {}) as Array<[TrustComponent, DecayRule]>) {
+    const at = `decay.rules.${key}`;
+    if (!model.decay.components.includes(key)) issues.push(`${at} is for a component that doesn't decay`);
+    if (rule.monthlyRate !== undefined && rule.halfLifeDays !== undefined) {
+      issues.push(`${at} may set monthlyRate or halfLifeDays, not both`);
+    }
+    if (rule.monthlyRate !== undefined && !(rule.monthlyRate >= 0 && rule.monthlyRate < 1)) {
+      issues.push(`${at}.monthlyRate must be in [0, 1)`);
+    }
+    if (rule.halfLifeDays !== undefined && !(rule.halfLifeDays > 0)) issues.push(`${at}.halfLifeDays must be > 0`);
+    if (rule.floor !== undefined && !(rule.floor >= 0 && rule.floor <= 1)) issues.push(`${at}.floor must be in [0, 1]`);
+  }
+
+  if (issues.length > 0) throw new ScoringModelError(issues);
+}
+
+/**
+ * Register a model so attestations made with it can be decayed and explained.
+ * A given id + version is immutable once registered.
+ */
+export function registerScoringModel(model: ScoringModel): ScoringModel {
+  validateScoringModel(model);
+  const key = registryKey(model.id, model.version);
+  const existing = registry.get(key);
+  if (existing && JSON.stringify(existing) !== JSON.stringify(model)) {
+    throw new ScoringModelError([`${key} is already registered with a different definition`]);
+  }
+  registry.set(key, model);
+  return model;
+}
+
+/**
+ * Look up the model an attestation was produced with (v1 if unrecorded).
+ * New scores default to CURRENT_SCORING_MODEL instead.
+ */
+export function getScoringModel(id?: string, version?: number): ScoringModel | null {
+  if (id === undefined) return DEFAULT_SCORING_MODEL;
+  return registry.get(registryKey(id, version ?? 1)) ?? null;
+}
+
+/**
+ * All registered models
+ */
+export function listScoringModels(): ScoringModel[] {
+  return [...registry.values()];
+}
+
+/**
+ * Highest registered version of a model
+ */
+export function latestScoringModel(id: string): ScoringModel | null {
+  return listScoringModels()
+    .filter(model => model.id === id)
+    .reduce<ScoringModel | null>((latest, model) => (!latest || model.version > latest.version ? model : latest), null);
+}
+
+/**
+ * Parse an "id@version" model reference (version undefined if not given)
+ */
+export function parseModelRef(ref: string): { id: string; version?: number } {
+  const [id, version] = ref.split('@');
+  return { id, version: version ? Number(version) : undefined };
+}
+
+/**
+ * The model a reference names; a bare id means its latest version
+ */
+export function resolveModelRef(ref: string): ScoringModel | null {
+  const { id, version } = parseModelRef(ref);
+  return version === undefined ? latestScoringModel(id) : getScoringModel(id, version);
+}
+
+/**
+ * Load, validate and register a model from a JSON file
+ */
+export function loadScoringModel(filePath: string): ScoringModel {
+  const model: ScoringModel = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  return registerScoringModel(model);
+}
+
+/**
+ * Load every *.json model in a directory (missing directory is fine)
+ */
+export function loadScoringModels(dir: string): ScoringModel[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => loadScoringModel(path.join(dir, file)));
+}
+
+registerScoringModel(DEFAULT_SCORING_MODEL);
+registerScoringModel(CURRENT_SCORING_MODEL);
@@ -5,44 +5,280 @@
  * Uses a simple memo + account scheme for the hackathon.
  * 
  * Architecture:
- * - Trust data stored as JSON memo transactions on Solana
- * - PDA-like derivation: hash(agent_id + "moltbotden-trust") for deterministic lookup
- * - Oracle (MoltbotDen) signs all attestation transactions
+ * - Trust data stored as memo transactions on Solana: Borsh-encoded, base64
+ *   (MDEN_TRUST_BIN); legacy JSON records (MDEN_TRUST) are still read
+ * - Revocations/suspensions stored as separate MDEN_STATUS memo records
+ * - Batches pack several attestation memos into one transaction
+ * - Agent addresses are the trust program's PDAs (see trust-program.ts)
+ * - Oracle (MoltbotDen) signs all attestation transactions, and each
+ *   attestation payload (ed25519) so it can be verified offline
+ * - Readers only accept records from transactions paid for by the oracle,
+ *   and drop attestations whose payload signature doesn't verify
  * - Queryable via Solana transaction history on the oracle account
+ * - RPC goes through a SolanaTransport (solana-transport.ts), so an
+ *   in-memory FakeChain can stand in for a cluster
+ * - With an oracle set (oracle-quorum.ts), attestations carry co-signatures
+ *   from other oracles and readers only accept those that reach quorum
+ * - Signing goes through an OracleSigner (oracle-signer.ts); rotating the
+ *   key publishes a handover (MDEN_KEY), after which records of the retired
+ *   key are only accepted up to its cutoff (key-rotation.ts)
  */
 
 import {
-  Connection,
   Keypair,
   PublicKey,
+  SystemProgram,
   Transaction,
   TransactionInstruction,
-  sendAndConfirmTransaction,
-  SystemProgram,
   LAMPORTS_PER_SOL,
+  PACKET_DATA_SIZE,
 } from '@solana/web3.js';
-import { TrustAttestation } from './schema';
-import * as crypto from 'crypto';
+import {
+  AttestationStatus,
+  CoSignature,
+  CompactAttestation,
+  KeyHandover,
+  TrustAttestation,
+  TrustStatusChange,
+  decodeAttestation,
+  encodeAttestation,
+  fromCompactAttestation,
+} from './schema';
+import { AttestationVerification, hashAttestation, signAttestation, verifyAttestation } from './attestation-signing';
+import { TrustProgramClient } from './trust-program';
+import { OnchainCollector, OnchainCollectorOptions } from './onchain-collector';
+import { ConnectionTransport, SolanaTransport } from './solana-transport';
+import { Clock, systemClock } from './clock';
+import { KeypairSigner, OracleSigner } from './oracle-signer';
+import { RetiredOracleKey, isWithinCutoff, signKeyHandover, verifyKeyHandover } from './key-rotation';
+import { TierPolicy } from './verification-tiers';
+import {
+  CoSignBasis,
+  CoSignRequest,
+  OraclePeer,
+  OracleSet,
+  QuorumError,
+  QuorumVerification,
+  cosignProposal,
+  verifyQuorum,
+} from './oracle-quorum';
 
 // Solana Memo Program
 const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
 
 const DEVNET_URL = 'https://api.devnet.solana.com';
 
+// Memo record prefixes
+const ATTESTATION_PREFIX = 'MDEN_TRUST:';          // Legacy compact JSON
+const BINARY_ATTESTATION_PREFIX = 'MDEN_TRUST_BIN:';
+const STATUS_PREFIX = 'MDEN_STATUS:';
+const KEY_HANDOVER_PREFIX = 'MDEN_KEY:';
+
+// Transactions per page when scanning back for an agent's latest attestation
+const LATEST_SCAN_PAGE_SIZE = 100;
+
+// Solana's base fee, charged per transaction signature
+const LAMPORTS_PER_SIGNATURE = 5000;
+
+export interface SolanaAttestorOptions {
+  clock?: Clock;             // Timestamps status records (default: system clock)
+  oracleSet?: OracleSet;     // Quorum: attestations are final only with its threshold of signatures
+  peers?: OraclePeer[];      // Other members of the set, asked for co-signatures
+}
+
+export interface AttestationRecord {
+  attestation: TrustAttestation;
+  signature: string;
+  slot: number;
+  blockTime: number;
+}
+
+export interface StatusChangeRecord {
+  change: TrustStatusChange;
+  signature: string;
+  slot: number;
+  blockTime: number;
+}
+
+export interface KeyHandoverRecord {
+  handover: KeyHandover;
+  signature: string;
+  slot: number;
+  blockTime: number;
+}
+
+export interface BatchAttestationResult {
+  agentId: string;
+  signature: string | null;  // Transaction holding the attestation
+  error: string | null;
+  attempts: number;
+}
+
+export interface BatchOptions {
+  maxRetries?: number;       // Per chunk (default 2)
+  retryDelayMs?: number;     // Base backoff, doubled per attempt (default 1000)
+}
+
+/**
+ * One page of the oracle's transaction history, newest first.
+ * `oldestSignature` is the pagination cursor for the next (older) page.
+ */
+export interface TrustRecordPage {
+  attestations: AttestationRecord[];
+  statusChanges: StatusChangeRecord[];
+  newestSignature: string | null;
+  oldestSignature: string | null;
+  transactionCount: number;
+}
+
+/**
+ * The trust records of a single transaction, checked the way readers check
+ * them. Legacy attestations carry no payload signature (verification null);
+ * only the oracle paying for the transaction vouches for them. A retired
+ * oracle key counts as the oracle for transactions up to its cutoff.
+ */
+export interface TransactionVerification {
+  signature: string;
+  feePayer: string;
+  oraclePaid: boolean;
+  attestations: Array<{
+    attestation: TrustAttestation;
+    verification: AttestationVerification | null;
+    quorum: QuorumVerification | null; // With an oracle set
+    final: boolean;          // Accepted by readers
+  }>;
+  statusChanges: TrustStatusChange[];
+  keyHandovers: Array<{ handover: KeyHandover; errors: string[] }>;
+  valid: boolean;            // Oracle-paid, holds a trust record, every attestation final and every handover signed
+}
+
+/**
+ * Thrown when an attestation would not be newer than the agent's latest one
+ */
+export class StaleAttestationError extends Error {
+  constructor(message: string, public readonly latest: AttestationRecord) {
+    super(message);
+    this.name = 'StaleAttestationError';
+  }
+}
+
+/**
+ * Thrown when an attestation's memo wouldn't fit in one transaction
+ */
+export class AttestationTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttestationTooLargeError';
+  }
+}
+
+/**
+ * Extract a memo payload from a program log line.
+ * The memo program logs memos as quoted, escaped strings.
+ */
+function extractMemoPayload(log: string, prefix: string): string | null {
+  const idx = log.indexOf(prefix);
+  if (idx === -1) return null;
+  let payload = log.slice(idx + prefix.length);
+  if (payload.endsWith('"')) payload = payload.slice(0, -1);
+  return payload.replace(/\\"/g, '"');
+}
+
+/**
+ * Decode the trust records in a transaction's logs. Attestations come back
+ * with their payloadHash recomputed but not yet verified.
+ */
+function parseTrustLogs(logMessages: string[], oracle: string): {
+  attestations: TrustAttestation[];
+  statusChanges: TrustStatusChange[];
+  keyHandovers: KeyHandover[];
+} {
+  const attestations: TrustAttestation[] = [];
+  const statusChanges: TrustStatusChange[] = [];
+  const keyHandovers: KeyHandover[] = [];
+
+  for (const log of logMessages) {
+    const binary = extractMemoPayload(log, BINARY_ATTESTATION_PREFIX);
+    const attestationJson = binary ? null : extractMemoPayload(log, ATTESTATION_PREFIX);
+    if (binary || attestationJson) {
+      try {
+        const attestation = binary
+          ? decodeAttestation(Buffer.from(binary, 'base64'), oracle)
+          : fromCompactAttestation(JSON.parse(attestationJson!) as CompactAttestation, oracle);
+        if (attestation.oracleSignature) attestation.payloadHash = hashAttestation(attestation);
+        attestations.push(attestation);
+      } catch {}
+      continue;
+    }
+
+    const statusJson = extractMemoPayload(log, STATUS_PREFIX);
+    if (statusJson) {
+      try {
+        const parsed = JSON.parse(statusJson);
+        statusChanges.push({
+          agentId: parsed.id,
+          status: parsed.st,
+          reason: parsed.r,
+          changedAt: parsed.at * 1000,
+          changedBy: oracle,
+        });
+      } catch {}
+      continue;
+    }
+
+    const handoverJson = extractMemoPayload(log, KEY_HANDOVER_PREFIX);
+    if (handoverJson) {
+      try {
+        const parsed = JSON.parse(handoverJson);
+        keyHandovers.push({
+          from: parsed.f,
+          to: parsed.t,
+          handedOverAt: parsed.at * 1000,
+          cutoff: parsed.c * 1000,
+          fromSignature: parsed.fs,
+          toSignature: parsed.ts,
+        });
+      } catch {}
+    }
+  }
+
+  return { attestations, statusChanges, keyHandovers };
+}
+
 export class SolanaAttestor {
-  private connection: Connection;
-  private oracleKeypair: Keypair | null = null;
+  private transport: SolanaTransport;
+  private clock: Clock;
+  private signer: OracleSigner | null = null;
+  private retired: RetiredOracleKey[] = [];
+  private quorumSet: OracleSet | null;
+  private peers: OraclePeer[];
+
+  /**
+   * Connects to an RPC URL (devnet by default), or uses the given transport
+   * — e.g. a FakeChain
+   */
+  constructor(transport: SolanaTransport | string = DEVNET_URL, options: SolanaAttestorOptions = {}) {
+    this.transport = typeof transport === 'string' ? new ConnectionTransport(transport) : transport;
+    this.clock = options.clock ?? systemClock;
+    this.quorumSet = options.oracleSet ?? null;
+    this.peers = options.peers ?? [];
+  }
 
-  constructor(rpcUrl: string = DEVNET_URL) {
-    this.connection = new Connection(rpcUrl, 'confirmed');
+  /**
+   * Initialize with oracle keypair (MoltbotDen's signing authority), and
+   * the keys it replaced
+   */
+  initOracle(secretKey: Uint8Array, retired: RetiredOracleKey[] = []): void {
+    this.useSigner(new KeypairSigner(Keypair.fromSecretKey(secretKey)), retired);
   }
 
   /**
-   * Initialize with oracle keypair (MoltbotDen's signing authority)
+   * Sign as the oracle through any signer — e.g. a remote or HSM-backed one
    */
-  initOracle(secretKey: Uint8Array): void {
-    this.oracleKeypair = Keypair.fromSecretKey(secretKey);
-    console.log(`Oracle initialized: ${this.oracleKeypair.publicKey.toBase58()}`);
+  useSigner(signer: OracleSigner, retired: RetiredOracleKey[] = []): void {
+    this.signer = signer;
+    this.retired = [...retired];
+    console.log(`Oracle initialized: ${signer.publicKey.toBase58()}`);
   }
 
   /**
@@ -50,7 +286,8 @@ export class SolanaAttestor {
    */
   generateOracle(): { publicKey: string; secretKey: string } {
     const keypair = Keypair.generate();
-    this.oracleKeypair = keypair;
+    this.signer = new KeypairSigner(keypair);
+    this.retired = [];
     return {
       publicKey: keypair.publicKey.toBase58(),
       secretKey: Buffer.from(keypair.secretKey).toString('base64'),
@@ -58,117 +295,479 @@ export class SolanaAttestor {
   }
 
   /**
-   * Get deterministic address for an agent's attestation
+   * A collector of agents' wallet activity over this attestor's chain
+   */
+  onchainCollector(options: OnchainCollectorOptions = {}): OnchainCollector {
+    return new OnchainCollector(this.transport, { clock: this.clock, ...options });
+  }
+
+  /**
+   * Get deterministic address for an agent's attestation (its trust program PDA)
    */
   getAttestationAddress(agentId: string): string {
-    const hash = crypto.createHash('sha256')
-      .update(`moltbotden-trust:${agentId}`)
-      .digest();
-    return hash.toString('hex').slice(0, 32);
+    return new TrustProgramClient(this.transport).findAgentAddress(agentId)[0].toBase58();
   }
 
   /**
-   * Write a trust attestation to Solana as a memo transaction
+   * Sequence an attestation after the agent's latest stored one and sign it.
+   * The version is derived from the predecessor and the record links back to
+   * the predecessor's transaction. Attestations older than the predecessor,
+   * or built from older activity data, are rejected as stale.
    */
-  async writeAttestation(attestation: TrustAttestation): Promise<string> {
-    if (!this.oracleKeypair) {
+  async prepareAttestation(attestation: TrustAttestation, previous: AttestationRecord | null): Promise<TrustAttestation> {
+    if (!previous) {
+      return this.signAttestation({ ...attestation, version: 1, previousSignature: undefined });
+    }
+
+    const latest = previous.attestation;
+    if (Math.floor(attestation.attestedAt / 1000) < Math.floor(latest.attestedAt / 1000)) {
+      throw new StaleAttestationError(
+        `Attestation for ${attestation.agentId} predates version ${latest.version}`, previous);
+    }
+    if (Math.floor(attestation.lastActivityAt / 1000) < Math.floor(latest.lastActivityAt / 1000)) {
+      throw new StaleAttestationError(
+        `Attestation for ${attestation.agentId} uses older activity data than version ${latest.version}`, previous);
+    }
+
+    return this.signAttestation({
+      ...attestation,
+      version: latest.version + 1,
+      previousSignature: previous.signature,
+    });
+  }
+
+  /**
+   * Sign an attestation payload with the oracle key (sets attestedBy)
+   */
+  async signAttestation(attestation: TrustAttestation): Promise<TrustAttestation> {
+    if (!this.signer) {
       throw new Error('Oracle not initialized. Call initOracle() or generateOracle() first.');
     }
+    return signAttestation(attestation, this.signer);
+  }
 
-    // Compact attestation format for memo (max ~566 bytes)
-    const compactAttestation = {
-      v: 1,                                    // protocol version
-      id: attestation.agentId,
-      n: attestation.agentName,
-      w: attestation.solanaWallet,
-      ts: attestation.trustScore,
-      c: {                                     // components
-        pa: attestation.platformActivity,
-        sv: attestation.skillVerifications,
-        en: attestation.endorsements,
-        rv: attestation.reviews,
-        dm: attestation.deploymentMetrics,
-        or: attestation.onchainReputation,
-        sa: attestation.securityAudit,
-        aa: attestation.accountAge,
-      },
-      vt: attestation.verificationTier,
-      at: Math.floor(attestation.attestedAt / 1000), // Unix seconds
-      la: Math.floor(attestation.lastActivityAt / 1000),
-      ver: attestation.version,
-      dr: attestation.decayRate,
-    };
+  /**
+   * As a member of the oracle set, recompute another member's proposal and
+   * co-sign it if the result agrees within tolerance
+   */
+  async cosign(request: CoSignRequest, tierPolicy?: TierPolicy): Promise<CoSignature> {
+    if (!this.signer) {
+      throw new Error('Oracle not initialized. Call initOracle() or generateOracle() first.');
+    }
+    if (!this.quorumSet?.oracles.includes(this.signer.publicKey.toBase58())) {
+      throw new QuorumError('This oracle is not a member of an oracle set');
+    }
+    const latest = 'decayedFrom' in request
+      ? await this.readLatestAttestation(request.proposal.agentId, request.proposal.attestedBy)
+      : null;
+    return cosignProposal(request, this.signer, this.quorumSet, this.clock.now(), tierPolicy, latest);
+  }
+
+  /**
+   * The newest final attestation of an agent in this oracle's history, or in
+   * that of another member of its oracle set
+   */
+  async readLatestAttestation(agentId: string, oracle?: string): Promise<AttestationRecord | null> {
+    let before: string | undefined;
+    for (;;) {
+      const page = await this.readTrustRecordPage({ before, limit: LATEST_SCAN_PAGE_SIZE, oracle });
+      const record = page.attestations.find(r => r.attestation.agentId === agentId);
+      if (record) return record;
+      if (page.transactionCount < LATEST_SCAN_PAGE_SIZE || !page.oldestSignature) return null;
+      before = page.oldestSignature;
+    }
+  }
+
+  /**
+   * Ask the other members to co-sign a signed attestation, and return it
+   * with their signatures once final. Without an oracle set it's already final.
+   */
+  async collectCoSignatures(attestation: TrustAttestation, basis: CoSignBasis): Promise<TrustAttestation> {
+    if (!this.quorumSet) return attestation;
 
-    const memoData = JSON.stringify(compactAttestation);
-    
-    const memoInstruction = new TransactionInstruction({
-      keys: [{ pubkey: this.oracleKeypair.publicKey, isSigner: true, isWritable: false }],
-      programId: MEMO_PROGRAM_ID,
-      data: Buffer.from(`MDEN_TRUST:${memoData}`),
+    const request = { ...basis, proposal: attestation } as CoSignRequest;
+    const peers = this.peers.filter(p => p.publicKey !== attestation.attestedBy);
+    const responses = await Promise.allSettled(peers.map(p => p.cosign(request)));
+
+    const coSignatures: CoSignature[] = [];
+    const errors: string[] = [];
+    responses.forEach((response, i) => {
+      if (response.status === 'rejected') errors.push(response.reason?.message ?? String(response.reason));
+      else if (response.value.oracle !== peers[i].publicKey) errors.push(`${peers[i].publicKey}: signed as another oracle`);
+      else coSignatures.push(response.value);
     });
 
-    const transaction = new Transaction().add(memoInstruction);
+    const quorum = verifyQuorum({ ...attestation, coSignatures }, this.quorumSet);
+    if (!quorum.final) {
+      throw new QuorumError(`Quorum not reached for ${attestation.agentId}: ` +
+        [...errors, ...quorum.errors].join('; '));
+    }
+    return { ...attestation, coSignatures: coSignatures.filter(c => quorum.signers.includes(c.oracle)) };
+  }
 
-    const signature = await sendAndConfirmTransaction(
-      this.connection,
-      transaction,
-      [this.oracleKeypair],
-    );
+  /**
+   * Write a trust attestation to Solana as a memo transaction.
+   * Unsigned attestations are signed by the oracle first.
+   */
+  async writeAttestation(attestation: TrustAttestation): Promise<string> {
+    if (!this.signer) {
+      throw new Error('Oracle not initialized. Call initOracle() or generateOracle() first.');
+    }
+
+    const oracle = this.signer.publicKey.toBase58();
+    const signed = attestation.oracleSignature ? attestation : await this.signAttestation(attestation);
+    if (!verifyAttestation(signed, [oracle]).valid) {
+      throw new Error(`Attestation for ${attestation.agentId} is not validly signed by this oracle`);
+    }
+    const quorum = this.quorumSet && verifyQuorum(signed, this.quorumSet);
+    if (quorum && !quorum.final) {
+      throw new QuorumError(`Attestation for ${attestation.agentId} is not final: ${quorum.errors.join('; ')}`);
+    }
+
+    // Checked up front, as in the batch path, rather than failing at send
+    const memo = this.attestationMemo(signed);
+    if (!this.fitsInTransaction([memo])) {
+      throw new AttestationTooLargeError(`Attestation for ${attestation.agentId} exceeds the transaction size limit; shorten agentId or agentName`);
+    }
+    const signature = await this.sendMemo(memo);
 
     console.log(`Trust attestation written for ${attestation.agentId}: ${signature}`);
     return signature;
   }
 
+  /**
+   * Write many attestations, packing as many memos per transaction as fit
+   * in the packet size limit. Failed chunks are retried with backoff; each
+   * agent gets its own result. A chunk that times out may still land, so a
+   * retry can occasionally write the same version twice.
+   */
+  async writeAttestations(batch: TrustAttestation[], options: BatchOptions = {}): Promise<BatchAttestationResult[]> {
+    if (!this.signer) {
+      throw new Error('Oracle not initialized. Call initOracle() or generateOracle() first.');
+    }
+
+    const maxRetries = options.maxRetries ?? 2;
+    const retryDelayMs = options.retryDelayMs ?? 1000;
+    const oracle = this.signer.publicKey.toBase58();
+    const results: BatchAttestationResult[] = [];
+
+    // Sign and encode each attestation; ones that can't be encoded fail on their own
+    const memos: Array<{ result: BatchAttestationResult; memo: string }> = [];
+    for (const attestation of batch) {
+      const result: BatchAttestationResult = { agentId: attestation.agentId, signature: null, error: null, attempts: 0 };
+      results.push(result);
+
+      const signed = attestation.oracleSignature ? attestation : await this.signAttestation(attestation);
+      if (!verifyAttestation(signed, [oracle]).valid) {
+        result.error = 'Attestation is not validly signed by this oracle';
+        continue;
+      }
+      const quorum = this.quorumSet && verifyQuorum(signed, this.quorumSet);
+      if (quorum && !quorum.final) {
+        result.error = `Attestation is not final: ${quorum.errors.join('; ')}`;
+        continue;
+      }
+      let memo: string;
+      try {
+        memo = this.attestationMemo(signed);
+      } catch (err: any) {
+        result.error = `Attestation cannot be encoded: ${err.message}`;
+        continue;
+      }
+      if (!this.fitsInTransaction([memo])) {
+        result.error = 'Attestation memo exceeds the transaction size limit';
+        continue;
+      }
+      memos.push({ result, memo });
+    }
+
+    // Greedy packing into chunks that each fit one transaction
+    const chunks: Array<typeof memos> = [];
+    for (const entry of memos) {
+      const current = chunks[chunks.length - 1];
+      if (current && this.fitsInTransaction([...current.map(e => e.memo), entry.memo])) {
+        current.push(entry);
+      } else {
+        chunks.push([entry]);
+      }
+    }
+
+    for (const chunk of chunks) {
+      for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+        chunk.forEach(e => { e.result.attempts = attempt; });
+        try {
+          const signature = await this.sendMemos(chunk.map(e => e.memo));
+          chunk.forEach(e => { e.result.signature = signature; e.result.error = null; });
+          console.log(`Batch of ${chunk.length} attestations written: ${signature}`);
+          break;
+        } catch (err: any) {
+          chunk.forEach(e => { e.result.error = err.message; });
+          if (attempt <= maxRetries) {
+            await new Promise(resolve => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)));
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Write a status change (revoke / suspend / reinstate) for an agent
+   */
+  async writeStatusChange(agentId: string, status: AttestationStatus, reason: string): Promise<string> {
+    if (!this.signer) {
+      throw new Error('Oracle not initialized. Call initOracle() or generateOracle() first.');
+    }
+
+    const compactStatus = {
+      v: 1,
+      id: agentId,
+      st: status,
+      r: reason,
+      at: Math.floor(this.clock.now() / 1000),
+    };
+
+    const signature = await this.sendMemo(`${STATUS_PREFIX}${JSON.stringify(compactStatus)}`);
+
+    console.log(`Status ${AttestationStatus[status]} written for ${agentId}: ${signature}`);
+    return signature;
+  }
+
+  /**
+   * Hand the oracle role over to a new key: publish the handover signed by
+   * both keys, move the old key's SOL to the new one, and sign with the new
+   * key from then on. The old key is accepted until the cutoff (default:
+   * now). The caller persists the new key and retiredOracles.
+   */
+  async rotateOracle(next: OracleSigner, options: { cutoff?: number } = {}): Promise<{ handover: KeyHandover; signature: string }> {
+    if (!this.signer) {
+      throw new Error('Oracle not initialized. Call initOracle() or generateOracle() first.');
+    }
+
+    const current = this.signer;
+    const handedOverAt = this.clock.now();
+    const handover = await signKeyHandover(current, next, handedOverAt, options.cutoff ?? handedOverAt);
+    const memo = {
+      v: 1,
+      f: handover.from,
+      t: handover.to,
+      at: Math.floor(handover.handedOverAt / 1000),
+      c: Math.floor(handover.cutoff / 1000),
+      fs: handover.fromSignature,
+      ts: handover.toSignature,
+    };
+
+    const transaction = this.buildMemoTransaction([`${KEY_HANDOVER_PREFIX}${JSON.stringify(memo)}`], [current, next]);
+    const fee = 2 * LAMPORTS_PER_SIGNATURE;
+    const balance = await this.transport.getBalance(current.publicKey);
+    if (balance > fee) {
+      transaction.add(SystemProgram.transfer({ fromPubkey: current.publicKey, toPubkey: next.publicKey, lamports: balance - fee }));
+    }
+    const signature = await this.transport.sendTransaction(transaction, [current, next]);
+
+    this.retired.push({ publicKey: handover.from, cutoff: handover.cutoff, handoverSignature: signature });
+    this.signer = next;
+    console.log(`Oracle key rotated to ${handover.to}: ${signature}`);
+    return { handover, signature };
+  }
+
+  private attestationMemo(attestation: TrustAttestation): string {
+    return `${BINARY_ATTESTATION_PREFIX}${Buffer.from(encodeAttestation(attestation)).toString('base64')}`;
+  }
+
+  private async sendMemo(memo: string): Promise<string> {
+    return this.sendMemos([memo]);
+  }
+
+  private buildMemoTransaction(memos: string[], signers: OracleSigner[] = [this.signer!]): Transaction {
+    const transaction = new Transaction({ feePayer: signers[0].publicKey });
+    for (const memo of memos) {
+      transaction.add(new TransactionInstruction({
+        keys: signers.map(signer => ({ pubkey: signer.publicKey, isSigner: true, isWritable: false })),
+        programId: MEMO_PROGRAM_ID,
+        data: Buffer.from(memo),
+      }));
+    }
+    return transaction;
+  }
+
+  private fitsInTransaction(memos: string[]): boolean {
+    const transaction = this.buildMemoTransaction(memos);
+    // Placeholder blockhash — only the serialized size matters here
+    transaction.recentBlockhash = PublicKey.default.toBase58();
+    const signatures = 1 + 64; // compact-u16 count + one ed25519 signature
+    try {
+      return transaction.serializeMessage().length + signatures <= PACKET_DATA_SIZE;
+    } catch {
+      return false; // Messages past the packet size can't even be serialized
+    }
+  }
+
+  private async sendMemos(memos: string[]): Promise<string> {
+    return this.transport.sendTransaction(this.buildMemoTransaction(memos), [this.signer!]);
+  }
+
   /**
    * Read attestations from Solana transaction history
    */
-  async readAttestations(limit: number = 20): Promise<Array<{ attestation: any; signature: string; blockTime: number }>> {
-    if (!this.oracleKeypair) {
+  async readAttestations(limit: number = 20): Promise<AttestationRecord[]> {
+    const { attestations } = await this.readTrustRecords(limit);
+    return attestations;
+  }
+
+  /**
+   * Read status changes from Solana transaction history (newest first)
+   */
+  async readStatusChanges(limit: number = 20): Promise<StatusChangeRecord[]> {
+    const { statusChanges } = await this.readTrustRecords(limit);
+    return statusChanges;
+  }
+
+  /**
+   * Read attestations and status changes in a single pass over the oracle's history
+   */
+  async readTrustRecords(limit: number = 20): Promise<{ attestations: AttestationRecord[]; statusChanges: StatusChangeRecord[] }> {
+    const { attestations, statusChanges } = await this.readTrustRecordPage({ limit });
+    return { attestations, statusChanges };
+  }
+
+  /**
+   * Read one page of trust records, paginated like getSignaturesForAddress:
+   * `before` walks back into older history, `until` stops at a known signature.
+   * `oracle` pages the history of a retired key, or of another member of the
+   * oracle set, instead of the current one.
+   * RPC failures propagate so callers never skip past unread transactions.
+   */
+  async readTrustRecordPage(options: { before?: string; until?: string; limit?: number; oracle?: string } = {}): Promise<TrustRecordPage> {
+    if (!this.signer) {
       throw new Error('Oracle not initialized.');
     }
 
-    const signatures = await this.connection.getSignaturesForAddress(
-      this.oracleKeypair.publicKey,
-      { limit },
+    const address = options.oracle ? new PublicKey(options.oracle) : this.signer.publicKey;
+    const signatures = await this.transport.getSignaturesForAddress(
+      address,
+      { before: options.before, until: options.until, limit: options.limit ?? 20 },
     );
 
-    const attestations = [];
+    const attestations: AttestationRecord[] = [];
+    const statusChanges: StatusChangeRecord[] = [];
 
     for (const sig of signatures) {
-      try {
-        const tx = await this.connection.getTransaction(sig.signature, {
-          maxSupportedTransactionVersion: 0,
+      if (sig.err) continue;
+
+      const tx = await this.transport.getTransactionLogs(sig.signature);
+      if (!tx) continue;
+
+      // Anyone can send a memo transaction that touches the oracle address;
+      // only transactions paid for (signed) by the oracle itself count
+      if (!this.isOracleKey(tx.feePayer, sig.blockTime ?? null) && !this.isSetMember(tx.feePayer, options.oracle)) continue;
+
+      const oracle = tx.feePayer;
+      const records = parseTrustLogs(tx.logMessages, oracle);
+      for (const attestation of records.attestations) {
+        // Legacy records predate payload signing; the oracle-paid transaction vouches for them
+        if (attestation.oracleSignature && !verifyAttestation(attestation, [oracle]).valid) continue;
+        if (!this.isFinal(attestation, sig.blockTime ?? null)) continue;
+        attestations.push({
+          attestation,
+          signature: sig.signature,
+          slot: sig.slot,
+          blockTime: sig.blockTime || 0,
+        });
+      }
+      for (const change of records.statusChanges) {
+        statusChanges.push({
+          change,
+          signature: sig.signature,
+          slot: sig.slot,
+          blockTime: sig.blockTime || 0,
         });
+      }
+    }
 
-        if (!tx?.meta?.logMessages) continue;
-
-        for (const log of tx.meta.logMessages) {
-          if (log.includes('MDEN_TRUST:')) {
-            const jsonStr = log.split('MDEN_TRUST:')[1];
-            if (jsonStr) {
-              try {
-                const parsed = JSON.parse(jsonStr.replace(/"/g, '"'));
-                attestations.push({
-                  attestation: parsed,
-                  signature: sig.signature,
-                  blockTime: sig.blockTime || 0,
-                });
-              } catch {}
-            }
-          }
-        }
-      } catch {}
+    return {
+      attestations,
+      statusChanges,
+      newestSignature: signatures.length > 0 ? signatures[0].signature : null,
+      oldestSignature: signatures.length > 0 ? signatures[signatures.length - 1].signature : null,
+      transactionCount: signatures.length,
+    };
+  }
+
+  /**
+   * Look up one transaction and check it as a trust record: who paid for it
+   * and whether each attestation's payload signature verifies. Null if the
+   * transaction isn't found.
+   */
+  async verifyTransaction(signature: string): Promise<TransactionVerification | null> {
+    if (!this.signer) {
+      throw new Error('Oracle not initialized.');
     }
 
-    return attestations;
+    const tx = await this.transport.getTransactionLogs(signature);
+    if (!tx) return null;
+
+    const oraclePaid = this.isOracleKey(tx.feePayer, tx.blockTime);
+    const oracle = oraclePaid ? tx.feePayer : this.signer.publicKey.toBase58();
+    const records = parseTrustLogs(tx.logMessages, oracle);
+    const attestations = records.attestations.map(attestation => {
+      const verification = attestation.oracleSignature ? verifyAttestation(attestation, [oracle]) : null;
+      return {
+        attestation,
+        verification,
+        quorum: this.quorumSet && verifyQuorum(attestation, this.quorumSet),
+        final: (verification?.valid ?? true) && this.isFinal(attestation, tx.blockTime),
+      };
+    });
+
+    const keyHandovers = records.keyHandovers.map(handover => ({ handover, errors: verifyKeyHandover(handover) }));
+
+    return {
+      signature,
+      feePayer: tx.feePayer,
+      oraclePaid,
+      attestations,
+      statusChanges: records.statusChanges,
+      keyHandovers,
+      valid: oraclePaid
+        && attestations.length + records.statusChanges.length + keyHandovers.length > 0
+        && attestations.every(a => a.final)
+        && keyHandovers.every(h => h.errors.length === 0),
+    };
+  }
+
+  /**
+   * The handover a key published, if any — how readers that trust an
+   * oracle key learn its successor. Only handovers paid for and signed by
+   * the key count, and the earliest wins.
+   */
+  async readKeyHandover(oracle: string): Promise<KeyHandoverRecord | null> {
+    let earliest: KeyHandoverRecord | null = null;
+    let before: string | undefined;
+    for (;;) {
+      const signatures = await this.transport.getSignaturesForAddress(new PublicKey(oracle), { before, limit: 1000 });
+      for (const sig of signatures) {
+        if (sig.err) continue;
+        const tx = await this.transport.getTransactionLogs(sig.signature);
+        if (!tx || tx.feePayer !== oracle) continue;
+        for (const handover of parseTrustLogs(tx.logMessages, oracle).keyHandovers) {
+          if (handover.from !== oracle || verifyKeyHandover(handover).length > 0) continue;
+          // Newest first: each match is earlier than the last
+          earliest = { handover, signature: sig.signature, slot: sig.slot, blockTime: sig.blockTime || 0 };
+        }
+      }
+      if (signatures.length < 1000) return earliest;
+      before = signatures[signatures.length - 1].signature;
+    }
   }
 
   /**
    * Get oracle balance
    */
   async getBalance(): Promise<number> {
-    if (!this.oracleKeypair) throw new Error('Oracle not initialized.');
-    const balance = await this.connection.getBalance(this.oracleKeypair.publicKey);
+    if (!this.signer) throw new Error('Oracle not initialized.');
+    const balance = await this.transport.getBalance(this.signer.publicKey);
     return balance / LAMPORTS_PER_SOL;
   }
 
@@ -176,17 +775,50 @@ export class SolanaAttestor {
    * Request devnet airdrop
    */
   async requestAirdrop(amount: number = 1): Promise<string> {
-    if (!this.oracleKeypair) throw new Error('Oracle not initialized.');
-    const sig = await this.connection.requestAirdrop(
-      this.oracleKeypair.publicKey,
-      amount * LAMPORTS_PER_SOL,
-    );
-    await this.connection.confirmTransaction(sig);
+    if (!this.signer) throw new Error('Oracle not initialized.');
+    const sig = await this.transport.requestAirdrop(this.signer.publicKey, amount * LAMPORTS_PER_SOL);
     console.log(`Airdrop of ${amount} SOL confirmed: ${sig}`);
     return sig;
   }
 
+  /**
+   * Whether a fee payer speaks for the oracle: the current key, or a retired
+   * one for transactions confirmed up to its cutoff
+   */
+  private isOracleKey(feePayer: string, blockTime: number | null): boolean {
+    if (feePayer === this.signer?.publicKey.toBase58()) return true;
+    const retired = this.retired.find(key => key.publicKey === feePayer);
+    return !!retired && isWithinCutoff(retired, blockTime);
+  }
+
+  // Another member of the oracle set, whose history was asked for
+  private isSetMember(feePayer: string, oracle: string | undefined): boolean {
+    return feePayer === oracle && !!this.quorumSet?.oracles.includes(oracle);
+  }
+
+  /**
+   * Whether readers accept an attestation under the oracle set. Records
+   * confirmed before the set took effect were written by a single oracle.
+   */
+  private isFinal(attestation: TrustAttestation, blockTime: number | null): boolean {
+    if (!this.quorumSet) return true;
+    const { activeFrom } = this.quorumSet;
+    if (activeFrom !== undefined && blockTime !== null && blockTime * 1000 < activeFrom) return true;
+    return verifyQuorum(attestation, this.quorumSet).final;
+  }
+
+  get oracleSet(): OracleSet | null {
+    return this.quorumSet;
+  }
+
   get oraclePublicKey(): string | null {
-    return this.oracleKeypair?.publicKey.toBase58() || null;
+    return this.signer?.publicKey.toBase58() || null;
+  }
+
+  /**
+   * Keys this oracle signed with before, oldest first
+   */
+  get retiredOracles(): RetiredOracleKey[] {
+    return [...this.retired];
   }
 }
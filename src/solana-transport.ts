@@ -0,0 +1,90 @@
+/**
+ * Solana Transport
+ *
+ * The slice of Solana RPC the attestor and program client use. The
+ * production implementation wraps a web3.js Connection; FakeChain
+ * (fake-chain.ts) implements the same interface in memory.
+ */
+
+import {
+  AccountInfo,
+  ConfirmedSignatureInfo,
+  Connection,
+  PublicKey,
+  SignaturesForAddressOptions,
+  Transaction,
+} from '@solana/web3.js';
+import { OracleSigner, signTransaction } from './oracle-signer';
+
+export interface TransactionLogs {
+  feePayer: string;          // First static account key (base58)
+  accountKeys: string[];     // Every account the transaction loads, fee payer first
+  logMessages: string[];
+  blockTime: number | null;  // Unix seconds
+}
+
+export interface SolanaTransport {
+  /** Sign (first signer pays), send and wait for confirmation; resolves to the transaction signature */
+  sendTransaction(transaction: Transaction, signers: OracleSigner[]): Promise<string>;
+  /** Transactions touching an address, newest first */
+  getSignaturesForAddress(address: PublicKey, options?: SignaturesForAddressOptions): Promise<ConfirmedSignatureInfo[]>;
+  /** Fee payer and program logs of a confirmed transaction (null if unknown) */
+  getTransactionLogs(signature: string): Promise<TransactionLogs | null>;
+  getAccountInfo(address: PublicKey): Promise<AccountInfo<Buffer> | null>;
+  getBalance(address: PublicKey): Promise<number>; // Lamports
+  /** Request an airdrop and wait for confirmation */
+  requestAirdrop(address: PublicKey, lamports: number): Promise<string>;
+}
+
+/**
+ * Transport over a JSON-RPC connection
+ */
+export class ConnectionTransport implements SolanaTransport {
+  readonly connection: Connection;
+
+  constructor(connection: Connection | string) {
+    this.connection = typeof connection === 'string' ? new Connection(connection, 'confirmed') : connection;
+  }
+
+  async sendTransaction(transaction: Transaction, signers: OracleSigner[]): Promise<string> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    await signTransaction(transaction, signers);
+
+    const signature = await this.connection.sendRawTransaction(transaction.serialize());
+    const { value } = await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight });
+    if (value.err) throw new Error(`Transaction ${signature} failed: ${JSON.stringify(value.err)}`);
+    return signature;
+  }
+
+  getSignaturesForAddress(address: PublicKey, options?: SignaturesForAddressOptions): Promise<ConfirmedSignatureInfo[]> {
+    return this.connection.getSignaturesForAddress(address, options);
+  }
+
+  async getTransactionLogs(signature: string): Promise<TransactionLogs | null> {
+    const tx = await this.connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 });
+    if (!tx?.meta?.logMessages) return null;
+    const { staticAccountKeys } = tx.transaction.message;
+    const loaded = tx.meta.loadedAddresses;
+    return {
+      feePayer: staticAccountKeys[0]?.toBase58() ?? '',
+      accountKeys: [...staticAccountKeys, ...(loaded?.writable ?? []), ...(loaded?.readonly ?? [])].map(key => key.toBase58()),
+      logMessages: tx.meta.logMessages,
+      blockTime: tx.blockTime ?? null,
+    };
+  }
+
+  getAccountInfo(address: PublicKey): Promise<AccountInfo<Buffer> | null> {
+    return this.connection.getAccountInfo(address);
+  }
+
+  getBalance(address: PublicKey): Promise<number> {
+    return this.connection.getBalance(address);
+  }
+
+  async requestAirdrop(address: PublicKey, lamports: number): Promise<string> {
+    const signature = await this.connection.requestAirdrop(address, lamports);
+    await this.connection.confirmTransaction(signature);
+    return signature;
+  }
+}
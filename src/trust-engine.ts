@@ -5,22 +5,13 @@
  * This is the oracle logic — takes raw platform data, outputs a 0-1000 score.
  */
 
-import { TrustAttestation, VerificationTier } from './schema';
-
-// Weight configuration
-const WEIGHTS = {
-  platformActivity: 150,
-  skillVerifications: 150,
-  endorsements: 150,
-  reviews: 150,
-  deploymentMetrics: 150,
-  onchainReputation: 100,
-  securityAudit: 100,
-  accountAge: 50,
-} as const;
-
-const DECAY_RATE_MONTHLY = 0.05; // 5% per month on activity-based components
-const DECAY_COMPONENTS = ['platformActivity', 'endorsements', 'reviews', 'deploymentMetrics'] as const;
+import { AttestationStatus, TRUST_COMPONENTS, TrustAttestation, TrustComponent, VerificationTier } from './schema';
+import { CURRENT_SCORING_MODEL, DEFAULT_SCORING_MODEL, DecayRule, ScoringModel, ScoringTerm, getScoringModel } from './scoring-model';
+import { Clock, systemClock } from './clock';
+import { DEFAULT_TIER_POLICY, TierEvaluation, TierPolicy, TierViolationError, effectiveCeiling, evaluateTier } from './verification-tiers';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MS_PER_MONTH = (365.25 / 12) * MS_PER_DAY; // Average Gregorian month
 
 export interface AgentPlatformData {
   agentId: string;
@@ -41,6 +32,11 @@ export interface AgentPlatformData {
   responseQuality: number;    // 0-100
   walletAge: number;          // Days
   txCount: number;
+  // Collected by the oracle from the wallet's history (onchain-collector.ts);
+  // terms reading a missing input earn nothing
+  counterparties?: number;    // Distinct accounts transacted with
+  failedTxRatio?: number;     // 0-1
+  flaggedInteractions?: number; // Flagged addresses transacted with
   securityAuditPassed: boolean;
   auditScore: number;         // 0-100
   accountAgeDays: number;
@@ -48,128 +44,311 @@ export interface AgentPlatformData {
   lastActivityAt: number;     // Unix timestamp
 }
 
-/**
- * Calculate individual component scores from raw platform data
- */
-function calcPlatformActivity(data: AgentPlatformData): number {
-  const messageScore = Math.min(data.denMessages / 100, 1) * 60;
-  const dmScore = Math.min(data.dmsSent / 50, 1) * 40;
-  const promptScore = Math.min(data.promptResponses / 10, 1) * 50;
-  return Math.min(Math.round(messageScore + dmScore + promptScore), WEIGHTS.platformActivity);
+export interface TermExplanation {
+  name: string;              // Sub-score, e.g. "messageScore"
+  input: string;             // Platform data field it reads
+  rawValue: number;
+  normalized: number;        // 0-1 after the normalizer
+  saturatesAt?: number;      // Input value that earns full points
+  zeroAt?: number;           // Inverse terms: input value that earns nothing
+  denominator?: { input: string; value: number };
+  points: number;            // Points earned (unrounded)
+  maxPoints: number;
+  saturated: boolean;        // Earning full points — more of this input won't help
 }
 
-function calcSkillVerifications(data: AgentPlatformData): number {
-  if (data.totalSkills === 0) return 0;
-  const ratio = data.verifiedSkills / Math.max(data.totalSkills, 1);
-  const countBonus = Math.min(data.verifiedSkills / 10, 1) * 50;
-  return Math.min(Math.round(ratio * 100 + countBonus), WEIGHTS.skillVerifications);
+export interface ComponentExplanation {
+  component: TrustComponent;
+  score: number;             // Final score, after cap and decay
+  baseScore: number;         // Score before decay (what the attestation stores)
+  maxWeight: number;
+  terms: TermExplanation[];
+  requirement?: { input: string; met: boolean };
+  capped: boolean;           // Terms summed past maxWeight
+  decays: boolean;
+  decayFactor: number;       // 1 = no decay
+  decayApplied: number;
+  hints: string[];           // What would raise this score
 }
 
-function calcEndorsements(data: AgentPlatformData): number {
-  const countScore = Math.min(data.endorsementsReceived / 20, 1) * 75;
-  const qualityScore = (data.endorserAvgTrust / 1000) * 75;
-  return Math.min(Math.round(countScore + qualityScore), WEIGHTS.endorsements);
+export interface TrustScoreExplanation {
+  attestation: TrustAttestation;
+  model: { id: string; version: number };
+  monthsInactive: number;
+  components: Record<TrustComponent, ComponentExplanation>;
+  tier: TierEvaluation & { ceilingApplied: number }; // Points the tier's scoreCeiling cut
+  hints: Array<{ component: TrustComponent; hint: string; potentialGain: number }>;
 }
 
-function calcReviews(data: AgentPlatformData): number {
-  const countScore = Math.min(data.reviewCount / 15, 1) * 75;
-  const qualityScore = (data.avgReviewScore / 5) * 75;
-  return Math.min(Math.round(countScore + qualityScore), WEIGHTS.reviews);
-}
+/**
+ * Score one term of a component: normalize the input to 0-1, scale to points
+ */
+function explainTerm(term: ScoringTerm, data: AgentPlatformData): TermExplanation {
+  const value = data[term.input] ?? 0;
+  const explanation: TermExplanation = {
+    name: term.name,
+    input: term.input,
+    rawValue: value,
+    normalized: 0,
+    points: 0,
+    maxPoints: term.points,
+    saturated: false,
+  };
+
+  if (term.normalizer.type === 'saturating') {
+    explanation.saturatesAt = term.normalizer.at;
+    explanation.normalized = Math.min(value / term.normalizer.at, 1);
+  } else if (term.normalizer.type === 'inverse') {
+    explanation.zeroAt = term.normalizer.at;
+    // A missing input isn't evidence of a clean record
+    explanation.normalized = data[term.input] === undefined ? 0 : Math.max(1 - value / term.normalizer.at, 0);
+  } else {
+    const denominator = data[term.normalizer.denominator] ?? 0;
+    explanation.denominator = { input: term.normalizer.denominator, value: denominator };
+    explanation.normalized = value / Math.max(denominator, 1);
+  }
 
-function calcDeploymentMetrics(data: AgentPlatformData): number {
-  const uptimeScore = (data.uptimePercent / 100) * 75;
-  const qualityScore = (data.responseQuality / 100) * 75;
-  return Math.min(Math.round(uptimeScore + qualityScore), WEIGHTS.deploymentMetrics);
+  explanation.points = explanation.normalized * term.points;
+  explanation.saturated = explanation.normalized >= 1;
+  return explanation;
 }
 
-function calcOnchainReputation(data: AgentPlatformData): number {
-  const ageScore = Math.min(data.walletAge / 365, 1) * 50;
-  const txScore = Math.min(data.txCount / 100, 1) * 50;
-  return Math.min(Math.round(ageScore + txScore), WEIGHTS.onchainReputation);
+function termHint(term: TermExplanation, gain: number): string {
+  if (term.denominator) {
+    return `Raise ${term.input} relative to ${term.denominator.input} ` +
+      `(${term.rawValue}/${term.denominator.value}) for up to ${gain} more points`;
+  }
+  if (term.zeroAt !== undefined) {
+    // At 0 an inverse term is full unless the input is missing
+    if (term.rawValue === 0) return `Provide ${term.input} for up to ${gain} more points`;
+    return `Lower ${term.input} (currently ${term.rawValue}, nothing at ${term.zeroAt}) for up to ${gain} more points`;
+  }
+  return `Reach ${term.saturatesAt} ${term.input} (currently ${term.rawValue}) for up to ${gain} more points`;
 }
 
-function calcSecurityAudit(data: AgentPlatformData): number {
-  if (!data.securityAuditPassed) return 0;
-  return Math.min(data.auditScore, WEIGHTS.securityAudit);
+/**
+ * Calculate a component score from raw platform data, with the reasoning
+ */
+function explainComponent(
+  key: TrustComponent,
+  model: ScoringModel,
+  data: AgentPlatformData,
+  factor: number,
+): ComponentExplanation {
+  const component = model.components[key];
+  const decays = model.decay.components.includes(key);
+  const requirementMet = !component.requires || Boolean(data[component.requires]);
+  const terms = component.terms.map(term => explainTerm(term, data));
+
+  const total = requirementMet ? terms.reduce((sum, term) => sum + term.points, 0) : 0;
+  const baseScore = Math.min(Math.round(total), component.maxWeight);
+  const score = Math.round(baseScore * factor);
+
+  const hints: string[] = [];
+  if (!requirementMet) {
+    hints.push(`Requires ${component.requires} before any of this component counts`);
+  } else if (baseScore < component.maxWeight) {
+    for (const term of terms) {
+      const gain = Math.min(Math.round(term.maxPoints - term.points), component.maxWeight - baseScore);
+      if (!term.saturated && gain > 0) hints.push(termHint(term, gain));
+    }
+  }
+  if (score < baseScore) {
+    hints.push(`Inactivity has cost ${baseScore - score} points — new activity resets decay`);
+  }
+
+  return {
+    component: key,
+    score,
+    baseScore,
+    maxWeight: component.maxWeight,
+    terms,
+    requirement: component.requires ? { input: component.requires, met: requirementMet } : undefined,
+    capped: requirementMet && total > component.maxWeight,
+    decays,
+    decayFactor: factor,
+    decayApplied: baseScore - score,
+    hints,
+  };
 }
 
-function calcAccountAge(data: AgentPlatformData): number {
-  return Math.min(Math.round(Math.min(data.accountAgeDays / 180, 1) * WEIGHTS.accountAge), WEIGHTS.accountAge);
+// Inactive time between two timestamps, at the second precision stored on-chain
+function inactiveMs(since: number, now: number): number {
+  return Math.max(Math.floor(now / 1000) - Math.floor(since / 1000), 0) * 1000;
 }
 
 /**
- * Apply time-based decay to activity components
+ * Fraction of a component's base score left after a period of inactivity.
+ * Rules may set their own monthly rate or a half-life, and a floor.
  */
-function applyDecay(score: number, lastActivityAt: number, now: number): number {
-  const monthsInactive = (now - lastActivityAt) / (30 * 24 * 60 * 60 * 1000);
-  if (monthsInactive <= 0) return score;
-  const decayFactor = Math.pow(1 - DECAY_RATE_MONTHLY, monthsInactive);
-  return Math.round(score * decayFactor);
+export function decayFactor(rule: DecayRule, defaultMonthlyRate: number, elapsedMs: number): number {
+  const factor = rule.halfLifeDays !== undefined
+    ? Math.pow(0.5, elapsedMs / (rule.halfLifeDays * MS_PER_DAY))
+    : Math.pow(1 - (rule.monthlyRate ?? defaultMonthlyRate), elapsedMs / MS_PER_MONTH);
+  return Math.max(factor, rule.floor ?? 0);
+}
+
+// Decay factor per component (1 for components the model doesn't decay)
+function componentFactors(model: ScoringModel, monthlyRate: number, elapsedMs: number): Record<TrustComponent, number> {
+  const factors = {} as Record<TrustComponent, number>;
+  for (const key of TRUST_COMPONENTS) {
+    factors[key] = model.decay.components.includes(key)
+      ? decayFactor(model.decay.rules?.[key] ?? {}, monthlyRate, elapsedMs)
+      : 1;
+  }
+  return factors;
+}
+
+// Monthly decay percentage as stored on-chain (2 decimals)
+function storedDecayRate(model: ScoringModel): number {
+  return Math.round(model.decay.monthlyRate * 10000) / 100;
+}
+
+export interface TrustScoreOptions {
+  attestedBy?: string;        // Oracle pubkey; signing sets this too
+  model?: ScoringModel;       // Defaults to moltbotden-default v2
+  tierPolicy?: TierPolicy;    // Defaults to DEFAULT_TIER_POLICY
+  requireTier?: boolean;      // Throw TierViolationError unless the claimed tier's rules are met
+  now?: number;               // Attestation time (default: the clock's current time)
+  clock?: Clock;              // Default: system clock
 }
 
 /**
- * Calculate full trust attestation from platform data
+ * Calculate a trust attestation and explain every component: raw inputs,
+ * sub-scores, caps hit, decay applied and what would raise the score
  */
-export function calculateTrustScore(data: AgentPlatformData): TrustAttestation {
-  const now = Date.now();
-  
-  const components = {
-    platformActivity: calcPlatformActivity(data),
-    skillVerifications: calcSkillVerifications(data),
-    endorsements: calcEndorsements(data),
-    reviews: calcReviews(data),
-    deploymentMetrics: calcDeploymentMetrics(data),
-    onchainReputation: calcOnchainReputation(data),
-    securityAudit: calcSecurityAudit(data),
-    accountAge: calcAccountAge(data),
-  };
+export function explainTrustScore(data: AgentPlatformData, options: TrustScoreOptions = {}): TrustScoreExplanation {
+  const now = options.now ?? (options.clock ?? systemClock).now();
+  const model = options.model ?? CURRENT_SCORING_MODEL;
+  const decayRate = storedDecayRate(model);
+
+  // Components are stored before decay; the composite is decayed as of now
+  const elapsed = inactiveMs(data.lastActivityAt, now);
+  const factors = componentFactors(model, decayRate / 100, elapsed);
 
-  // Apply decay to activity-based components
-  const decayed = { ...components };
-  for (const key of DECAY_COMPONENTS) {
-    decayed[key] = applyDecay(components[key], data.lastActivityAt, now);
+  const components = {} as Record<TrustComponent, ComponentExplanation>;
+  const baseScores = {} as Record<TrustComponent, number>;
+  for (const key of TRUST_COMPONENTS) {
+    components[key] = explainComponent(key, model, data, factors[key]);
+    baseScores[key] = components[key].baseScore;
   }
 
-  const trustScore = Object.values(decayed).reduce((sum, v) => sum + v, 0);
+  const tier = evaluateTier(data, baseScores, options.tierPolicy ?? DEFAULT_TIER_POLICY, now);
+  if (options.requireTier && tier.violations.length > 0) throw new TierViolationError(tier.claimed, tier.violations);
 
-  return {
+  const total = TRUST_COMPONENTS.reduce((sum, key) => sum + components[key].score, 0);
+  const trustScore = Math.min(total, tier.scoreCeiling ?? total);
+
+  const attestation: TrustAttestation = {
     agentId: data.agentId,
     agentName: data.agentName,
     solanaWallet: data.solanaWallet,
     trustScore,
-    ...decayed,
+    ...baseScores,
     verificationTier: data.verificationTier,
+    ...(tier.expiresAt !== undefined ? { tierExpiresAt: tier.expiresAt } : {}),
+    ...(tier.scoreCeiling !== undefined ? { scoreCeiling: tier.scoreCeiling } : {}),
+    ...(tier.lapsedCeiling !== undefined ? { lapsedCeiling: tier.lapsedCeiling } : {}),
+    status: AttestationStatus.ACTIVE,
     attestedAt: now,
-    attestedBy: 'moltbotden-oracle',
+    attestedBy: options.attestedBy ?? 'moltbotden-oracle',
     version: 1,
     lastActivityAt: data.lastActivityAt,
-    decayRate: DECAY_RATE_MONTHLY * 100,
+    decayRate,
+    modelId: model.id,
+    modelVersion: model.version,
+    baseComponents: true,
+  };
+
+  // Biggest opportunities first
+  const hints = TRUST_COMPONENTS
+    .map(key => ({
+      component: key,
+      hint: components[key].hints.join('; '),
+      potentialGain: model.components[key].maxWeight - components[key].score,
+    }))
+    .filter(h => h.hint && h.potentialGain > 0)
+    .sort((a, b) => b.potentialGain - a.potentialGain);
+
+  return {
+    attestation,
+    model: { id: model.id, version: model.version },
+    monthsInactive: elapsed / MS_PER_MONTH,
+    components,
+    tier: { ...tier, ceilingApplied: total - trustScore },
+    hints,
+  };
+}
+
+/**
+ * Calculate full trust attestation from platform data
+ */
+export function calculateTrustScore(data: AgentPlatformData, options: TrustScoreOptions = {}): TrustAttestation {
+  return explainTrustScore(data, options).attestation;
+}
+
+/**
+ * Component scores of an attestation after decay as of now. Uses the
+ * attestation's own decayRate, with the model's per-component rules.
+ */
+export function decayedComponents(attestation: TrustAttestation, now: number = systemClock.now()): Record<TrustComponent, number> {
+  const model = getScoringModel(attestation.modelId, attestation.modelVersion) ?? DEFAULT_SCORING_MODEL;
+  // Legacy records stored components already decayed as of attestedAt
+  const since = attestation.baseComponents
+    ? attestation.lastActivityAt
+    : Math.max(attestation.attestedAt, attestation.lastActivityAt);
+  const factors = componentFactors(model, attestation.decayRate / 100, inactiveMs(since, now));
+
+  const components = {} as Record<TrustComponent, number>;
+  for (const key of TRUST_COMPONENTS) {
+    components[key] = Math.round(attestation[key] * factors[key]);
+  }
+  return components;
+}
+
+// A composite held to the ceiling of the tier the attestation carries as of now
+function withinCeiling(attestation: TrustAttestation, now: number, score: number): number {
+  return Math.min(score, effectiveCeiling(attestation, now) ?? score);
+}
+
+/**
+ * Carry an attestation's decay forward to now, as a new unsigned attestation
+ * of the same activity data
+ */
+export function decayAttestation(attestation: TrustAttestation, now: number = systemClock.now()): TrustAttestation {
+  const components = decayedComponents(attestation, now);
+  return {
+    ...attestation,
+    // Base components carry over as-is; legacy ones are replaced by their decayed values
+    ...(attestation.baseComponents ? {} : components),
+    trustScore: withinCeiling(attestation, now, TRUST_COMPONENTS.reduce((sum, key) => sum + components[key], 0)),
+    attestedAt: now,
+    payloadHash: undefined,
+    oracleSignature: undefined,
+    coSignatures: undefined,
+    previousSignature: undefined,
+    correctsSignature: undefined,
   };
 }
 
 /**
  * Get current score with decay applied (for queries)
  */
-export function getCurrentScore(attestation: TrustAttestation): { currentScore: number; decayApplied: number } {
-  const now = Date.now();
-  const monthsInactive = (now - attestation.lastActivityAt) / (30 * 24 * 60 * 60 * 1000);
-  
-  if (monthsInactive <= 0) {
-    return { currentScore: attestation.trustScore, decayApplied: 0 };
+export function getCurrentScore(
+  attestation: TrustAttestation,
+  now: number = systemClock.now(),
+): { currentScore: number; decayApplied: number } {
+  // Suspended and revoked agents carry no trust, whatever they last scored
+  if (attestation.status !== AttestationStatus.ACTIVE) {
+    return { currentScore: 0, decayApplied: 0 };
   }
 
-  // Recalculate with decay on activity components
-  const decayFactor = Math.pow(1 - DECAY_RATE_MONTHLY, monthsInactive);
-  const activityComponents = attestation.platformActivity + attestation.endorsements + 
-    attestation.reviews + attestation.deploymentMetrics;
-  const stableComponents = attestation.trustScore - activityComponents;
-  
-  const decayedActivity = Math.round(activityComponents * decayFactor);
-  const currentScore = stableComponents + decayedActivity;
-  
+  const components = decayedComponents(attestation, now);
+  const currentScore = withinCeiling(attestation, now, TRUST_COMPONENTS.reduce((sum, key) => sum + components[key], 0));
+  const undecayed = withinCeiling(attestation, now, TRUST_COMPONENTS.reduce((sum, key) => sum + attestation[key], 0));
+
   return {
     currentScore,
-    decayApplied: attestation.trustScore - currentScore,
+    decayApplied: undecayed - currentScore,
   };
 }
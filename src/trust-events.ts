@@ -0,0 +1,266 @@
+/**
+ * Trust Events
+ *
+ * Turns index updates into change notifications. The monitor caches each
+ * agent's last published trust (current score, tier, status) and, whenever
+ * the index is refreshed, compares against it: a new attestation, a status
+ * record, or decay alone moving the current score is a change.
+ *
+ * Each subscriber (webhook or SSE stream) sees the events a change implies
+ * for its own filter — thresholds and minimum score are per subscriber.
+ *
+ * Recent changes are kept in a JSONL file, so sequence numbers carry on
+ * across restarts and streams resume from Last-Event-ID after one.
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AttestationStore } from './attestation-store';
+import { getCurrentScore } from './trust-engine';
+import { effectiveTier } from './verification-tiers';
+import { AttestationStatus, VerificationTier } from './schema';
+import { IssueCollector, ValidationError } from './validation';
+import { Clock, systemClock } from './clock';
+
+export const TRUST_EVENT_TYPES = [
+  'attested',
+  'revoked',
+  'suspended',
+  'reinstated',
+  'tier_changed',
+  'threshold_crossed',
+  'below_minimum',
+] as const;
+
+export type TrustEventType = typeof TRUST_EVENT_TYPES[number];
+
+export interface TrustSnapshot {
+  agentId: string;
+  solanaWallet: string;
+  currentScore: number;      // After decay and status, when the snapshot was taken
+  trustScore: number;        // As attested
+  verificationTier: VerificationTier; // Effective: a lapsed tier counts as BASIC
+  status: AttestationStatus;
+  signature: string;         // Latest attestation transaction
+  statusSignature?: string;  // Latest status record transaction
+}
+
+export interface TrustChange {
+  seq: number;               // Monotonic, for stream resumption
+  at: number;                // Unix timestamp (ms)
+  cause: 'attested' | 'status' | 'decay';
+  previous: TrustSnapshot | null; // null the first time an agent is seen
+  current: TrustSnapshot;
+}
+
+export interface TrustEvent {
+  id: string;                // "<change seq>-<index>"
+  type: TrustEventType;
+  agentId: string;
+  at: number;
+  data: Record<string, unknown>;
+}
+
+export interface TrustSubscription {
+  events?: TrustEventType[]; // Default: all
+  agentIds?: string[];       // Default: all agents
+  thresholds?: number[];     // Emit threshold_crossed when the current score crosses these
+  minScore?: number;         // Emit below_minimum when the current score drops under this
+}
+
+const STATUS_EVENTS: Record<AttestationStatus, TrustEventType> = {
+  [AttestationStatus.ACTIVE]: 'reinstated',
+  [AttestationStatus.SUSPENDED]: 'suspended',
+  [AttestationStatus.REVOKED]: 'revoked',
+};
+
+/**
+ * Read a subscription from a JSON body or query params (lists may be
+ * arrays or comma-separated strings)
+ */
+export function parseSubscription(input: Record<string, unknown>): TrustSubscription {
+  const issues = new IssueCollector();
+  const list = (key: string): string[] | undefined => {
+    const value = input[key];
+    if (value === undefined || value === null || value === '') return undefined;
+    if (Array.isArray(value)) return value.map(String);
+    return String(value).split(',').map(v => v.trim()).filter(Boolean);
+  };
+
+  const subscription: TrustSubscription = {};
+  const events = list('events');
+  if (events) {
+    const unknown = events.filter(e => !(TRUST_EVENT_TYPES as readonly string[]).includes(e));
+    if (unknown.length > 0) issues.add('events', 'invalid_value', `unknown event types: ${unknown.join(', ')}`);
+    subscription.events = events as TrustEventType[];
+  }
+  subscription.agentIds = list('agentIds') ?? list('agentId');
+
+  const thresholds = list('thresholds');
+  if (thresholds) {
+    subscription.thresholds = thresholds.map(Number);
+    if (subscription.thresholds.some(t => !Number.isFinite(t) || t < 0 || t > 1000)) {
+      issues.add('thresholds', 'out_of_range', 'must be scores between 0 and 1000');
+    }
+  }
+  if (input.minScore !== undefined && input.minScore !== '') {
+    subscription.minScore = issues.number({ minScore: Number(input.minScore) }, 'minScore', 0, 1000);
+  }
+
+  if (issues.issues.length > 0) throw new ValidationError(issues.issues);
+  return subscription;
+}
+
+/**
+ * Events a change implies for one subscriber
+ */
+export function deriveEvents(change: TrustChange, subscription: TrustSubscription = {}): TrustEvent[] {
+  const { previous, current } = change;
+  if (subscription.agentIds && !subscription.agentIds.includes(current.agentId)) return [];
+
+  const events: Array<Omit<TrustEvent, 'id' | 'agentId' | 'at'>> = [];
+  const scores = { previousScore: previous?.currentScore ?? null, currentScore: current.currentScore };
+
+  if (change.cause === 'attested') {
+    events.push({ type: 'attested', data: { ...scores, trustScore: current.trustScore, signature: current.signature } });
+  }
+  if (previous && previous.status !== current.status) {
+    events.push({
+      type: STATUS_EVENTS[current.status],
+      data: { previousStatus: previous.status, status: current.status, signature: current.statusSignature },
+    });
+  }
+  if (previous && previous.verificationTier !== current.verificationTier) {
+    events.push({
+      type: 'tier_changed',
+      data: { previousTier: previous.verificationTier, verificationTier: current.verificationTier },
+    });
+  }
+  if (previous) {
+    for (const threshold of subscription.thresholds ?? []) {
+      const wasAbove = previous.currentScore >= threshold;
+      const isAbove = current.currentScore >= threshold;
+      if (wasAbove !== isAbove) {
+        events.push({ type: 'threshold_crossed', data: { ...scores, threshold, direction: isAbove ? 'up' : 'down' } });
+      }
+    }
+  }
+  const minScore = subscription.minScore;
+  if (minScore !== undefined && previous && previous.currentScore >= minScore && current.currentScore < minScore) {
+    events.push({ type: 'below_minimum', data: { ...scores, minScore, cause: change.cause } });
+  }
+
+  return events
+    .filter(event => !subscription.events || subscription.events.includes(event.type))
+    .map((event, i) => ({ id: `${change.seq}-${i}`, agentId: current.agentId, at: change.at, ...event }));
+}
+
+/**
+ * Caches the last published trust per agent and emits 'change' with a
+ * TrustChange whenever a refresh finds it different. Without a file, change
+ * history lives in memory only.
+ */
+export class TrustMonitor extends EventEmitter {
+  private snapshots = new Map<string, TrustSnapshot>();
+  private history: TrustChange[] = [];
+  private seq = 0;
+  private fileLines = 0;
+
+  constructor(private historySize = 1000, private clock: Clock = systemClock, private filePath?: string) {
+    super();
+    this.setMaxListeners(0); // One listener per open event stream
+    this.load();
+  }
+
+  /**
+   * Compare the store's view of these agents (all if omitted) with the cache.
+   * With emit false the cache is only primed — used on startup so existing
+   * agents aren't announced as new.
+   */
+  refresh(store: AttestationStore, agentIds?: string[], options: { emit?: boolean } = {}): TrustChange[] {
+    const emit = options.emit ?? true;
+    const ids = agentIds ?? store.latestAll().map(r => r.attestation.agentId);
+    const changes: TrustChange[] = [];
+
+    for (const agentId of ids) {
+      const current = this.snapshotOf(store, agentId);
+      if (!current) continue;
+      const previous = this.snapshots.get(agentId) ?? null;
+      this.snapshots.set(agentId, current);
+      if (!emit) continue;
+
+      let cause: TrustChange['cause'];
+      if (!previous || previous.signature !== current.signature) cause = 'attested';
+      else if (previous.statusSignature !== current.statusSignature) cause = 'status';
+      // Time alone lowers scores and lapses tiers
+      else if (previous.currentScore !== current.currentScore || previous.verificationTier !== current.verificationTier) cause = 'decay';
+      else continue;
+
+      const change: TrustChange = { seq: ++this.seq, at: this.clock.now(), cause, previous, current };
+      this.record(change);
+      changes.push(change);
+      this.emit('change', change);
+    }
+    return changes;
+  }
+
+  get(agentId: string): TrustSnapshot | undefined {
+    return this.snapshots.get(agentId);
+  }
+
+  /**
+   * Changes after a sequence number (for resuming a stream), oldest first
+   */
+  since(seq: number): TrustChange[] {
+    return this.history.filter(change => change.seq > seq);
+  }
+
+  private record(change: TrustChange): void {
+    this.history.push(change);
+    if (this.history.length > this.historySize) this.history.shift();
+    if (!this.filePath) return;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Rewrite the file down to the kept history once it holds twice as much
+    if (this.fileLines >= 2 * this.historySize) {
+      fs.writeFileSync(this.filePath, this.history.map(c => JSON.stringify(c) + '\n').join(''));
+      this.fileLines = this.history.length;
+    } else {
+      fs.appendFileSync(this.filePath, JSON.stringify(change) + '\n');
+      this.fileLines++;
+    }
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+    for (const raw of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!raw.trim()) continue;
+      try {
+        const change: TrustChange = JSON.parse(raw);
+        this.history.push(change);
+        this.seq = Math.max(this.seq, change.seq);
+        this.fileLines++;
+      } catch {} // Torn final line from an interrupted write
+    }
+    this.history = this.history.slice(-this.historySize);
+  }
+
+  private snapshotOf(store: AttestationStore, agentId: string): TrustSnapshot | null {
+    const record = store.latest(agentId);
+    if (!record) return null;
+    const latestStatus = store.latestStatus(agentId);
+    const status = latestStatus?.change.status ?? AttestationStatus.ACTIVE;
+    const { currentScore } = getCurrentScore({ ...record.attestation, status }, this.clock.now());
+    return {
+      agentId,
+      solanaWallet: record.attestation.solanaWallet,
+      currentScore,
+      trustScore: record.attestation.trustScore,
+      verificationTier: effectiveTier(record.attestation, this.clock.now()),
+      status,
+      signature: record.signature,
+      statusSignature: latestStatus?.signature,
+    };
+  }
+}
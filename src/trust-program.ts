@@ -0,0 +1,282 @@
+/**
+ * Trust Program Client
+ *
+ * TypeScript client for the account-based trust program (Anchor conventions):
+ * one PDA per agent, read with a single getAccountInfo instead of scraping
+ * transaction logs.
+ *
+ * Accounts:
+ * - Config   ["config"]                  — oracle authority
+ * - Agent    ["agent", sha256(agentId)]  — agentId ↔ wallet binding
+ * - Trust    ["trust", wallet]           — latest attestation + lifecycle status
+ *
+ * Instructions: register_agent, attest_trust, query_trust (returns the trust
+ * account via return data, for CPI), revoke_trust.
+ */
+
+import * as crypto from 'crypto';
+import * as borsh from 'borsh';
+import {
+  AccountInfo,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { SolanaTransport } from './solana-transport';
+import {
+  ATTESTATION_FIELDS,
+  AttestationStatus,
+  TrustAttestation,
+  fromAttestationFields,
+  toAttestationFields,
+} from './schema';
+import { hashAttestation } from './attestation-signing';
+
+export const TRUST_PROGRAM_ID = new PublicKey('4j9Fz3hLnUw7zHV6NMB5qiHnwAtXVBeBB6eNy6TVA4Qc');
+
+const PUBKEY: borsh.Schema = { array: { type: 'u8', len: 32 } };
+
+const CONFIG_LAYOUT: borsh.Schema = {
+  struct: { bump: 'u8', oracle: PUBKEY },
+};
+
+const AGENT_LAYOUT: borsh.Schema = {
+  struct: { bump: 'u8', agentId: 'string', wallet: PUBKEY, registeredAt: 'i64' },
+};
+
+const TRUST_LAYOUT: borsh.Schema = {
+  struct: {
+    bump: 'u8',
+    oracle: PUBKEY,
+    status: 'u8',
+    revocationReason: 'string',
+    ...ATTESTATION_FIELDS,
+  },
+};
+
+export interface AgentAccount {
+  address: string;
+  bump: number;
+  agentId: string;
+  wallet: string;
+  registeredAt: number;      // Unix timestamp (ms)
+}
+
+export interface TrustAccount {
+  address: string;
+  bump: number;
+  attestation: TrustAttestation;
+}
+
+/**
+ * Anchor discriminators: first 8 bytes of sha256("global:<ix>") / sha256("account:<Name>")
+ */
+function discriminator(preimage: string): Buffer {
+  return crypto.createHash('sha256').update(preimage).digest().subarray(0, 8);
+}
+
+const IX = {
+  registerAgent: discriminator('global:register_agent'),
+  attestTrust: discriminator('global:attest_trust'),
+  queryTrust: discriminator('global:query_trust'),
+  revokeTrust: discriminator('global:revoke_trust'),
+};
+
+const ACCOUNT = {
+  config: discriminator('account:TrustConfig'),
+  agent: discriminator('account:AgentAccount'),
+  trust: discriminator('account:TrustAccount'),
+};
+
+function withDiscriminator(tag: Buffer, schema: borsh.Schema, value: unknown): Buffer {
+  return Buffer.concat([tag, Buffer.from(borsh.serialize(schema, value))]);
+}
+
+function stripDiscriminator(tag: Buffer, data: Uint8Array, name: string): Uint8Array {
+  if (data.length < 8 || !Buffer.from(data.subarray(0, 8)).equals(tag)) {
+    throw new Error(`Account data is not a ${name}`);
+  }
+  return data.subarray(8);
+}
+
+function toPublicKey(key: string | PublicKey): PublicKey {
+  return typeof key === 'string' ? new PublicKey(key) : key;
+}
+
+/**
+ * Decode a trust account (with its discriminator) into an attestation
+ */
+export function decodeTrustAccount(data: Uint8Array, address: string): TrustAccount {
+  const raw = borsh.deserialize(TRUST_LAYOUT, stripDiscriminator(ACCOUNT.trust, data, 'TrustAccount')) as any;
+  const oracle = new PublicKey(Uint8Array.from(raw.oracle)).toBase58();
+  const attestation = fromAttestationFields(raw, oracle);
+  attestation.status = raw.status;
+  if (raw.status !== AttestationStatus.ACTIVE) attestation.revocationReason = raw.revocationReason;
+  // The hash isn't stored; recompute it so the oracle signature can be verified
+  if (attestation.oracleSignature) attestation.payloadHash = hashAttestation(attestation);
+  return { address, bump: raw.bump, attestation };
+}
+
+/**
+ * Encode a trust account as the program stores it (used by local stand-ins)
+ */
+export function encodeTrustAccount(attestation: TrustAttestation, bump: number): Buffer {
+  return withDiscriminator(ACCOUNT.trust, TRUST_LAYOUT, {
+    bump,
+    oracle: new PublicKey(attestation.attestedBy).toBytes(),
+    status: attestation.status,
+    revocationReason: attestation.revocationReason ?? '',
+    ...toAttestationFields(attestation),
+  });
+}
+
+export function decodeAgentAccount(data: Uint8Array, address: string): AgentAccount {
+  const raw = borsh.deserialize(AGENT_LAYOUT, stripDiscriminator(ACCOUNT.agent, data, 'AgentAccount')) as any;
+  return {
+    address,
+    bump: raw.bump,
+    agentId: raw.agentId,
+    wallet: new PublicKey(Uint8Array.from(raw.wallet)).toBase58(),
+    registeredAt: Number(raw.registeredAt) * 1000,
+  };
+}
+
+export function encodeAgentAccount(account: Omit<AgentAccount, 'address'>): Buffer {
+  return withDiscriminator(ACCOUNT.agent, AGENT_LAYOUT, {
+    bump: account.bump,
+    agentId: account.agentId,
+    wallet: new PublicKey(account.wallet).toBytes(),
+    registeredAt: Math.floor(account.registeredAt / 1000),
+  });
+}
+
+export function decodeConfigAccount(data: Uint8Array): { bump: number; oracle: string } {
+  const raw = borsh.deserialize(CONFIG_LAYOUT, stripDiscriminator(ACCOUNT.config, data, 'TrustConfig')) as any;
+  return { bump: raw.bump, oracle: new PublicKey(Uint8Array.from(raw.oracle)).toBase58() };
+}
+
+export class TrustProgramClient {
+  constructor(
+    private connection: Pick<SolanaTransport, 'getAccountInfo'>, // A Connection also fits
+    readonly programId: PublicKey = TRUST_PROGRAM_ID,
+  ) {}
+
+  findConfigAddress(): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync([Buffer.from('config')], this.programId);
+  }
+
+  /**
+   * Agent ids can exceed the 32-byte seed limit, so the seed is their sha256
+   */
+  findAgentAddress(agentId: string): [PublicKey, number] {
+    const idHash = crypto.createHash('sha256').update(agentId).digest();
+    return PublicKey.findProgramAddressSync([Buffer.from('agent'), idHash], this.programId);
+  }
+
+  findTrustAddress(wallet: string | PublicKey): [PublicKey, number] {
+    return PublicKey.findProgramAddressSync([Buffer.from('trust'), toPublicKey(wallet).toBuffer()], this.programId);
+  }
+
+  /**
+   * register_agent(agent_id) — signed by the agent's wallet, which pays for the account
+   */
+  registerAgentInstruction(agentId: string, wallet: string | PublicKey): TransactionInstruction {
+    const [agent] = this.findAgentAddress(agentId);
+    return new TransactionInstruction({
+      programId: this.programId,
+      keys: [
+        { pubkey: agent, isSigner: false, isWritable: true },
+        { pubkey: toPublicKey(wallet), isSigner: true, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      ],
+      data: withDiscriminator(IX.registerAgent, { struct: { agentId: 'string' } }, { agentId }),
+    });
+  }
+
+  /**
+   * attest_trust(attestation) — oracle writes/updates the agent's trust account
+   */
+  attestTrustInstruction(attestation: TrustAttestation, oracle: string | PublicKey): TransactionInstruction {
+    const [config] = this.findConfigAddress();
+    const [agent] = this.findAgentAddress(attestation.agentId);
+    const [trust] = this.findTrustAddress(attestation.solanaWallet);
+    return new TransactionInstruction({
+      programId: this.programId,
+      keys: [
+        { pubkey: config, isSigner: false, isWritable: false },
+        { pubkey: agent, isSigner: false, isWritable: false },
+        { pubkey: trust, isSigner: false, isWritable: true },
+        { pubkey: toPublicKey(oracle), isSigner: true, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      ],
+      data: withDiscriminator(IX.attestTrust, { struct: ATTESTATION_FIELDS }, toAttestationFields(attestation)),
+    });
+  }
+
+  /**
+   * query_trust() — returns the trust account data as return data (for CPI callers)
+   */
+  queryTrustInstruction(wallet: string | PublicKey): TransactionInstruction {
+    const [trust] = this.findTrustAddress(wallet);
+    return new TransactionInstruction({
+      programId: this.programId,
+      keys: [{ pubkey: trust, isSigner: false, isWritable: false }],
+      data: IX.queryTrust,
+    });
+  }
+
+  /**
+   * revoke_trust(status, reason) — suspend, revoke or reinstate an agent
+   */
+  revokeTrustInstruction(
+    wallet: string | PublicKey,
+    oracle: string | PublicKey,
+    reason: string,
+    status: AttestationStatus = AttestationStatus.REVOKED,
+  ): TransactionInstruction {
+    const [config] = this.findConfigAddress();
+    const [trust] = this.findTrustAddress(wallet);
+    return new TransactionInstruction({
+      programId: this.programId,
+      keys: [
+        { pubkey: config, isSigner: false, isWritable: false },
+        { pubkey: trust, isSigner: false, isWritable: true },
+        { pubkey: toPublicKey(oracle), isSigner: true, isWritable: false },
+      ],
+      data: withDiscriminator(IX.revokeTrust, { struct: { status: 'u8', reason: 'string' } }, { status, reason }),
+    });
+  }
+
+  async getConfig(): Promise<{ bump: number; oracle: string } | null> {
+    const [address] = this.findConfigAddress();
+    const info = await this.ownedAccount(address);
+    return info ? decodeConfigAccount(info.data) : null;
+  }
+
+  async getAgentAccount(agentId: string): Promise<AgentAccount | null> {
+    const [address] = this.findAgentAddress(agentId);
+    const info = await this.ownedAccount(address);
+    return info ? decodeAgentAccount(info.data, address.toBase58()) : null;
+  }
+
+  async getTrustAccount(wallet: string | PublicKey): Promise<TrustAccount | null> {
+    const [address] = this.findTrustAddress(wallet);
+    const info = await this.ownedAccount(address);
+    return info ? decodeTrustAccount(info.data, address.toBase58()) : null;
+  }
+
+  /**
+   * Resolve agentId → registered wallet → trust account
+   */
+  async queryTrust(agentId: string): Promise<TrustAccount | null> {
+    const agent = await this.getAgentAccount(agentId);
+    return agent ? this.getTrustAccount(agent.wallet) : null;
+  }
+
+  // Accounts not owned by the program are never trusted, whatever their data says
+  private async ownedAccount(address: PublicKey): Promise<AccountInfo<Buffer> | null> {
+    const info = await this.connection.getAccountInfo(address);
+    if (!info || !info.owner.equals(this.programId)) return null;
+    return info;
+  }
+}
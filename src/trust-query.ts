@@ -0,0 +1,219 @@
+/**
+ * Trust Query
+ *
+ * Filters, sorts and paginates indexed attestations for a TrustQuery.
+ * Scores are compared after decay, as of the moment the query runs.
+ * Also builds per-agent score timelines from the attestation history.
+ */
+
+import { AttestationStore } from './attestation-store';
+import { AttestationRecord } from './solana-attestor';
+import { getCurrentScore } from './trust-engine';
+import { effectiveTier } from './verification-tiers';
+import { DisputeStore, disputeNotice } from './dispute-store';
+import { IssueCollector, ValidationError, ValidationIssue } from './validation';
+import {
+  TRUST_COMPONENTS,
+  TrustComponent,
+  TrustQuery,
+  TrustQueryResult,
+  VerificationTier,
+} from './schema';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const SORT_FIELDS = ['currentScore', 'trustScore', 'attestedAt'] as const;
+
+export class TrustQueryError extends ValidationError {
+  constructor(issues: ValidationIssue[]) {
+    super(issues);
+    this.name = 'TrustQueryError';
+  }
+}
+
+export interface TrustQueryPage {
+  results: TrustQueryResult[];
+  total: number;             // Matches before pagination
+  limit: number;
+  offset: number;
+  queryTimestamp: number;
+}
+
+/**
+ * Normalize a TrustQuery from a JSON body or URL search params.
+ * Tiers may be given by number or by name (e.g. "AUDITED").
+ */
+export function parseTrustQuery(input: Record<string, unknown>): TrustQuery {
+  const query: TrustQuery = {};
+  const issues = new IssueCollector();
+
+  const str = (key: string) => {
+    const value = input[key];
+    if (value === undefined || value === null || value === '') return undefined;
+    return String(value);
+  };
+  // Query params arrive as strings; coerce before range-checking
+  const num = (key: string, min: number, max?: number) => {
+    const value = str(key);
+    if (value === undefined) return undefined;
+    return issues.number({ [key]: Number(value) }, key, min, max, true);
+  };
+
+  query.agentId = str('agentId');
+  query.solanaWallet = str('solanaWallet') ?? str('wallet');
+  query.minScore = num('minScore', 0, 1000);
+
+  const tier = str('verificationTier') ?? str('tier');
+  if (tier !== undefined) {
+    const byName = VerificationTier[tier.toUpperCase() as keyof typeof VerificationTier];
+    const value = byName ?? Number(tier);
+    if (VerificationTier[value] === undefined) {
+      issues.add('verificationTier', 'invalid_value', `unknown verification tier: ${tier}`);
+    } else {
+      query.verificationTier = value;
+    }
+  }
+
+  const sortBy = str('sortBy');
+  if (sortBy !== undefined) {
+    if (!(SORT_FIELDS as readonly string[]).includes(sortBy)) {
+      issues.add('sortBy', 'invalid_value', `must be one of ${SORT_FIELDS.join(', ')}`);
+    } else {
+      query.sortBy = sortBy as TrustQuery['sortBy'];
+    }
+  }
+
+  const order = str('order');
+  if (order !== undefined) {
+    if (order !== 'asc' && order !== 'desc') issues.add('order', 'invalid_value', 'must be asc or desc');
+    else query.order = order;
+  }
+
+  query.limit = num('limit', 1);
+  query.offset = num('offset', 0);
+
+  if (issues.issues.length > 0) throw new TrustQueryError(issues.issues);
+  return query;
+}
+
+/**
+ * Run a query against the local index. Suspended and revoked agents are
+ * included with a current score of 0, so minScore filters them out. With a
+ * dispute store, results flag agents with an open dispute.
+ */
+export function executeTrustQuery(
+  store: AttestationStore,
+  query: TrustQuery,
+  now = Date.now(),
+  disputes?: DisputeStore,
+): TrustQueryPage {
+
+  let candidates: AttestationRecord[];
+  if (query.agentId || query.solanaWallet) {
+    const byId = query.agentId ? store.latest(query.agentId) : null;
+    const byWallet = query.solanaWallet ? store.latestByWallet(query.solanaWallet) : null;
+    // When both are given they must refer to the same agent
+    const match = query.agentId && query.solanaWallet
+      ? (byId && byId === byWallet ? byId : null)
+      : (byId ?? byWallet);
+    candidates = match ? [match] : [];
+  } else {
+    candidates = store.latestAll();
+  }
+
+  const results: TrustQueryResult[] = [];
+  for (const record of candidates) {
+    const latestStatus = store.latestStatus(record.attestation.agentId);
+    const attestation = latestStatus
+      ? { ...record.attestation, status: latestStatus.change.status, revocationReason: latestStatus.change.reason }
+      : record.attestation;
+    const { currentScore, decayApplied } = getCurrentScore(attestation, now);
+    const dispute = disputes?.openFor(attestation.agentId);
+
+    if (query.minScore !== undefined && currentScore < query.minScore) continue;
+    // A lapsed tier no longer counts for the filter
+    if (query.verificationTier !== undefined && effectiveTier(attestation, now) < query.verificationTier) continue;
+
+    results.push({
+      attestation,
+      found: true,
+      currentScore,
+      decayApplied,
+      queryTimestamp: now,
+      signature: record.signature,
+      ...(dispute ? { dispute: disputeNotice(dispute) } : {}),
+    });
+  }
+
+  const sortBy = query.sortBy ?? 'currentScore';
+  const direction = query.order === 'asc' ? 1 : -1;
+  const sortValue = (r: TrustQueryResult) =>
+    sortBy === 'currentScore' ? r.currentScore : r.attestation![sortBy];
+  results.sort((a, b) => direction * (sortValue(a) - sortValue(b)));
+
+  const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_LIMIT), 1), MAX_LIMIT);
+  const offset = Math.max(Math.floor(query.offset ?? 0), 0);
+
+  return {
+    results: results.slice(offset, offset + limit),
+    total: results.length,
+    limit,
+    offset,
+    queryTimestamp: now,
+  };
+}
+
+export interface TrustHistoryEntry {
+  version: number;
+  signature: string;
+  previousSignature: string | null;
+  correctsSignature?: string; // Disputed attestation this version corrects
+  attestedAt: number;
+  blockTime: number;
+  trustScore: number;
+  verificationTier: VerificationTier;
+  components: Record<TrustComponent, number>;
+  deltas: Record<TrustComponent | 'trustScore', number>; // Change from the previous version
+}
+
+/**
+ * Score timeline for an agent, oldest first, with per-component deltas.
+ * Accepts records in any order (e.g. AttestationStore.history()).
+ */
+export function buildTrustHistory(records: AttestationRecord[]): TrustHistoryEntry[] {
+  const ordered = [...records].sort((a, b) =>
+    (a.attestation.version - b.attestation.version) || (a.slot - b.slot));
+
+  const timeline: TrustHistoryEntry[] = [];
+  let previous: AttestationRecord | null = null;
+
+  for (const record of ordered) {
+    const { attestation } = record;
+    const components = {} as Record<TrustComponent, number>;
+    const deltas = {
+      trustScore: attestation.trustScore - (previous?.attestation.trustScore ?? 0),
+    } as Record<TrustComponent | 'trustScore', number>;
+
+    for (const key of TRUST_COMPONENTS) {
+      components[key] = attestation[key];
+      deltas[key] = attestation[key] - (previous?.attestation[key] ?? 0);
+    }
+
+    timeline.push({
+      version: attestation.version,
+      signature: record.signature,
+      previousSignature: attestation.previousSignature ?? null,
+      ...(attestation.correctsSignature ? { correctsSignature: attestation.correctsSignature } : {}),
+      attestedAt: attestation.attestedAt,
+      blockTime: record.blockTime,
+      trustScore: attestation.trustScore,
+      verificationTier: attestation.verificationTier,
+      components,
+      deltas,
+    });
+    previous = record;
+  }
+
+  return timeline;
+}
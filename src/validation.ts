@@ -0,0 +1,186 @@
+/**
+ * Input Validation
+ *
+ * Runtime checks for data arriving over the API, so a malformed or
+ * mis-scaled field is rejected instead of silently becoming a score.
+ * Every problem is reported as an issue with a stable code:
+ *
+ * - required        — field missing
+ * - invalid_type    — wrong JSON type (or NaN/Infinity)
+ * - out_of_range    — outside the documented scale
+ * - invalid_value   — right type, but not an accepted value
+ * - inconsistent    — contradicts another field
+ * - invalid_json    — body is not JSON
+ * - body_too_large  — body exceeds the size limit
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { AgentPlatformData } from './trust-engine';
+import { VerificationTier } from './schema';
+
+export type ValidationCode =
+  | 'required'
+  | 'invalid_type'
+  | 'out_of_range'
+  | 'invalid_value'
+  | 'inconsistent'
+  | 'invalid_json'
+  | 'body_too_large';
+
+export interface ValidationIssue {
+  field: string;             // Path to the field, e.g. "agents[2].uptimePercent"
+  code: ValidationCode;
+  message: string;
+}
+
+export class ValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[], public readonly status = 400) {
+    super(`Invalid request: ${issues.map(i => `${i.field}: ${i.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+// Timestamps below this are almost certainly seconds, not milliseconds (Mar 2001)
+const MIN_MS_TIMESTAMP = 1e12;
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Numeric platform fields and their documented scales
+const PLATFORM_RANGES: Array<{ field: keyof AgentPlatformData; min: number; max?: number; integer?: boolean; optional?: boolean }> = [
+  { field: 'denMessages', min: 0, integer: true },
+  { field: 'dmsSent', min: 0, integer: true },
+  { field: 'promptResponses', min: 0, integer: true },
+  { field: 'verifiedSkills', min: 0, integer: true },
+  { field: 'totalSkills', min: 0, integer: true },
+  { field: 'endorsementsReceived', min: 0 },
+  { field: 'endorserAvgTrust', min: 0, max: 1000 },
+  { field: 'reviewCount', min: 0, integer: true },
+  { field: 'avgReviewScore', min: 0, max: 5 },
+  { field: 'uptimePercent', min: 0, max: 100 },
+  { field: 'responseQuality', min: 0, max: 100 },
+  { field: 'walletAge', min: 0 },
+  { field: 'txCount', min: 0, integer: true },
+  { field: 'counterparties', min: 0, integer: true, optional: true },
+  { field: 'failedTxRatio', min: 0, max: 1, optional: true },
+  { field: 'flaggedInteractions', min: 0, integer: true, optional: true },
+  { field: 'auditScore', min: 0, max: 100 },
+  { field: 'accountAgeDays', min: 0 },
+];
+
+/**
+ * Collects issues for one object, prefixing field names with its path
+ */
+export class IssueCollector {
+  readonly issues: ValidationIssue[] = [];
+
+  constructor(private prefix = '') {}
+
+  add(field: string, code: ValidationCode, message: string): void {
+    // An empty field refers to the object itself
+    const path = field ? this.prefix + field : this.prefix.replace(/\.$/, '') || 'body';
+    this.issues.push({ field: path, code, message });
+  }
+
+  private fail(field: string, code: ValidationCode, message: string): undefined {
+    this.add(field, code, message);
+    return undefined;
+  }
+
+  string(input: Record<string, unknown>, field: string, maxLength = 256): string | undefined {
+    const value = input[field];
+    if (value === undefined || value === null) return this.fail(field, 'required', 'is required');
+    if (typeof value !== 'string') return this.fail(field, 'invalid_type', 'must be a string');
+    if (value.trim() === '') return this.fail(field, 'required', 'must not be empty');
+    if (value.length > maxLength) return this.fail(field, 'out_of_range', `must be at most ${maxLength} characters`);
+    return value;
+  }
+
+  number(input: Record<string, unknown>, field: string, min: number, max?: number, integer = false): number | undefined {
+    const value = input[field];
+    if (value === undefined || value === null) return this.fail(field, 'required', 'is required');
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return this.fail(field, 'invalid_type', 'must be a finite number');
+    }
+    if (integer && !Number.isInteger(value)) return this.fail(field, 'invalid_type', 'must be an integer');
+    if (value < min || (max !== undefined && value > max)) {
+      return this.fail(field, 'out_of_range', max === undefined ? `must be >= ${min}` : `must be between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  wallet(input: Record<string, unknown>, field: string): string | undefined {
+    const value = this.string(input, field, 44);
+    if (value === undefined) return undefined;
+    try {
+      new PublicKey(value);
+      return value;
+    } catch {
+      return this.fail(field, 'invalid_value', 'must be a base58 Solana public key');
+    }
+  }
+
+  timestamp(input: Record<string, unknown>, field: string, now = Date.now()): number | undefined {
+    const value = this.number(input, field, 0, undefined, true);
+    if (value === undefined) return undefined;
+    if (value < MIN_MS_TIMESTAMP) return this.fail(field, 'invalid_value', 'must be a Unix timestamp in milliseconds');
+    if (value > now + CLOCK_SKEW_MS) return this.fail(field, 'out_of_range', 'must not be in the future');
+    return value;
+  }
+}
+
+/**
+ * Validate platform data for one agent. Returns the issues (empty if valid).
+ */
+export function platformDataIssues(input: unknown, prefix = '', now = Date.now()): ValidationIssue[] {
+  const issues = new IssueCollector(prefix);
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    issues.add('', 'invalid_type', 'must be an object');
+    return issues.issues;
+  }
+  const data = input as Record<string, unknown>;
+
+  issues.string(data, 'agentId');
+  issues.string(data, 'agentName');
+  issues.wallet(data, 'solanaWallet');
+
+  for (const { field, min, max, integer, optional } of PLATFORM_RANGES) {
+    if (optional && data[field] === undefined) continue;
+    issues.number(data, field, min, max, integer);
+  }
+
+  if (typeof data.securityAuditPassed !== 'boolean') {
+    issues.add('securityAuditPassed', data.securityAuditPassed === undefined ? 'required' : 'invalid_type', 'must be a boolean');
+  }
+  const tier = issues.number(data, 'verificationTier', 0, VerificationTier.ENTERPRISE, true);
+  if (tier !== undefined && VerificationTier[tier] === undefined) {
+    issues.add('verificationTier', 'invalid_value', 'is not a verification tier');
+  }
+  issues.timestamp(data, 'lastActivityAt', now);
+
+  if (typeof data.verifiedSkills === 'number' && typeof data.totalSkills === 'number' &&
+      data.verifiedSkills > data.totalSkills) {
+    issues.add('verifiedSkills', 'inconsistent', 'must not exceed totalSkills');
+  }
+
+  return issues.issues;
+}
+
+/**
+ * Validate platform data for one agent, throwing a ValidationError listing every bad field
+ */
+export function validatePlatformData(input: unknown, now = Date.now()): AgentPlatformData {
+  const issues = platformDataIssues(input, '', now);
+  if (issues.length > 0) throw new ValidationError(issues);
+  return input as AgentPlatformData;
+}
+
+/**
+ * Validate a batch of platform data; field paths are prefixed with the array index
+ */
+export function validatePlatformDataBatch(input: unknown, field = 'agents', now = Date.now()): AgentPlatformData[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new ValidationError([{ field, code: 'invalid_type', message: 'must be a non-empty array' }]);
+  }
+  const issues = input.flatMap((item, i) => platformDataIssues(item, `${field}[${i}].`, now));
+  if (issues.length > 0) throw new ValidationError(issues);
+  return input as AgentPlatformData[];
+}
@@ -0,0 +1,225 @@
+/**
+ * Verification Tiers
+ *
+ * What each verification tier requires, declared as a tier policy: rules on
+ * platform inputs (e.g. securityAuditPassed) or on component scores, a
+ * ceiling on the trust score an agent at the tier can hold, and how long the
+ * tier stays valid. Tiers are cumulative — an AUDITED agent must also meet
+ * VERIFIED's rules.
+ *
+ * Tiers are bought on the platform, so the oracle doesn't assign them: it
+ * checks the claimed tier and refuses to attest one whose rules aren't met,
+ * naming every violation. Attestations record the tier's scoreCeiling and
+ * tierExpiresAt, so readers apply both without the policy.
+ *
+ * The default policy can be replaced with tier-policy.json in the data
+ * directory; tiers it leaves out have no rules, cap or expiry.
+ */
+
+import * as fs from 'fs';
+import { AgentPlatformData } from './trust-engine';
+import { NUMERIC_INPUTS } from './scoring-model';
+import { TRUST_COMPONENTS, TrustAttestation, TrustComponent, VerificationTier } from './schema';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Inputs a requirement can read: the numeric ones, plus flags
+const REQUIREMENT_INPUTS: readonly string[] = [...NUMERIC_INPUTS, 'securityAuditPassed'];
+
+export type TierName = keyof typeof VerificationTier;
+
+export interface TierRequirement {
+  input?: keyof AgentPlatformData; // A platform input...
+  component?: TrustComponent;      // ...or a component's score before decay
+  min?: number;                    // Without min, the input must be truthy
+}
+
+export interface TierRule {
+  requires?: TierRequirement[];
+  scoreCeiling?: number;     // Most trustScore an agent at this tier can hold (default: no cap)
+  validForDays?: number;     // Tier lapses this long after the attestation (default: never)
+}
+
+export type TierPolicy = Partial<Record<TierName, TierRule>>;
+
+export interface TierViolation {
+  tier: VerificationTier;    // Tier whose rule isn't met
+  field: string;             // Input or component the rule reads
+  min?: number;
+  actual: number | boolean;
+  message: string;
+}
+
+export interface TierEvaluation {
+  claimed: VerificationTier;
+  eligibleTier: VerificationTier;  // Highest tier whose rules (and those below) are met
+  violations: TierViolation[];     // Rules of the claimed tier and below that aren't met
+  scoreCeiling?: number;           // Of the claimed tier
+  expiresAt?: number;              // Unix timestamp (ms) the claimed tier lapses
+  lapsedCeiling?: number;          // Of the tier it lapses to (1000 = no cap); set with expiresAt
+}
+
+export const DEFAULT_TIER_POLICY: TierPolicy = {
+  UNVERIFIED: { scoreCeiling: 600 },
+  BASIC: { scoreCeiling: 750 },
+  VERIFIED: {
+    requires: [{ input: 'verifiedSkills', min: 3 }, { input: 'endorsementsReceived', min: 3 }],
+    scoreCeiling: 900,
+    validForDays: 365,
+  },
+  AUDITED: {
+    requires: [{ input: 'securityAuditPassed' }, { component: 'securityAudit', min: 70 }],
+    validForDays: 180,
+  },
+  ENTERPRISE: {
+    requires: [{ component: 'securityAudit', min: 90 }, { input: 'uptimePercent', min: 99 }],
+    validForDays: 365,
+  },
+};
+
+// Tiers from lowest to highest
+const TIERS = (Object.values(VerificationTier).filter(v => typeof v === 'number') as VerificationTier[])
+  .sort((a, b) => a - b);
+
+export class TierPolicyError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid tier policy: ${issues.join('; ')}`);
+    this.name = 'TierPolicyError';
+  }
+}
+
+/**
+ * Raised when an attestation claims a tier whose rules aren't met
+ */
+export class TierViolationError extends Error {
+  constructor(public readonly tier: VerificationTier, public readonly violations: TierViolation[]) {
+    super(`Requirements of verification tier ${VerificationTier[tier]} not met: ${violations.map(v => v.message).join('; ')}`);
+    this.name = 'TierViolationError';
+  }
+}
+
+function checkRequirement(
+  tier: VerificationTier,
+  requirement: TierRequirement,
+  data: AgentPlatformData,
+  components: Record<TrustComponent, number>,
+): TierViolation | null {
+  const field = requirement.component ?? requirement.input!;
+  const actual = requirement.component ? components[requirement.component] : data[requirement.input!] ?? 0;
+  const met = requirement.min === undefined ? Boolean(actual) : Number(actual) >= requirement.min;
+  if (met) return null;
+
+  const needs = requirement.min === undefined ? field : `${field} >= ${requirement.min}`;
+  return {
+    tier,
+    field,
+    ...(requirement.min !== undefined ? { min: requirement.min } : {}),
+    actual: actual as number | boolean,
+    message: `${VerificationTier[tier]} requires ${needs} (got ${actual})`,
+  };
+}
+
+/**
+ * Check the tier an agent claims against the policy. Component rules read
+ * base scores, so inactivity doesn't cost an agent its tier.
+ */
+export function evaluateTier(
+  data: AgentPlatformData,
+  components: Record<TrustComponent, number>,
+  policy: TierPolicy,
+  now: number,
+): TierEvaluation {
+  const claimed = data.verificationTier;
+  const violations: TierViolation[] = [];
+  let eligibleTier: VerificationTier | null = null;
+
+  for (const tier of TIERS) {
+    const unmet = (policy[VerificationTier[tier] as TierName]?.requires ?? [])
+      .map(requirement => checkRequirement(tier, requirement, data, components))
+      .filter((v): v is TierViolation => v !== null);
+    if (tier <= claimed) violations.push(...unmet);
+    if (unmet.length > 0 && eligibleTier === null) eligibleTier = tier - 1;
+  }
+
+  const rule = policy[VerificationTier[claimed] as TierName];
+  const lapsedRule = policy[VerificationTier[lapsedTier(claimed)] as TierName];
+  return {
+    claimed,
+    eligibleTier: Math.max(eligibleTier ?? VerificationTier.ENTERPRISE, VerificationTier.UNVERIFIED),
+    violations,
+    scoreCeiling: rule?.scoreCeiling,
+    expiresAt: rule?.validForDays !== undefined ? now + rule.validForDays * MS_PER_DAY : undefined,
+    lapsedCeiling: rule?.validForDays !== undefined ? lapsedRule?.scoreCeiling ?? 1000 : undefined,
+  };
+}
+
+/**
+ * Tier an attestation carries as of now: a lapsed tier falls back to BASIC
+ * (the wallet registration behind it doesn't expire)
+ */
+export function effectiveTier(attestation: TrustAttestation, now: number): VerificationTier {
+  if (attestation.tierExpiresAt === undefined || now < attestation.tierExpiresAt) return attestation.verificationTier;
+  return lapsedTier(attestation.verificationTier);
+}
+
+function lapsedTier(tier: VerificationTier): VerificationTier {
+  return Math.min(tier, VerificationTier.BASIC);
+}
+
+/**
+ * Score ceiling an attestation carries as of now: the attested one, and once
+ * the tier lapses, also the lapsed ceiling it records. Records from before
+ * v6 don't record one, so the policy's is used.
+ */
+export function effectiveCeiling(attestation: TrustAttestation, now: number, policy: TierPolicy = DEFAULT_TIER_POLICY): number | undefined {
+  const tier = effectiveTier(attestation, now);
+  const fallback = tier === attestation.verificationTier ? undefined
+    : attestation.lapsedCeiling ?? policy[VerificationTier[tier] as TierName]?.scoreCeiling;
+  if (fallback === undefined) return attestation.scoreCeiling;
+  return Math.min(fallback, attestation.scoreCeiling ?? fallback);
+}
+
+/**
+ * Check a policy names known tiers, inputs and components, with sane limits
+ */
+export function validateTierPolicy(policy: TierPolicy): void {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    throw new TierPolicyError(['policy must be an object of tiers']);
+  }
+
+  const issues: string[] = [];
+  for (const [name, rule] of Object.entries(policy) as Array<[string, TierRule]>) {
+    if (typeof VerificationTier[name as TierName] !== 'number') {
+      issues.push(`${name} is not a verification tier`);
+      continue;
+    }
+    if (rule.scoreCeiling !== undefined && !(Number.isInteger(rule.scoreCeiling) && rule.scoreCeiling >= 0 && rule.scoreCeiling <= 1000)) {
+      issues.push(`${name}.scoreCeiling must be an integer in [0, 1000]`);
+    }
+    if (rule.validForDays !== undefined && !(rule.validForDays > 0)) issues.push(`${name}.validForDays must be > 0`);
+
+    for (const [i, requirement] of (rule.requires ?? []).entries()) {
+      const at = `${name}.requires[${i}]`;
+      if ((requirement.input === undefined) === (requirement.component === undefined)) {
+        issues.push(`${at} must name an input or a component`);
+      } else if (requirement.input !== undefined && !REQUIREMENT_INPUTS.includes(requirement.input)) {
+        issues.push(`${at}.input is not a platform input`);
+      } else if (requirement.component !== undefined && !(TRUST_COMPONENTS as readonly string[]).includes(requirement.component)) {
+        issues.push(`${at}.component is not a trust component`);
+      }
+      if (requirement.min !== undefined && !Number.isFinite(requirement.min)) issues.push(`${at}.min must be a number`);
+    }
+  }
+
+  if (issues.length > 0) throw new TierPolicyError(issues);
+}
+
+/**
+ * Load and validate a tier policy file (missing file: the default policy)
+ */
+export function loadTierPolicy(filePath: string): TierPolicy {
+  if (!fs.existsSync(filePath)) return DEFAULT_TIER_POLICY;
+  const policy: TierPolicy = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  validateTierPolicy(policy);
+  return policy;
+}
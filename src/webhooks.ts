@@ -0,0 +1,233 @@
+/**
+ * Webhooks
+ *
+ * Delivers trust events to registered HTTP endpoints. Each webhook has its
+ * own secret; deliveries are signed with HMAC-SHA256 over
+ * "<timestamp>.<body>" so receivers can check origin and freshness:
+ *
+ *   X-MDEN-Event:      event type
+ *   X-MDEN-Delivery:   event id
+ *   X-MDEN-Timestamp:  Unix seconds
+ *   X-MDEN-Signature:  sha256=<hex hmac>
+ *
+ * Failed deliveries (network error or non-2xx) are retried with backoff.
+ *
+ * Targets must be public: URLs naming loopback, private or link-local
+ * addresses are refused at registration, and a host that resolves to one is
+ * refused at delivery. Deliveries connect to the address that was checked
+ * and don't follow redirects; a 3xx counts as a failed delivery.
+ */
+
+import * as crypto from 'crypto';
+import * as dns from 'dns';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as path from 'path';
+import { TrustChange, TrustEvent, TrustSubscription, deriveEvents } from './trust-events';
+import { Clock, systemClock } from './clock';
+
+export const DEFAULT_WEBHOOKS_PATH = path.join(process.env.HOME || '~', '.config/moltbotden-trust/webhooks.json');
+
+export interface Webhook extends TrustSubscription {
+  id: string;
+  url: string;
+  secret: string;
+  owner: string;             // API key id that registered it
+  createdAt: number;         // Unix timestamp (ms)
+}
+
+export interface WebhookDeliveryOptions {
+  maxRetries?: number;       // Default 5
+  retryDelayMs?: number;     // Base backoff, doubled per attempt (default 1000)
+  timeoutMs?: number;        // Per attempt (default 10000)
+  allowPrivateTargets?: boolean; // Deliver to loopback and private addresses too (local testing)
+}
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved
+// ranges; IPv4-mapped IPv6 addresses are checked against the IPv4 ones
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) NON_PUBLIC_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+for (const [prefix, bits] of [
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) NON_PUBLIC_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * A webhook target that isn't public; deliveries to it aren't retried
+ */
+export class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookTargetError';
+  }
+}
+
+/**
+ * Signature header value for a payload
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Check a received delivery's signature (constant time)
+ */
+export function verifyWebhookSignature(secret: string, timestamp: number, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Registered webhooks (JSON file) and their delivery
+ */
+export class WebhookDispatcher {
+  private webhooks = new Map<string, Webhook>();
+
+  constructor(
+    private filePath: string = DEFAULT_WEBHOOKS_PATH,
+    private options: WebhookDeliveryOptions = {},
+    private clock: Clock = systemClock,
+  ) {
+    if (fs.existsSync(filePath)) {
+      const { webhooks } = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      for (const webhook of webhooks as Webhook[]) this.webhooks.set(webhook.id, webhook);
+    }
+  }
+
+  /**
+   * Why a URL can't be a webhook target, or null. Host names are only
+   * resolved (and checked) at delivery.
+   */
+  targetIssue(url: URL): string | null {
+    if (!['http:', 'https:'].includes(url.protocol)) return 'must be an http(s) URL';
+    if (this.options.allowPrivateTargets) return null;
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) && !isPublicAddress(host))) {
+      return 'must not target a loopback, private or link-local address';
+    }
+    return null;
+  }
+
+  register(owner: string, url: string, subscription: TrustSubscription): Webhook {
+    const webhook: Webhook = {
+      id: crypto.randomBytes(8).toString('hex'),
+      url,
+      secret: crypto.randomBytes(32).toString('hex'),
+      owner,
+      createdAt: this.clock.now(),
+      ...subscription,
+    };
+    this.webhooks.set(webhook.id, webhook);
+    this.save();
+    return webhook;
+  }
+
+  remove(id: string): boolean {
+    const removed = this.webhooks.delete(id);
+    if (removed) this.save();
+    return removed;
+  }
+
+  get(id: string): Webhook | undefined {
+    return this.webhooks.get(id);
+  }
+
+  list(owner?: string): Webhook[] {
+    return [...this.webhooks.values()].filter(w => owner === undefined || w.owner === owner);
+  }
+
+  /**
+   * Send every webhook the events this change implies for it. Deliveries run
+   * in the background; failures are logged after the last retry.
+   */
+  dispatch(change: TrustChange): void {
+    for (const webhook of this.webhooks.values()) {
+      for (const event of deriveEvents(change, webhook)) {
+        this.deliver(webhook, event).catch(err =>
+          console.error(`Webhook ${webhook.id} delivery of ${event.id} failed:`, err.message));
+      }
+    }
+  }
+
+  async deliver(webhook: Webhook, event: TrustEvent): Promise<void> {
+    const maxRetries = this.options.maxRetries ?? 5;
+    const retryDelayMs = this.options.retryDelayMs ?? 1000;
+    const timeoutMs = this.options.timeoutMs ?? 10000;
+    const body = JSON.stringify(event);
+    // IP literals skip the lookup, so they're checked here
+    const host = new URL(webhook.url).hostname.replace(/^\[|\]$/g, '');
+    if (!this.options.allowPrivateTargets && net.isIP(host) && !isPublicAddress(host)) {
+      throw new WebhookTargetError(`${host} resolves to non-public address ${host}`);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      // Re-signed per attempt so the timestamp stays fresh
+      const timestamp = Math.floor(this.clock.now() / 1000);
+      try {
+        const status = await this.post(webhook.url, {
+          'Content-Type': 'application/json',
+          'X-MDEN-Event': event.type,
+          'X-MDEN-Delivery': event.id,
+          'X-MDEN-Timestamp': String(timestamp),
+          'X-MDEN-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+        }, body, timeoutMs);
+        // Redirects aren't followed: a public target could point them anywhere
+        if (status >= 200 && status < 300) return;
+        throw new Error(`HTTP ${status}`);
+      } catch (err) {
+        if (err instanceof WebhookTargetError || attempt > maxRetries) throw err;
+        await new Promise(resolve => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  // POST and return the status. The connection goes to the address the
+  // lookup checked, so the host can't rebind to another one in between.
+  private post(url: string, headers: Record<string, string>, body: string, timeoutMs: number): Promise<number> {
+    const target = new URL(url);
+    const request = target.protocol === 'https:' ? https.request : http.request;
+    return new Promise((resolve, reject) => {
+      const req = request(target, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: this.lookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      }, res => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  // DNS lookup that refuses hosts resolving to a non-public address
+  private lookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) return callback(err);
+      const blocked = this.options.allowPrivateTargets ? undefined : addresses.find(a => !isPublicAddress(a.address));
+      if (blocked) return callback(new WebhookTargetError(`${hostname} resolves to non-public address ${blocked.address}`));
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  }) as unknown as net.LookupFunction;
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify({ webhooks: this.list() }, null, 2), { mode: 0o600 });
+  }
+}
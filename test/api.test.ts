@@ -0,0 +1,844 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { Keypair } from '@solana/web3.js';
+import { AttestationStatus, VerificationTier } from '../src/schema';
+import { WebhookDispatcher, verifyWebhookSignature } from '../src/webhooks';
+import { DisputeFiling, disputeMessage } from '../src/dispute-store';
+import { signBytes } from '../src/ed25519';
+import { AgentRegistry } from '../src/agent-registry';
+import { AttestationStore } from '../src/attestation-store';
+import { TrustMonitor, deriveEvents } from '../src/trust-events';
+import { DAY, TestServer, maxedPlatformData, platformData, registerAgent, startServer } from './helpers';
+
+function attestBody(agentId: string, wallet: Keypair, overrides = {}) {
+  return maxedPlatformData({ agentId, solanaWallet: wallet.publicKey.toBase58(), ...overrides });
+}
+
+describe('access control', () => {
+  let server: TestServer;
+  before(async () => { server = await startServer(); });
+  after(() => server.close());
+
+  it('serves /health without a key', async () => {
+    const { status, body } = await server.request('GET', '/health', { key: null });
+    assert.equal(status, 200);
+    assert.equal(body.status, 'ok');
+    assert.equal(body.oracle, server.attestor.oraclePublicKey);
+  });
+
+  it('requires a valid key everywhere else', async () => {
+    const missing = await server.request('GET', '/oracle', { key: null });
+    assert.equal(missing.status, 401);
+    assert.equal(missing.headers.get('www-authenticate'), 'Bearer');
+    assert.equal((await server.request('GET', '/oracle', { key: 'mdt_wrong' })).status, 401);
+  });
+
+  it('enforces route roles', async () => {
+    const { reader } = server.keys;
+    const ingest = server.keys['platform-ingest'];
+    assert.equal((await server.request('GET', '/models', { key: reader })).status, 200);
+    assert.equal((await server.request('POST', '/trust/attest', { key: reader, body: {} })).status, 403);
+    assert.equal((await server.request('POST', '/oracle/fund', { key: ingest })).status, 403);
+    assert.equal((await server.request('GET', '/admin/keys', { key: ingest })).status, 403);
+  });
+
+  it('keeps webhooks to platform keys and public addresses', async () => {
+    const ingest = server.keys['platform-ingest'];
+    assert.equal((await server.request('POST', '/webhooks', { key: server.keys.reader, body: { url: 'https://example.com/hook' } })).status, 403);
+    for (const url of ['http://169.254.169.254/latest/meta-data', 'http://127.0.0.1:8080/', 'http://[::1]/', 'http://localhost/', 'http://[::ffff:10.0.0.1]/', 'http://2130706433/']) {
+      const { status, body } = await server.request('POST', '/webhooks', { key: ingest, body: { url } });
+      assert.equal(status, 400, url);
+      assert.match(body.issues[0].message, /loopback, private or link-local/);
+    }
+    assert.equal((await server.request('POST', '/webhooks', { key: ingest, body: { url: 'https://203.0.113.7/hook' } })).status, 201);
+
+    // Delivery checks the address again, for hosts that resolve to private ones
+    const dispatcher = new WebhookDispatcher(path.join(server.dataDir, 'direct-webhooks.json'));
+    const webhook = dispatcher.register('admin', 'http://127.0.0.1:9/hook', {});
+    const event = { id: '1-0', type: 'attested' as const, agentId: 'agent-1', at: 0, data: {} };
+    await assert.rejects(dispatcher.deliver(webhook, event), /non-public address 127\.0\.0\.1/);
+    const named = dispatcher.register('admin', 'http://localhost:9/hook', {});
+    await assert.rejects(dispatcher.deliver(named, event), /localhost resolves to non-public address/);
+  });
+
+  it("doesn't follow webhook redirects", async () => {
+    let redirected = 0;
+    const internal = http.createServer((_req, res) => { redirected++; res.end(); });
+    const receiver = http.createServer((_req, res) => {
+      res.writeHead(302, { Location: `http://127.0.0.1:${(internal.address() as any).port}/admin` }).end();
+    });
+    await new Promise<void>(resolve => internal.listen(0, '127.0.0.1', resolve));
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    try {
+      const dispatcher = new WebhookDispatcher(path.join(server.dataDir, 'redirect-webhooks.json'), { allowPrivateTargets: true, maxRetries: 0 });
+      const webhook = dispatcher.register('admin', `http://127.0.0.1:${(receiver.address() as any).port}/hook`, {});
+      const event = { id: '1-0', type: 'attested' as const, agentId: 'agent-1', at: 0, data: {} };
+      await assert.rejects(dispatcher.deliver(webhook, event), /HTTP 302/);
+      assert.equal(redirected, 0);
+    } finally {
+      receiver.close();
+      internal.close();
+    }
+  });
+
+  it('creates, lists and revokes keys', async () => {
+    const created = await server.request('POST', '/admin/keys', { body: { id: 'limited', role: 'reader', rateLimit: 1 } });
+    assert.equal(created.status, 201);
+    assert.match(created.body.key, /^mdt_/);
+    assert.equal(created.body.hash, undefined);
+    assert.equal((await server.request('POST', '/admin/keys', { body: { id: 'limited', role: 'reader' } })).status, 409);
+    assert.equal((await server.request('POST', '/admin/keys', { body: { id: 'x', role: 'root' } })).status, 400);
+    for (const rateLimit of [0, -5, 1.5, '60', 'abc', null, 1e20]) {
+      const refused = await server.request('POST', '/admin/keys', { body: { id: 'bad-limit', role: 'reader', rateLimit } });
+      assert.equal(refused.status, 400, String(rateLimit));
+      assert.match(refused.body.error, /rateLimit must be a positive integer/);
+    }
+
+    const listed = await server.request('GET', '/admin/keys');
+    assert.ok(listed.body.keys.some((k: any) => k.id === 'limited' && k.hash === undefined));
+
+    // One request per minute
+    assert.equal((await server.request('GET', '/models', { key: created.body.key })).status, 200);
+    const limited = await server.request('GET', '/models', { key: created.body.key });
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get('retry-after'), '60');
+    server.clock.advance(60_000);
+    assert.equal((await server.request('GET', '/models', { key: created.body.key })).status, 200);
+
+    assert.equal((await server.request('POST', '/admin/keys/limited/revoke')).status, 200);
+    assert.equal((await server.request('POST', '/admin/keys/limited/revoke')).status, 404);
+    assert.equal((await server.request('GET', '/models', { key: created.body.key })).status, 401);
+  });
+
+  it('audits writes and refused reads', async () => {
+    await server.request('GET', '/oracle', { key: null });
+    const { body } = await server.request('GET', '/admin/audit?limit=50');
+    assert.ok(body.entries.some((e: any) => e.method === 'GET' && e.path === '/oracle' && e.status === 401 && e.keyId === null));
+    assert.ok(body.entries.some((e: any) => e.path === '/admin/keys' && e.status === 201 && e.keyId === 'admin'));
+    assert.ok(!body.entries.some((e: any) => e.method === 'GET' && e.status === 200));
+    const own = await server.request('GET', '/admin/audit?keyId=reader');
+    assert.ok(own.body.entries.every((e: any) => e.keyId === 'reader'));
+  });
+
+  it('answers CORS preflight', async () => {
+    const { status, headers } = await server.request('OPTIONS', '/trust/attest', { key: null });
+    assert.equal(status, 204);
+    assert.equal(headers.get('access-control-allow-origin'), '*');
+    assert.match(headers.get('access-control-allow-headers')!, /Authorization/);
+  });
+
+  it('lists endpoints for unknown routes', async () => {
+    const { status, body } = await server.request('GET', '/nope');
+    assert.equal(status, 404);
+    assert.ok(body.endpoints.includes('POST /trust/attest'));
+  });
+});
+
+describe('restricted CORS origins', () => {
+  let server: TestServer;
+  before(async () => { server = await startServer({ corsOrigins: ['https://app.example'] }); });
+  after(() => server.close());
+
+  it('only echoes allowed origins', async () => {
+    const allowed = await server.request('GET', '/health', { headers: { Origin: 'https://app.example' } });
+    assert.equal(allowed.headers.get('access-control-allow-origin'), 'https://app.example');
+    assert.equal(allowed.headers.get('vary'), 'Origin');
+    const other = await server.request('GET', '/health', { headers: { Origin: 'https://evil.example' } });
+    assert.equal(other.headers.get('access-control-allow-origin'), null);
+  });
+});
+
+describe('oracle and models', () => {
+  let server: TestServer;
+  before(async () => { server = await startServer(); });
+  after(() => server.close());
+
+  it('reports and funds the oracle balance', async () => {
+    assert.equal((await server.request('GET', '/oracle')).body.balance, 1);
+    const funded = await server.request('POST', '/oracle/fund');
+    assert.equal(funded.status, 200);
+    assert.equal(funded.body.amount, 1);
+    assert.equal((await server.request('GET', '/oracle')).body.balance, 2);
+  });
+
+  it('lists scoring models', async () => {
+    const { body } = await server.request('GET', '/models');
+    assert.ok(body.models.some((m: any) => m.id === 'moltbotden-default' && m.version === 1));
+  });
+});
+
+describe('agent registration', () => {
+  let server: TestServer;
+  before(async () => { server = await startServer(); });
+  after(() => server.close());
+
+  it('binds an agent to a wallet that signed the challenge', async () => {
+    const wallet = await registerAgent(server, 'agent-1');
+    const { status, body } = await server.request('GET', '/agents/agent-1', { key: server.keys.reader });
+    assert.equal(status, 200);
+    assert.equal(body.solanaWallet, wallet.publicKey.toBase58());
+    assert.equal(body.registeredAt, server.clock.now());
+  });
+
+  it('rejects a signature from another key', async () => {
+    const solanaWallet = Keypair.generate().publicKey.toBase58();
+    const ingest = server.keys['platform-ingest'];
+    const challenge = await server.request('POST', '/agents/register/challenge', { key: ingest, body: { agentId: 'agent-2', solanaWallet } });
+    const { signBytes } = await import('../src/ed25519');
+    const signature = signBytes(Buffer.from(challenge.body.message), Keypair.generate().secretKey);
+    const { status, body } = await server.request('POST', '/agents/register', {
+      key: ingest, body: { agentId: 'agent-2', solanaWallet, nonce: challenge.body.nonce, signature },
+    });
+    assert.equal(status, 400);
+    assert.match(body.error, /does not verify/);
+  });
+
+  it('rejects expired challenges', async () => {
+    const wallet = Keypair.generate();
+    const solanaWallet = wallet.publicKey.toBase58();
+    const challenge = await server.request('POST', '/agents/register/challenge', { body: { agentId: 'agent-3', solanaWallet } });
+    server.clock.advance(6 * 60 * 1000);
+    const { signBytes } = await import('../src/ed25519');
+    const { status, body } = await server.request('POST', '/agents/register', {
+      body: { agentId: 'agent-3', solanaWallet, nonce: challenge.body.nonce, signature: signBytes(Buffer.from(challenge.body.message), wallet.secretKey) },
+    });
+    assert.equal(status, 400);
+    assert.match(body.error, /expired/);
+  });
+
+  it('refuses to rebind a wallet or agent', async () => {
+    const wallet = (await server.request('GET', '/agents/agent-1')).body.solanaWallet;
+    const conflict = await server.request('POST', '/agents/register/challenge', { body: { agentId: 'other', solanaWallet: wallet } });
+    assert.equal(conflict.status, 409);
+    assert.equal((await server.request('POST', '/agents/register/challenge', { body: { agentId: 'agent-1' } })).status, 400);
+    assert.equal((await server.request('GET', '/agents/unknown')).status, 404);
+  });
+
+  it('only takes registrations relayed by the platform', async () => {
+    const body = { agentId: 'agent-4', solanaWallet: Keypair.generate().publicKey.toBase58() };
+    assert.equal((await server.request('POST', '/agents/register/challenge', { key: null, body })).status, 401);
+    assert.equal((await server.request('POST', '/agents/register/challenge', { key: server.keys.reader, body })).status, 403);
+    assert.equal((await server.request('POST', '/agents/register', { key: server.keys.reader, body })).status, 403);
+  });
+
+  it('caps pending challenges per wallet', async () => {
+    const solanaWallet = Keypair.generate().publicKey.toBase58();
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await server.request('POST', '/agents/register/challenge', { body: { agentId: 'agent-5', solanaWallet } })).status, 200);
+    }
+    const limited = await server.request('POST', '/agents/register/challenge', { body: { agentId: 'agent-5', solanaWallet } });
+    assert.equal(limited.status, 429);
+    assert.match(limited.body.error, /3 pending challenges/);
+    server.clock.advance(6 * 60 * 1000);
+    assert.equal((await server.request('POST', '/agents/register/challenge', { body: { agentId: 'agent-5', solanaWallet } })).status, 200);
+  });
+
+  it('answers wallet queries with the agent holding the wallet now', async () => {
+    const first = await registerAgent(server, 'agent-7');
+    const wallet = first.publicKey.toBase58();
+    await server.request('POST', '/trust/attest', { body: attestBody('agent-7', first) });
+    assert.equal((await server.request('GET', `/trust/wallet/${wallet}`)).body.agentId, 'agent-7');
+
+    // Unbound, the wallet names no one; agent-7 moves on to another wallet
+    await server.request('POST', '/admin/agents/agent-7/unbind', { body: { reason: 'Moving wallets' } });
+    assert.equal((await server.request('GET', `/trust/wallet/${wallet}`)).status, 404);
+    const second = await registerAgent(server, 'agent-7');
+    server.clock.advance(1000);
+    await server.request('POST', '/trust/attest', { body: attestBody('agent-7', second, { lastActivityAt: server.clock.now() }) });
+    assert.equal((await server.request('GET', `/trust/wallet/${wallet}`)).status, 404);
+    assert.equal((await server.request('GET', `/trust/wallet/${second.publicKey.toBase58()}`)).body.agentId, 'agent-7');
+
+    // The old wallet, rebound to another agent, answers for that agent
+    await registerAgent(server, 'agent-8', first);
+    await server.request('POST', '/trust/attest', { body: attestBody('agent-8', first) });
+    assert.equal((await server.request('GET', `/trust/wallet/${wallet}`)).body.agentId, 'agent-8');
+  });
+
+  it('lets an oracle admin unbind a claimed agentId', async () => {
+    const squatter = await registerAgent(server, 'agent-6');
+    const route = '/admin/agents/agent-6/unbind';
+    assert.equal((await server.request('POST', route, { key: server.keys['platform-ingest'], body: { reason: 'x' } })).status, 403);
+    assert.equal((await server.request('POST', route, { body: {} })).status, 400);
+    const { status, body } = await server.request('POST', route, { body: { reason: 'Claimed by another operator' } });
+    assert.equal(status, 200);
+    assert.equal(body.solanaWallet, squatter.publicKey.toBase58());
+    assert.equal((await server.request('GET', '/agents/agent-6')).status, 404);
+    assert.equal((await server.request('POST', route, { body: { reason: 'again' } })).status, 404);
+
+    const owner = await registerAgent(server, 'agent-6');
+    assert.equal((await server.request('GET', '/agents/agent-6')).body.solanaWallet, owner.publicKey.toBase58());
+    // The unbinding survives a reload of the registry
+    const reloaded = new AgentRegistry(path.join(server.dataDir, 'agents.jsonl'));
+    assert.equal(reloaded.get('agent-6')!.solanaWallet, owner.publicKey.toBase58());
+  });
+});
+
+describe('scoring and attestation', () => {
+  let server: TestServer;
+  let wallet: Keypair;
+  before(async () => {
+    server = await startServer();
+    wallet = await registerAgent(server, 'agent-1');
+  });
+  after(() => server.close());
+
+  it('calculates without writing on-chain', async () => {
+    const ingest = server.keys['platform-ingest'];
+    const transactions = server.chain.transactionCount;
+    const { status, body } = await server.request('POST', '/trust/calculate', { key: ingest, body: attestBody('agent-1', wallet) });
+    assert.equal(status, 200);
+    assert.equal(body.onchain, false);
+    // Endorsements come from the graph only, so agent-1's submitted ones don't count
+    assert.equal(body.attestation.trustScore, 850);
+    assert.equal(body.attestation.attestedAt, server.clock.now());
+    assert.equal(server.chain.transactionCount, transactions);
+  });
+
+  it('scores onchain reputation from the wallet history, not the submitted numbers', async () => {
+    const claimed = await server.request('POST', '/trust/calculate', {
+      body: attestBody('agent-1', wallet, { walletAge: 0, txCount: 0, counterparties: 0 }),
+    });
+    assert.equal(claimed.body.attestation.onchainReputation, 100);
+
+    const { body } = await server.request('POST', '/trust/explain', { body: maxedPlatformData({ agentId: 'agent-new' }) });
+    assert.equal(body.components.onchainReputation.score, 0);
+    assert.equal(body.attestation.trustScore, 750);
+  });
+
+  it('explains scores component by component', async () => {
+    const { body } = await server.request('POST', '/trust/explain', { body: platformData({ denMessages: 50 }) });
+    assert.equal(body.components.platformActivity.score, 30);
+    assert.equal(body.model.id, 'moltbotden-default');
+    assert.ok(body.hints.length > 0);
+  });
+
+  it('reports every invalid field', async () => {
+    const { status, body } = await server.request('POST', '/trust/calculate', {
+      body: { ...platformData(), denMessages: -1, uptimePercent: 101, solanaWallet: 'nope', lastActivityAt: server.clock.now() + DAY },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.code, 'validation_failed');
+    assert.deepEqual(body.issues.map((i: any) => [i.field, i.code]).sort(), [
+      ['denMessages', 'out_of_range'],
+      ['lastActivityAt', 'out_of_range'],
+      ['solanaWallet', 'invalid_value'],
+      ['uptimePercent', 'out_of_range'],
+    ]);
+  });
+
+  it('rejects malformed and oversized bodies and unknown models', async () => {
+    const invalid = await server.request('POST', '/trust/calculate', { body: '{not json' });
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.issues[0].code, 'invalid_json');
+    const large = await server.request('POST', '/trust/calculate', { body: JSON.stringify({ pad: 'x'.repeat(1024 * 1024) }) });
+    assert.equal(large.status, 413);
+    assert.equal(large.body.issues[0].code, 'body_too_large');
+    const model = await server.request('POST', '/trust/calculate?model=missing@1', { body: platformData() });
+    assert.equal(model.status, 400);
+  });
+
+  it('only attests wallets registered to the agent', async () => {
+    const transactions = server.chain.transactionCount;
+    const { status } = await server.request('POST', '/trust/attest', { body: attestBody('agent-1', Keypair.generate()) });
+    assert.equal(status, 403);
+    assert.equal(server.chain.transactionCount, transactions);
+  });
+
+  it('refuses an attestation too large for one transaction', async () => {
+    const transactions = server.chain.transactionCount;
+    const { status, body } = await server.request('POST', '/trust/attest', { body: attestBody('agent-1', wallet, { agentName: '€'.repeat(256) }) });
+    assert.equal(status, 422);
+    assert.equal(body.code, 'attestation_too_large');
+    assert.equal(server.chain.transactionCount, transactions);
+  });
+
+  it('refuses to attest a tier the data does not meet', async () => {
+    const transactions = server.chain.transactionCount;
+    const unaudited = attestBody('agent-1', wallet, { securityAuditPassed: false });
+    const calculated = await server.request('POST', '/trust/calculate', { body: unaudited });
+    assert.equal(calculated.body.tier.eligibleTier, VerificationTier.VERIFIED);
+
+    const { status, body } = await server.request('POST', '/trust/attest', { body: unaudited });
+    assert.equal(status, 422);
+    assert.equal(body.code, 'tier_requirements_not_met');
+    assert.deepEqual(body.violations.map((v: any) => [VerificationTier[v.tier], v.field]), [
+      ['AUDITED', 'securityAuditPassed'],
+      ['AUDITED', 'securityAudit'],
+      ['ENTERPRISE', 'securityAudit'],
+    ]);
+    assert.equal(server.chain.transactionCount, transactions);
+  });
+
+  it('attests on-chain and serves the result', async () => {
+    const attested = await server.request('POST', '/trust/attest', { body: attestBody('agent-1', wallet) });
+    assert.equal(attested.status, 200);
+    assert.equal(attested.body.onchain, true);
+    assert.equal(attested.body.attestation.version, 1);
+
+    const query = await server.request('GET', '/trust/query/agent-1', { key: server.keys.reader });
+    assert.equal(query.status, 200);
+    assert.equal(query.body.signature, attested.body.signature);
+    assert.equal(query.body.attestation.trustScore, 850);
+
+    const revalidated = await server.request('GET', '/trust/query/agent-1', { headers: { 'If-None-Match': query.headers.get('etag')! } });
+    assert.equal(revalidated.status, 304);
+    assert.equal(revalidated.body, null);
+
+    const byWallet = await server.request('GET', `/trust/wallet/${wallet.publicKey.toBase58()}`);
+    assert.equal(byWallet.body.agentId, 'agent-1');
+    assert.equal((await server.request('GET', '/trust/query/unknown')).status, 404);
+  });
+
+  it('versions re-attestations and rejects stale activity data', async () => {
+    server.clock.advance(DAY);
+    const second = await server.request('POST', '/trust/attest', {
+      body: attestBody('agent-1', wallet, { lastActivityAt: server.clock.now() }),
+    });
+    assert.equal(second.body.attestation.version, 2);
+
+    const stale = await server.request('POST', '/trust/attest', {
+      body: attestBody('agent-1', wallet, { lastActivityAt: server.clock.now() - 2 * DAY }),
+    });
+    assert.equal(stale.status, 409);
+    assert.equal(stale.body.latestSignature, second.body.signature);
+
+    const history = await server.request('GET', '/trust/history/agent-1');
+    assert.deepEqual(history.body.history.map((h: any) => h.version), [1, 2]);
+    assert.equal((await server.request('GET', '/trust/history/unknown')).status, 404);
+  });
+
+  it('verifies signed attestations offline', async () => {
+    const { body: query } = await server.request('GET', '/trust/query/agent-1');
+    const valid = await server.request('POST', '/trust/verify', { body: { attestation: query.attestation } });
+    assert.equal(valid.body.valid, true);
+    const tampered = await server.request('POST', '/trust/verify', { body: { ...query.attestation, trustScore: 1 } });
+    assert.equal(tampered.body.valid, false);
+    assert.equal((await server.request('POST', '/trust/verify', { body: {} })).status, 400);
+  });
+
+  it('attests batches, rejecting agents individually', async () => {
+    const other = await registerAgent(server, 'agent-2');
+    const batch = await server.request('POST', '/trust/attest/batch', {
+      body: { agents: [attestBody('agent-2', other), attestBody('agent-9', Keypair.generate())] },
+    });
+    assert.equal(batch.status, 207);
+    assert.equal(batch.body.succeeded, 1);
+    assert.equal(batch.body.results[0].attestation.agentId, 'agent-2');
+    assert.match(batch.body.results[1].error, /not registered/);
+
+    const duplicate = await server.request('POST', '/trust/attest/batch', { body: [attestBody('agent-2', other), attestBody('agent-2', other)] });
+    assert.equal(duplicate.status, 400);
+    const invalid = await server.request('POST', '/trust/attest/batch', { body: { agents: [{ agentId: 'x' }] } });
+    assert.equal(invalid.status, 400);
+    assert.ok(invalid.body.issues.every((i: any) => i.field.startsWith('agents[0].')));
+  });
+
+  it('searches and lists attestations', async () => {
+    const search = await server.request('GET', '/trust/search?minScore=500&limit=1');
+    assert.equal(search.body.total, 2);
+    assert.equal(search.body.results.length, 1);
+    const posted = await server.request('POST', '/trust/search', { body: { agentId: 'agent-2' } });
+    assert.deepEqual(posted.body.results.map((r: any) => r.attestation.agentId), ['agent-2']);
+    assert.equal((await server.request('GET', '/trust/search?minScore=2000')).status, 400);
+
+    const recent = await server.request('GET', '/trust/attestations?limit=10');
+    assert.equal(recent.body.count, 3);
+  });
+
+  it('suspends, revokes and reinstates agents', async () => {
+    assert.equal((await server.request('POST', '/trust/suspend/agent-2', { body: {} })).status, 400);
+    assert.equal((await server.request('POST', '/trust/reinstate/agent-2', { body: {} })).status, 409);
+
+    const suspended = await server.request('POST', '/trust/suspend/agent-2', { body: { reason: 'investigating' } });
+    assert.equal(suspended.status, 200);
+    let query = await server.request('GET', '/trust/query/agent-2');
+    assert.equal(query.body.status, 1);
+    assert.equal(query.body.revocationReason, 'investigating');
+    assert.equal(query.body.attestation, undefined);
+
+    await server.request('POST', '/trust/revoke/agent-2', { body: { reason: 'compromised' } });
+    const search = await server.request('GET', '/trust/search?agentId=agent-2');
+    assert.equal(search.body.results[0].currentScore, 0);
+
+    const reinstated = await server.request('POST', '/trust/reinstate/agent-2', { body: {} });
+    assert.equal(reinstated.status, 200);
+    query = await server.request('GET', '/trust/query/agent-2');
+    assert.equal(query.body.status, 0);
+    const history = await server.request('GET', '/trust/history/agent-2');
+    assert.deepEqual(history.body.statusChanges.map((s: any) => s.status), [0, 2, 1]);
+  });
+
+  it('decodes agentIds in the path the same way in every route', async () => {
+    const agentId = 'team/agent 5 ü';
+    const encoded = encodeURIComponent(agentId);
+    const wallet = await registerAgent(server, agentId);
+    assert.equal((await server.request('POST', '/trust/attest', { body: attestBody(agentId, wallet) })).status, 200);
+
+    assert.equal((await server.request('GET', `/agents/${encoded}`)).body.agentId, agentId);
+    assert.equal((await server.request('GET', `/trust/query/${encoded}`)).body.agentId, agentId);
+    assert.equal((await server.request('GET', `/trust/history/${encoded}`)).body.history.length, 1);
+    assert.equal((await server.request('POST', `/trust/suspend/${encoded}`, { body: { reason: 'review' } })).status, 200);
+    assert.equal((await server.request('POST', `/trust/reinstate/${encoded}`, { body: { reason: 'cleared' } })).status, 200);
+    assert.equal((await server.request('GET', `/trust/query/${encoded}`)).body.status, AttestationStatus.ACTIVE);
+
+    const malformed = await server.request('GET', '/trust/query/agent%E0%A4%A');
+    assert.equal(malformed.status, 400);
+    assert.equal(malformed.body.issues[0].field, 'path');
+  });
+
+  it('only changes the status of attested agents', async () => {
+    for (const action of ['suspend', 'revoke', 'reinstate']) {
+      const { status, body } = await server.request('POST', `/trust/${action}/never-attested`, { body: { reason: 'x' } });
+      assert.equal(status, 404, action);
+      assert.equal(body.agentId, 'never-attested');
+    }
+  });
+
+  it('waits for an attestation in flight before writing a status record', async () => {
+    const wallet = await registerAgent(server, 'agent-4');
+    await server.request('POST', '/trust/attest', { body: attestBody('agent-4', wallet) });
+
+    // Hold the next attestation's transaction until the revocation has had its chance
+    const send = server.chain.sendTransaction.bind(server.chain);
+    const sent: string[] = [];
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+    server.chain.sendTransaction = async (transaction, signers) => {
+      sent.push(sent.length === 0 ? 'attestation' : 'status');
+      if (sent.length === 1) await held;
+      return send(transaction, signers);
+    };
+    try {
+      server.clock.advance(1000);
+      const attest = server.request('POST', '/trust/attest', { body: attestBody('agent-4', wallet, { lastActivityAt: server.clock.now() }) });
+      await waitFor(() => sent.length === 1);
+      const revoke = server.request('POST', '/trust/revoke/agent-4', { body: { reason: 'compromised' } });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      assert.deepEqual(sent, ['attestation']);
+
+      release();
+      assert.equal((await attest).status, 200);
+      assert.equal((await revoke).status, 200);
+      assert.deepEqual(sent, ['attestation', 'status']);
+    } finally {
+      delete (server.chain as any).sendTransaction;
+    }
+  });
+});
+
+describe('disputes', () => {
+  let server: TestServer;
+  let wallet: Keypair;
+  let disputed: string;
+  before(async () => {
+    server = await startServer();
+    wallet = await registerAgent(server, 'agent-1');
+    const attested = await server.request('POST', '/trust/attest', { body: attestBody('agent-1', wallet, { reviewCount: 3 }) });
+    disputed = attested.body.signature;
+  });
+  after(() => server.close());
+
+  function filing(overrides: Partial<DisputeFiling> = {}, signer = wallet): DisputeFiling {
+    const unsigned = {
+      agentId: 'agent-1',
+      attestationSignature: disputed,
+      reason: 'Review count is missing 12 reviews',
+      fields: ['reviewCount'],
+      evidence: [{ description: 'Reviews page', url: 'https://moltbotden.com/agents/agent-1/reviews' }],
+      filedAt: server.clock.now(),
+      ...overrides,
+    };
+    return { ...unsigned, signature: signBytes(Buffer.from(disputeMessage(unsigned), 'utf-8'), signer.secretKey) };
+  }
+
+  it('only accepts filings signed by the agent\'s wallet, against its latest attestation', async () => {
+    const forged = await server.request('POST', '/disputes', { key: null, body: filing({}, Keypair.generate()) });
+    assert.equal(forged.status, 400);
+    const tampered = await server.request('POST', '/disputes', { key: null, body: { ...filing(), reason: 'Something else' } });
+    assert.equal(tampered.status, 400);
+    const unknown = await server.request('POST', '/disputes', { key: null, body: filing({ attestationSignature: 'unknown' }) });
+    assert.equal(unknown.status, 404);
+    const stale = await server.request('POST', '/disputes', { key: null, body: filing({ filedAt: server.clock.now() - DAY }) });
+    assert.match(stale.body.error, /sign a fresh filing/);
+  });
+
+  it('flags the score while open, and rejects with a note', async () => {
+    const body = filing();
+    const filed = await server.request('POST', '/disputes', { key: null, body });
+    assert.equal(filed.status, 201);
+    assert.equal(filed.body.status, 'open');
+    assert.equal((await server.request('POST', '/disputes', { key: null, body })).status, 409);
+
+    const query = await server.request('GET', '/trust/query/agent-1', { key: server.keys.reader });
+    assert.deepEqual(query.body.dispute, { id: filed.body.id, attestationSignature: disputed, filedAt: body.filedAt });
+    const search = await server.request('GET', '/trust/search?agentId=agent-1', { key: server.keys.reader });
+    assert.equal(search.body.results[0].dispute.id, filed.body.id);
+
+    const path = `/disputes/${filed.body.id}/resolve`;
+    assert.equal((await server.request('POST', path, { key: server.keys['platform-ingest'], body: {} })).status, 403);
+    assert.equal((await server.request('POST', path, { key: server.keys.reviewer, body: { decision: 'rejected' } })).status, 400);
+    const rejected = await server.request('POST', path, { key: server.keys.reviewer, body: { decision: 'rejected', note: 'Reviews predate the agent' } });
+    assert.equal(rejected.body.dispute.status, 'rejected');
+    assert.equal(rejected.body.dispute.resolution.resolvedBy, 'reviewer');
+    assert.equal((await server.request('GET', '/trust/query/agent-1')).body.dispute, undefined);
+  });
+
+  it('upholds with a corrected attestation referencing the disputed one', async () => {
+    const filed = await server.request('POST', '/disputes', { key: null, body: filing({ reason: 'Review count is wrong' }) });
+    const path = `/disputes/${filed.body.id}/resolve`;
+    const wrongAgent = await server.request('POST', path, {
+      key: server.keys.reviewer,
+      body: { decision: 'upheld', note: 'Confirmed', data: attestBody('agent-2', wallet) },
+    });
+    assert.equal(wrongAgent.status, 400);
+
+    const upheld = await server.request('POST', path, {
+      key: server.keys.reviewer,
+      body: { decision: 'upheld', note: 'Confirmed on the reviews page', data: attestBody('agent-1', wallet, { reviewCount: 15 }) },
+    });
+    assert.equal(upheld.status, 200);
+    assert.equal(upheld.body.attestation.correctsSignature, disputed);
+    assert.equal(upheld.body.attestation.previousSignature, disputed);
+    assert.equal(upheld.body.attestation.version, 2);
+    assert.equal(upheld.body.dispute.resolution.correctedSignature, upheld.body.signature);
+    assert.equal((await server.request('POST', path, { key: server.keys.reviewer, body: { decision: 'rejected', note: 'again' } })).status, 409);
+
+    const query = await server.request('GET', '/trust/query/agent-1');
+    assert.equal(query.body.attestation.correctsSignature, disputed);
+    assert.equal(query.body.attestation.reviews, 150);
+    assert.equal(query.body.dispute, undefined);
+    const history = await server.request('GET', '/trust/history/agent-1');
+    assert.equal(history.body.history[1].correctsSignature, disputed);
+
+    const listed = await server.request('GET', '/disputes?agentId=agent-1', { key: server.keys.reviewer });
+    assert.deepEqual(listed.body.disputes.map((d: any) => d.status).sort(), ['rejected', 'upheld']);
+    assert.equal((await server.request('GET', '/disputes', { key: server.keys.reader })).status, 403);
+    assert.equal((await server.request('GET', `/disputes/${filed.body.id}`, { key: server.keys.reader })).body.status, 'upheld');
+  });
+
+  it('holds a rejection until a correction in flight is written', async () => {
+    const latest = (await server.request('GET', '/trust/query/agent-1')).body.signature;
+    const filed = await server.request('POST', '/disputes', { key: null, body: filing({ attestationSignature: latest, reason: 'Reviews again' }) });
+    const resolve = (body: object) => server.request('POST', `/disputes/${filed.body.id}/resolve`, { key: server.keys.reviewer, body });
+
+    // Hold the correction's transaction until the rejection has had its chance
+    const send = server.chain.sendTransaction.bind(server.chain);
+    let sent = 0;
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+    server.chain.sendTransaction = async (transaction, signers) => {
+      if (++sent === 1) await held;
+      return send(transaction, signers);
+    };
+    try {
+      const upheld = resolve({ decision: 'upheld', note: 'Confirmed', data: attestBody('agent-1', wallet, { reviewCount: 14 }) });
+      await waitFor(() => sent === 1);
+      const rejected = resolve({ decision: 'rejected', note: 'Not confirmed' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      assert.equal((await server.request('GET', `/disputes/${filed.body.id}`)).body.status, 'open');
+
+      release();
+      assert.equal((await upheld).status, 200);
+      assert.equal((await rejected).status, 409);
+      assert.equal((await server.request('GET', `/disputes/${filed.body.id}`)).body.status, 'upheld');
+    } finally {
+      delete (server.chain as any).sendTransaction;
+    }
+  });
+});
+
+describe('endorsements', () => {
+  let server: TestServer;
+  before(async () => { server = await startServer(); });
+  after(() => server.close());
+
+  it('records edges and scores endorsees from trusted seeds', async () => {
+    const seed = await registerAgent(server, 'seed');
+    await server.request('POST', '/trust/attest', { body: attestBody('seed', seed, { verificationTier: VerificationTier.AUDITED }) });
+
+    assert.equal((await server.request('POST', '/endorsements', { body: { edges: [{ endorser: 'seed' }] } })).status, 400);
+    const added = await server.request('POST', '/endorsements', {
+      body: { edges: [{ endorser: 'seed', endorsee: 'newcomer', timestamp: server.clock.now() }] },
+    });
+    assert.deepEqual(added.body, { added: 1, total: 1 });
+
+    const trust = await server.request('GET', '/endorsements/newcomer');
+    assert.equal(trust.status, 200);
+    assert.deepEqual(trust.body.seeds, ['seed']);
+    assert.equal(trust.body.endorsers, 1);
+    assert.equal((await server.request('GET', '/endorsements/nobody')).status, 404);
+  });
+
+  it('ignores submitted endorsements for agents without graph edges', async () => {
+    const { body } = await server.request('POST', '/trust/explain', {
+      body: maxedPlatformData({ agentId: 'loner', endorsementsReceived: 500, endorserAvgTrust: 1000 }),
+    });
+    assert.equal(body.components.endorsements.score, 0);
+  });
+});
+
+describe('trust events', () => {
+  let server: TestServer;
+  let receiver: http.Server;
+  const deliveries: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+  let receiverUrl: string;
+
+  before(async () => {
+    server = await startServer({ allowPrivateWebhookTargets: true });
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        deliveries.push({ headers: req.headers, body });
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+  after(async () => {
+    await server.close();
+    receiver.close();
+  });
+
+  it('manages webhooks per key', async () => {
+    const ingest = server.keys['platform-ingest'];
+    assert.equal((await server.request('POST', '/webhooks', { key: ingest, body: { url: 'ftp://x' } })).status, 400);
+    assert.equal((await server.request('POST', '/webhooks', { key: ingest, body: { url: receiverUrl, events: ['nope'] } })).status, 400);
+
+    const created = await server.request('POST', '/webhooks', { key: ingest, body: { url: 'https://example.com/hook' } });
+    assert.equal(created.status, 201);
+    assert.ok(created.body.secret);
+    const listed = await server.request('GET', '/webhooks', { key: ingest });
+    assert.deepEqual(listed.body.webhooks.map((w: any) => [w.id, w.secret]), [[created.body.id, undefined]]);
+    assert.equal((await server.request('GET', '/webhooks', { key: server.keys.reader })).status, 403);
+    assert.equal((await server.request('GET', '/webhooks')).body.webhooks.length, 1);
+
+    assert.equal((await server.request('POST', `/webhooks/${created.body.id}/delete`, { key: server.keys.reader })).status, 403);
+    assert.equal((await server.request('POST', `/webhooks/${created.body.id}/delete`, { key: ingest })).status, 200);
+  });
+
+  it('delivers signed events to webhooks and streams them', async () => {
+    const webhook = await server.request('POST', '/webhooks', { body: { url: receiverUrl, events: ['attested'] } });
+    const stream = await openStream(server, '/trust/stream?events=attested');
+
+    const wallet = await registerAgent(server, 'agent-1');
+    await server.request('POST', '/trust/attest', { body: attestBody('agent-1', wallet) });
+
+    const event = await stream.next('attested');
+    assert.equal(event.agentId, 'agent-1');
+    assert.equal(event.data.currentScore, 850);
+    stream.close();
+
+    await waitFor(() => deliveries.length > 0);
+    const [delivery] = deliveries;
+    assert.equal(delivery.headers['x-mden-event'], 'attested');
+    const timestamp = Number(delivery.headers['x-mden-timestamp']);
+    assert.equal(timestamp, Math.floor(server.clock.now() / 1000));
+    assert.ok(verifyWebhookSignature(webhook.body.secret, timestamp, delivery.body, String(delivery.headers['x-mden-signature'])));
+    assert.equal(JSON.parse(delivery.body).id, event.id);
+  });
+
+  it('replays events after Last-Event-ID', async () => {
+    const wallet = await registerAgent(server, 'agent-2');
+    await server.request('POST', '/trust/attest', { body: attestBody('agent-2', wallet) });
+    const stream = await openStream(server, '/trust/stream?agentIds=agent-2', { 'Last-Event-ID': '0-0' });
+    const event = await stream.next('attested');
+    assert.equal(event.agentId, 'agent-2');
+    stream.close();
+
+    // A restarted monitor keeps the history and carries on its sequence
+    const restarted = new TrustMonitor(undefined, server.clock, path.join(server.dataDir, 'events.jsonl'));
+    const last = restarted.since(0).pop()!;
+    assert.equal(last.seq, Number(event.id.split('-')[0]));
+    const [next] = restarted.refresh(new AttestationStore(path.join(server.dataDir, 'index.jsonl')), ['agent-2']);
+    assert.equal(next.seq, last.seq + 1);
+  });
+
+  it('announces a tier change when the tier lapses', async () => {
+    const wallet = await registerAgent(server, 'agent-3');
+    await server.request('POST', '/trust/attest', { body: attestBody('agent-3', wallet, { verificationTier: VerificationTier.AUDITED }) });
+    const store = new AttestationStore(path.join(server.dataDir, 'index.jsonl'));
+    const monitor = new TrustMonitor(undefined, server.clock);
+    monitor.refresh(store, ['agent-3'], { emit: false });
+
+    server.clock.advance(181 * DAY);
+    const [change] = monitor.refresh(store, ['agent-3']);
+    assert.equal(change.cause, 'decay');
+    const tierChanged = deriveEvents(change).find(e => e.type === 'tier_changed')!;
+    assert.deepEqual(tierChanged.data, { previousTier: VerificationTier.AUDITED, verificationTier: VerificationTier.BASIC });
+  });
+});
+
+describe('decay re-attestation', () => {
+  let server: TestServer;
+  before(async () => { server = await startServer({ decay: { threshold: 10 } }); });
+  after(() => server.close());
+
+  it('re-attests agents whose score decayed past the threshold', async () => {
+    const wallet = await registerAgent(server, 'agent-1');
+    await server.request('POST', '/trust/attest', { body: attestBody('agent-1', wallet) });
+
+    const idle = await server.request('POST', '/admin/decay/run');
+    assert.equal(idle.status, 200);
+    assert.equal(idle.body.candidates, 0);
+
+    server.clock.advance(90 * DAY);
+    const run = await server.request('POST', '/admin/decay/run');
+    assert.equal(run.body.reattested.length, 1);
+    assert.equal(run.body.reattested[0].from, 850);
+    assert.ok(run.body.reattested[0].to < 850);
+
+    const query = await server.request('GET', '/trust/query/agent-1');
+    assert.equal(query.body.attestation.version, 2);
+    assert.equal(query.body.attestation.trustScore, run.body.reattested[0].to);
+
+    const runs = await server.request('GET', '/admin/decay/runs');
+    assert.equal(runs.body.runs.length, 2);
+    assert.equal(runs.body.runs[0].reattested.length, 1);
+  });
+});
+
+/**
+ * Read a Server-Sent Events stream, one parsed event at a time
+ */
+async function openStream(server: TestServer, pathname: string, headers: Record<string, string> = {}) {
+  const controller = new AbortController();
+  const response = await fetch(server.url + pathname, {
+    headers: { Authorization: `Bearer ${server.keys.reader}`, ...headers },
+    signal: controller.signal,
+  });
+  assert.equal(response.status, 200);
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  return {
+    async next(type: string): Promise<any> {
+      for (;;) {
+        const match = buffer.match(new RegExp(`event: ${type}\\ndata: (.*)\\n\\n`));
+        if (match) {
+          buffer = buffer.slice(match.index! + match[0].length);
+          return JSON.parse(match[1]);
+        }
+        const { value, done } = await reader.read();
+        if (done) throw new Error('Stream ended');
+        buffer += decoder.decode(value, { stream: true });
+      }
+    },
+    close() {
+      controller.abort();
+    },
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
@@ -0,0 +1,249 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { runCli } from '../src/cli';
+import { SolanaAttestor } from '../src/solana-attestor';
+import { AgentRegistry } from '../src/agent-registry';
+import { AttestationStatus } from '../src/schema';
+import { signBytes } from '../src/ed25519';
+import { DAY, TEST_TIER_POLICY, TestChain, maxedPlatformData, platformData, seedWalletHistory, tempDir, testChain } from './helpers';
+
+interface Setup extends TestChain {
+  dataDir: string;
+  run(...argv: string[]): Promise<{ code: number; stdout: string; json: any }>;
+  register(agentId: string): Keypair; // With an established wallet history
+  writeJson(name: string, data: unknown): string;
+}
+
+function setup(): Setup {
+  const chain = testChain();
+  const dataDir = tempDir();
+  fs.writeFileSync(path.join(dataDir, 'oracle.json'), JSON.stringify({
+    publicKey: chain.oracle.publicKey.toBase58(),
+    secretKey: Buffer.from(chain.oracle.secretKey).toString('base64'),
+  }));
+  fs.writeFileSync(path.join(dataDir, 'tier-policy.json'), JSON.stringify(TEST_TIER_POLICY));
+
+  return {
+    ...chain,
+    dataDir,
+    async run(...argv) {
+      let stdout = '';
+      // A fresh attestor per run loads the oracle key from the data directory, as the binary does
+      const attestor = new SolanaAttestor(chain.chain, { clock: chain.clock });
+      const code = await runCli([...argv, '--data-dir', dataDir], { attestor, clock: chain.clock, stdout: text => { stdout += text; } });
+      let json: any = null;
+      try { json = JSON.parse(stdout); } catch {}
+      return { code, stdout, json };
+    },
+    register(agentId) {
+      const wallet = Keypair.generate();
+      seedWalletHistory(chain.chain, wallet.publicKey, chain.clock.now());
+      const registry = new AgentRegistry(path.join(dataDir, 'agents.jsonl'), undefined, chain.clock);
+      const challenge = registry.createChallenge(agentId, wallet.publicKey.toBase58());
+      registry.register(agentId, wallet.publicKey.toBase58(), challenge.nonce,
+        signBytes(Buffer.from(challenge.message, 'utf-8'), wallet.secretKey));
+      return wallet;
+    },
+    writeJson(name, data) {
+      const file = path.join(dataDir, name);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(data));
+      return file;
+    },
+  };
+}
+
+describe('keys and usage', () => {
+  it('generates an encrypted oracle key once unless forced', async () => {
+    const { run, dataDir } = setup();
+    fs.rmSync(path.join(dataDir, 'oracle.json'));
+    const passphrase = path.join(dataDir, 'passphrase');
+    fs.writeFileSync(passphrase, 'correct horse\n');
+    assert.equal((await run('keygen')).code, 1);
+
+    const first = await run('keygen', '--passphrase-file', passphrase);
+    assert.equal(first.code, 0);
+    const saved = JSON.parse(fs.readFileSync(first.json.path, 'utf-8'));
+    assert.equal(saved.publicKey, first.json.publicKey);
+    assert.equal(saved.secretKey, undefined);
+    assert.equal(saved.sealed.kdf, 'scrypt');
+    assert.equal(fs.statSync(first.json.path).mode & 0o777, 0o600);
+
+    assert.equal((await run('oracle', 'info')).code, 1);
+    const info = await run('oracle', 'info', '--passphrase-file', passphrase);
+    assert.equal(info.json.publicKey, first.json.publicKey);
+
+    assert.equal((await run('keygen', '--passphrase-file', passphrase)).code, 1);
+    const forced = await run('keygen', '--force', '--passphrase-file', passphrase);
+    assert.notEqual(forced.json.publicKey, first.json.publicKey);
+  });
+
+  it('encrypts a plaintext key and rotates it', async () => {
+    const { run, dataDir, oracle, chain } = setup();
+    const passphrase = path.join(dataDir, 'passphrase');
+    fs.writeFileSync(passphrase, 'correct horse');
+    const encrypted = await run('oracle', 'encrypt', '--passphrase-file', passphrase);
+    assert.equal(encrypted.code, 0);
+    assert.equal(JSON.parse(fs.readFileSync(path.join(dataDir, 'oracle.json'), 'utf-8')).secretKey, undefined);
+    assert.equal((await run('oracle', 'encrypt', '--passphrase-file', passphrase)).code, 1);
+
+    const rotated = await run('oracle', 'rotate', '--grace-hours', '1', '--passphrase-file', passphrase);
+    assert.equal(rotated.code, 0);
+    assert.equal(rotated.json.retired, oracle.publicKey.toBase58());
+    assert.notEqual(rotated.json.publicKey, rotated.json.retired);
+    assert.equal(fs.existsSync(path.join(dataDir, 'oracle.next.json')), false);
+    assert.ok(await chain.getBalance(new PublicKey(rotated.json.publicKey)) > 0);
+
+    const { json } = await run('oracle', 'info', '--passphrase-file', passphrase);
+    assert.equal(json.publicKey, rotated.json.publicKey);
+    assert.deepEqual(json.retired.map((k: any) => [k.publicKey, k.handoverSignature]), [[rotated.json.retired, rotated.json.signature]]);
+    assert.equal((await run('verify', rotated.json.signature, '--passphrase-file', passphrase)).json.valid, true);
+  });
+
+  it('reports the oracle', async () => {
+    const { run, oracle } = setup();
+    const { code, json } = await run('oracle', 'info');
+    assert.equal(code, 0);
+    assert.deepEqual(json, { publicKey: oracle.publicKey.toBase58(), retired: [], balance: 1, agents: 0 });
+  });
+
+  it('exits 2 on usage errors', async () => {
+    const { run } = setup();
+    assert.equal((await run()).code, 2);
+    assert.equal((await run('frobnicate')).code, 2);
+    assert.equal((await run('query')).code, 2);
+    assert.equal((await run('export', '--format', 'xml')).code, 2);
+    assert.equal((await run('query', 'a', '--bogus')).code, 2);
+    const help = await run('--help');
+    assert.equal(help.code, 0);
+    assert.match(help.stdout, /^Usage: moltbot-trust/);
+  });
+});
+
+describe('scoring', () => {
+  it('calculates from a file without writing on-chain', async () => {
+    const { run, writeJson, chain } = setup();
+    const file = writeJson('agents.json', [maxedPlatformData({ agentId: 'a' }), platformData({ agentId: 'b' })]);
+    const { code, json } = await run('calculate', file);
+    assert.equal(code, 0);
+    assert.deepEqual(json.map((a: any) => [a.agentId, a.trustScore]), [['a', 1000], ['b', 0]]);
+    assert.equal(chain.transactionCount, 0);
+  });
+
+  it('names the file and index of invalid data', async () => {
+    const { run, writeJson } = setup();
+    const file = writeJson('bad.json', [platformData(), platformData({ uptimePercent: 101 })]);
+    assert.equal((await run('calculate', file)).code, 1);
+    assert.equal((await run('calculate', path.join(file, 'missing'))).code, 1);
+    assert.equal((await run('calculate', file, '--model', 'missing@1')).code, 1);
+  });
+});
+
+describe('attestation', () => {
+  it('attests a directory, skipping unregistered wallets', async () => {
+    const { run, register, writeJson, dataDir, chain } = setup();
+    const one = register('agent-1');
+    const two = register('agent-2');
+    writeJson('in/one.json', maxedPlatformData({ agentId: 'agent-1', solanaWallet: one.publicKey.toBase58() }));
+    writeJson('in/more.json', [
+      maxedPlatformData({ agentId: 'agent-2', solanaWallet: two.publicKey.toBase58() }),
+      maxedPlatformData({ agentId: 'agent-3' }),
+    ]);
+    const seeded = chain.transactionCount;
+
+    const dryRun = await run('attest', path.join(dataDir, 'in'), '--dry-run');
+    assert.equal(dryRun.code, 1);
+    assert.equal(dryRun.json.dryRun, true);
+    assert.equal(dryRun.json.results[0].attestation.version, 1);
+    assert.ok(dryRun.json.results[0].attestation.oracleSignature);
+    assert.equal(chain.transactionCount, seeded);
+
+    const { code, json } = await run('attest', path.join(dataDir, 'in'));
+    assert.equal(code, 1);
+    assert.deepEqual(json.results.map((r: any) => r.agentId), ['agent-2', 'agent-3', 'agent-1']);
+    assert.equal(json.succeeded, 2);
+    assert.match(json.results[1].error, /not registered/);
+    assert.equal(json.transactions, chain.transactionCount - seeded);
+  });
+
+  it('queries, verifies and lists history', async () => {
+    const { run, register, writeJson, clock } = setup();
+    const wallet = register('agent-1');
+    const data = maxedPlatformData({ agentId: 'agent-1', solanaWallet: wallet.publicKey.toBase58() });
+    const first = await run('attest', writeJson('agent.json', data));
+    assert.equal(first.code, 0);
+
+    clock.advance(30 * DAY);
+    const query = await run('query', 'agent-1');
+    assert.equal(query.code, 0);
+    // Submitted endorsements don't count, only the graph's
+    assert.equal(query.json.attestation.trustScore, 850);
+    assert.ok(query.json.currentScore < 850);
+
+    const signature = first.json.results[0].signature;
+    const verified = await run('verify', signature);
+    assert.equal(verified.code, 0);
+    assert.equal(verified.json.valid, true);
+    assert.equal(verified.json.attestations[0].verification.valid, true);
+    assert.equal((await run('verify', 'unknown')).code, 1);
+
+    await run('attest', writeJson('agent.json', { ...data, lastActivityAt: clock.now() }));
+    const history = await run('history', 'agent-1');
+    assert.deepEqual(history.json.history.map((h: any) => h.version), [1, 2]);
+    assert.equal((await run('history', 'agent-9')).code, 1);
+    assert.equal((await run('query', 'agent-9')).code, 1);
+  });
+
+  it('rejects transactions the oracle did not pay for', async () => {
+    const { run, chain } = setup();
+    const impostor = new SolanaAttestor(chain);
+    const { publicKey } = impostor.generateOracle();
+    chain.fund(new PublicKey(publicKey), 1);
+    const signature = await impostor.writeStatusChange('agent-1', AttestationStatus.REVOKED, 'forged');
+
+    const { code, json } = await run('verify', signature);
+    assert.equal(code, 1);
+    assert.equal(json.oraclePaid, false);
+    assert.equal(json.statusChanges.length, 1);
+  });
+});
+
+describe('export', () => {
+  let fixture: Setup;
+  before(async () => {
+    fixture = setup();
+    for (const agentId of ['b-agent', 'a-agent']) {
+      const wallet = fixture.register(agentId);
+      await fixture.run('attest', fixture.writeJson(`${agentId}.json`,
+        maxedPlatformData({ agentId, agentName: 'Agent, "quoted"', solanaWallet: wallet.publicKey.toBase58() })));
+    }
+    await fixture.attestor.writeStatusChange('b-agent', AttestationStatus.SUSPENDED, 'review');
+  });
+  after(() => fs.rmSync(fixture.dataDir, { recursive: true, force: true }));
+
+  it('exports JSON rows sorted by agent', async () => {
+    const { code, json } = await fixture.run('export');
+    assert.equal(code, 0);
+    assert.deepEqual(json.map((r: any) => [r.agentId, r.status, r.currentScore]), [
+      ['a-agent', 'ACTIVE', 850],
+      ['b-agent', 'SUSPENDED', 0],
+    ]);
+    assert.equal(json[0].verificationTier, 'ENTERPRISE');
+    assert.equal(json[0].attestedAt, new Date(fixture.clock.now()).toISOString());
+  });
+
+  it('exports CSV to a file', async () => {
+    const out = path.join(fixture.dataDir, 'export.csv');
+    const { code, stdout } = await fixture.run('export', '--format', 'csv', '--out', out);
+    assert.equal(code, 0);
+    assert.equal(stdout, '');
+    const [header, first, second, ...rest] = fs.readFileSync(out, 'utf-8').split('\n');
+    assert.match(header, /^agentId,agentName,solanaWallet,status,trustScore,currentScore,platformActivity,/);
+    assert.match(first, /^a-agent,"Agent, ""quoted""",\w+,ACTIVE,850,850,/);
+    assert.match(second, /^b-agent,.*,SUSPENDED,850,0,/);
+    assert.deepEqual(rest, ['']);
+  });
+});
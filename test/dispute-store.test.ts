@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { DisputeError, DisputeFiling, DisputeStore, disputeMessage } from '../src/dispute-store';
+import { signBytes } from '../src/ed25519';
+import { ManualClock } from '../src/clock';
+import { START, tempDir } from './helpers';
+
+function signed(wallet: Keypair, overrides: Partial<DisputeFiling> = {}): DisputeFiling {
+  const unsigned = {
+    agentId: 'agent-1',
+    attestationSignature: 'sig-1',
+    reason: 'Review count is wrong',
+    evidence: [{ description: 'Reviews page' }],
+    filedAt: START,
+    ...overrides,
+  };
+  return { ...unsigned, signature: signBytes(Buffer.from(disputeMessage(unsigned), 'utf-8'), wallet.secretKey) };
+}
+
+describe('dispute store', () => {
+  it('keeps one open dispute per agent and persists resolutions', () => {
+    const dir = tempDir();
+    try {
+      const file = path.join(dir, 'disputes.jsonl');
+      const clock = new ManualClock(START);
+      const wallet = Keypair.generate();
+      const disputes = new DisputeStore(file, clock);
+
+      const first = disputes.file(signed(wallet), wallet.publicKey.toBase58());
+      assert.throws(() => disputes.file(signed(wallet, { reason: 'Also this' }), wallet.publicKey.toBase58()),
+        (err: unknown) => err instanceof DisputeError && err.kind === 'conflict');
+      assert.throws(() => disputes.file(signed(wallet, { evidence: [] }), wallet.publicKey.toBase58()), /evidence must be/);
+
+      clock.advance(1000);
+      const resolved = disputes.resolve(first.id, { decision: 'upheld', note: 'ok', resolvedBy: 'reviewer', correctedSignature: 'sig-2' });
+      assert.equal(resolved.resolution!.resolvedAt, START + 1000);
+      assert.throws(() => disputes.resolve(first.id, { decision: 'rejected', note: 'no', resolvedBy: 'reviewer' }), /already upheld/);
+      assert.throws(() => disputes.resolve('missing', { decision: 'rejected', note: 'no', resolvedBy: 'reviewer' }),
+        (err: unknown) => err instanceof DisputeError && err.kind === 'not_found');
+
+      // A reloaded store has the resolution and still refuses the replayed filing
+      const reloaded = new DisputeStore(file, clock);
+      assert.equal(reloaded.get(first.id)!.status, 'upheld');
+      assert.equal(reloaded.openFor('agent-1'), undefined);
+      assert.throws(() => reloaded.file(signed(wallet), wallet.publicKey.toBase58()), /already been submitted/);
+      const second = reloaded.file(signed(wallet, { reason: 'Still wrong' }), wallet.publicKey.toBase58());
+      assert.deepEqual(reloaded.list({ status: 'open' }).map(d => d.id), [second.id]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Test helpers: platform data fixtures, an attestor on an in-memory chain,
+ * and an API server wired to it
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { AgentPlatformData } from '../src/trust-engine';
+import { VerificationTier } from '../src/schema';
+import { FakeChain } from '../src/fake-chain';
+import { ManualClock } from '../src/clock';
+import { SolanaAttestor } from '../src/solana-attestor';
+import { ApiKeyStore, ApiRole } from '../src/api-auth';
+import { createServer, TrustApiOptions } from '../src/api';
+import { DEFAULT_TIER_POLICY, TierPolicy } from '../src/verification-tiers';
+import { signBytes } from '../src/ed25519';
+
+export const START = Date.UTC(2026, 0, 1);
+export const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * The default policy less VERIFIED's endorsement rule: attested endorsements
+ * come from the graph, which most test agents aren't in
+ */
+export const TEST_TIER_POLICY: TierPolicy = {
+  ...DEFAULT_TIER_POLICY,
+  VERIFIED: { ...DEFAULT_TIER_POLICY.VERIFIED, requires: [{ input: 'verifiedSkills', min: 3 }] },
+};
+
+export function platformData(overrides: Partial<AgentPlatformData> = {}): AgentPlatformData {
+  return {
+    agentId: 'agent-1',
+    agentName: 'Agent One',
+    solanaWallet: Keypair.generate().publicKey.toBase58(),
+    denMessages: 0,
+    dmsSent: 0,
+    promptResponses: 0,
+    verifiedSkills: 0,
+    totalSkills: 0,
+    endorsementsReceived: 0,
+    endorserAvgTrust: 0,
+    reviewCount: 0,
+    avgReviewScore: 0,
+    uptimePercent: 0,
+    responseQuality: 0,
+    walletAge: 0,
+    txCount: 0,
+    securityAuditPassed: false,
+    auditScore: 0,
+    accountAgeDays: 0,
+    verificationTier: VerificationTier.UNVERIFIED,
+    lastActivityAt: START,
+    ...overrides,
+  };
+}
+
+// Every input saturated: the maximum score
+export function maxedPlatformData(overrides: Partial<AgentPlatformData> = {}): AgentPlatformData {
+  return platformData({
+    denMessages: 100,
+    dmsSent: 50,
+    promptResponses: 10,
+    verifiedSkills: 10,
+    totalSkills: 10,
+    endorsementsReceived: 20,
+    endorserAvgTrust: 1000,
+    reviewCount: 15,
+    avgReviewScore: 5,
+    uptimePercent: 100,
+    responseQuality: 100,
+    walletAge: 365,
+    txCount: 100,
+    counterparties: 25,
+    failedTxRatio: 0,
+    flaggedInteractions: 0,
+    securityAuditPassed: true,
+    auditScore: 100,
+    accountAgeDays: 180,
+    verificationTier: VerificationTier.ENTERPRISE, // Uncapped, and its rules are met
+    ...overrides,
+  });
+}
+
+/**
+ * Give a wallet the history maxedPlatformData claims: a year old, 100
+ * transactions with 25 counterparties, none failed
+ */
+export function seedWalletHistory(chain: FakeChain, wallet: PublicKey, now = START): PublicKey[] {
+  const counterparties = Array.from({ length: 25 }, () => PublicKey.unique());
+  for (let i = 0; i < 100; i++) {
+    chain.recordTransaction({ accounts: [wallet, counterparties[i % 25]], at: now - (400 - i) * DAY });
+  }
+  return counterparties;
+}
+
+export function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'mden-trust-test-'));
+}
+
+export interface TestChain {
+  clock: ManualClock;
+  chain: FakeChain;
+  attestor: SolanaAttestor;
+  oracle: Keypair;
+}
+
+/**
+ * An attestor with a funded oracle on a fresh in-memory chain
+ */
+export function testChain(start = START): TestChain {
+  const clock = new ManualClock(start);
+  const chain = new FakeChain(clock);
+  const attestor = new SolanaAttestor(chain, { clock });
+  const { secretKey } = attestor.generateOracle();
+  const oracle = Keypair.fromSecretKey(Buffer.from(secretKey, 'base64'));
+  chain.fund(oracle.publicKey, 1);
+  return { clock, chain, attestor, oracle };
+}
+
+export interface TestServer extends TestChain {
+  dataDir: string;
+  url: string;
+  keys: Record<ApiRole, string>;
+  request(method: string, pathname: string, options?: { body?: unknown; key?: string | null; headers?: Record<string, string> }): Promise<{ status: number; headers: Headers; body: any }>;
+  close(): Promise<void>;
+}
+
+/**
+ * An API server on an ephemeral port, with one key per role
+ */
+export async function startServer(options: TrustApiOptions = {}): Promise<TestServer> {
+  const chain = testChain();
+  const dataDir = tempDir();
+  const apiKeys = new ApiKeyStore(path.join(dataDir, 'api-keys.json'), chain.clock);
+  const keys = {
+    'reader': apiKeys.create('reader', 'reader', 10_000).key,
+    'platform-ingest': apiKeys.create('ingest', 'platform-ingest', 10_000).key,
+    'reviewer': apiKeys.create('reviewer', 'reviewer', 10_000).key,
+    'oracle-admin': apiKeys.create('admin', 'oracle-admin', 10_000).key,
+  };
+
+  const server = createServer({ attestor: chain.attestor, clock: chain.clock, dataDir, apiKeys, tierPolicy: TEST_TIER_POLICY, ...options });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    ...chain,
+    dataDir,
+    url: base,
+    keys,
+    async request(method, pathname, { body, key = keys['oracle-admin'], headers = {} } = {}) {
+      const response = await fetch(base + pathname, {
+        method,
+        headers: {
+          ...(key ? { Authorization: `Bearer ${key}` } : {}),
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...headers,
+        },
+        body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+      });
+      const text = await response.text();
+      return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : null };
+    },
+    async close() {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Bind an agent to a wallet through the registration endpoints: a fresh one
+ * with an established history unless one is given
+ */
+export async function registerAgent(server: TestServer, agentId: string, existing?: Keypair): Promise<Keypair> {
+  const wallet = existing ?? Keypair.generate();
+  if (!existing) seedWalletHistory(server.chain, wallet.publicKey, server.clock.now());
+  const solanaWallet = wallet.publicKey.toBase58();
+  const challenge = await server.request('POST', '/agents/register/challenge', { body: { agentId, solanaWallet } });
+  const signature = signBytes(Buffer.from(challenge.body.message, 'utf-8'), wallet.secretKey);
+  const registered = await server.request('POST', '/agents/register', {
+    body: { agentId, solanaWallet, nonce: challenge.body.nonce, signature },
+  });
+  if (registered.status !== 200) throw new Error(`Registration failed: ${JSON.stringify(registered.body)}`);
+  return wallet;
+}
@@ -0,0 +1,215 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { SolanaAttestor } from '../src/solana-attestor';
+import { AttestationStore } from '../src/attestation-store';
+import { KeystoreError, readOracleKey, writeOracleKey } from '../src/oracle-keystore';
+import { KeypairSigner, OracleSigner } from '../src/oracle-signer';
+import { signKeyHandover, verifyKeyHandover } from '../src/key-rotation';
+import { verifyAttestation } from '../src/attestation-signing';
+import { calculateTrustScore } from '../src/trust-engine';
+import { FAKE_CHAIN_FEE_LAMPORTS } from '../src/fake-chain';
+import { DAY, START, maxedPlatformData, startServer, tempDir, testChain } from './helpers';
+
+function attest(attestor: SolanaAttestor, agentId: string, now: number): Promise<string> {
+  return attestor.prepareAttestation(calculateTrustScore(maxedPlatformData({ agentId }), { now }), null)
+    .then(attestation => attestor.writeAttestation(attestation));
+}
+
+describe('keystore', () => {
+  it('encrypts the key at rest and needs the passphrase to load it', () => {
+    const dir = tempDir();
+    try {
+      const file = path.join(dir, 'oracle.json');
+      const keypair = Keypair.generate();
+      const retired = [{ publicKey: Keypair.generate().publicKey.toBase58(), cutoff: START, handoverSignature: 'sig' }];
+      writeOracleKey(file, keypair, { passphrase: 'correct horse', retired });
+
+      const content = fs.readFileSync(file, 'utf-8');
+      assert.ok(!content.includes(Buffer.from(keypair.secretKey).toString('base64')));
+      assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+
+      const loaded = readOracleKey(file, 'correct horse');
+      assert.deepEqual(loaded.keypair.secretKey, keypair.secretKey);
+      assert.equal(loaded.encrypted, true);
+      assert.deepEqual(loaded.retired, retired);
+
+      assert.throws(() => readOracleKey(file), /is encrypted: set MDEN_ORACLE_PASSPHRASE/);
+      assert.throws(() => readOracleKey(file, 'wrong horse'), KeystoreError);
+
+      // The public key is bound to the ciphertext
+      const swapped = { ...JSON.parse(content), publicKey: Keypair.generate().publicKey.toBase58() };
+      fs.writeFileSync(file, JSON.stringify(swapped));
+      assert.throws(() => readOracleKey(file, 'correct horse'), /wrong passphrase or corrupted/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('still reads plaintext key files', () => {
+    const dir = tempDir();
+    try {
+      const file = path.join(dir, 'oracle.json');
+      const keypair = Keypair.generate();
+      fs.writeFileSync(file, JSON.stringify({
+        publicKey: keypair.publicKey.toBase58(),
+        secretKey: Buffer.from(keypair.secretKey).toString('base64'),
+      }));
+      const loaded = readOracleKey(file, 'unused');
+      assert.equal(loaded.encrypted, false);
+      assert.equal(loaded.keypair.publicKey.toBase58(), keypair.publicKey.toBase58());
+      assert.throws(() => readOracleKey(path.join(dir, 'missing.json')), KeystoreError);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('signers', () => {
+  it('signs payloads and transactions through any OracleSigner', async () => {
+    const { chain, clock } = testChain();
+    const keypair = Keypair.generate();
+    const local = new KeypairSigner(keypair);
+    const requests: number[] = [];
+    // Stands in for a remote signer: async, and never exposes the key
+    const remote: OracleSigner = {
+      publicKey: keypair.publicKey,
+      async sign(message) {
+        requests.push(message.length);
+        await new Promise(resolve => setImmediate(resolve));
+        return local.sign(message);
+      },
+    };
+    chain.fund(keypair.publicKey, 1);
+
+    const attestor = new SolanaAttestor(chain, { clock });
+    attestor.useSigner(remote);
+    await attest(attestor, 'agent-1', START);
+    assert.equal(requests.length, 2); // The payload hash, then the transaction
+
+    const [record] = await attestor.readAttestations();
+    assert.equal(verifyAttestation(record.attestation, [keypair.publicKey.toBase58()]).valid, true);
+  });
+});
+
+describe('key handovers', () => {
+  it('are signed by both keys, with the cutoff not before the handover', async () => {
+    const from = new KeypairSigner(Keypair.generate());
+    const to = new KeypairSigner(Keypair.generate());
+    const handover = await signKeyHandover(from, to, START, START + DAY);
+    assert.deepEqual(verifyKeyHandover(handover), []);
+
+    const impostor = new KeypairSigner(Keypair.generate());
+    const hijacked = { ...handover, to: impostor.publicKey.toBase58() };
+    assert.deepEqual(verifyKeyHandover(hijacked), ['Invalid signature by the retiring key', 'Invalid signature by the successor key']);
+    assert.equal(verifyKeyHandover({ ...handover, cutoff: START + 2 * DAY }).length, 2);
+
+    await assert.rejects(signKeyHandover(from, to, START, START - 1000), /cutoff must not be before handedOverAt/);
+    await assert.rejects(signKeyHandover(from, from, START), /different keys/);
+  });
+});
+
+describe('rotation', () => {
+  it('hands over to the new key and moves the SOL', async () => {
+    const { attestor, chain, oracle, clock } = testChain();
+    await attest(attestor, 'agent-1', START);
+    const before = await chain.getBalance(oracle.publicKey);
+
+    const next = Keypair.generate();
+    clock.advance(1000);
+    const { handover, signature } = await attestor.rotateOracle(new KeypairSigner(next));
+    assert.equal(attestor.oraclePublicKey, next.publicKey.toBase58());
+    assert.deepEqual(attestor.retiredOracles, [{ publicKey: oracle.publicKey.toBase58(), cutoff: clock.now(), handoverSignature: signature }]);
+    assert.equal(await chain.getBalance(oracle.publicKey), 0);
+    assert.equal(await chain.getBalance(next.publicKey), before - 2 * FAKE_CHAIN_FEE_LAMPORTS);
+
+    const verification = (await attestor.verifyTransaction(signature))!;
+    assert.equal(verification.valid, true);
+    assert.deepEqual(verification.keyHandovers, [{ handover, errors: [] }]);
+
+    // Readers that only know the old key find its successor
+    const reader = new SolanaAttestor(chain, { clock });
+    reader.generateOracle();
+    assert.equal((await reader.readKeyHandover(oracle.publicKey.toBase58()))!.handover.to, next.publicKey.toBase58());
+    assert.equal(await reader.readKeyHandover(next.publicKey.toBase58()), null);
+  });
+
+  it('keeps records of the retired key before the cutoff and rejects them after', async () => {
+    const { attestor, chain, oracle, clock } = testChain();
+    await attest(attestor, 'agent-1', START);
+    const next = Keypair.generate();
+    await attestor.rotateOracle(new KeypairSigner(next), { cutoff: START + DAY });
+    await attest(attestor, 'agent-2', START);
+
+    // Whoever still holds the old key keeps writing with it
+    const leaked = new SolanaAttestor(chain, { clock });
+    leaked.initOracle(oracle.secretKey);
+    chain.fund(oracle.publicKey, 1);
+    const inGrace = await attest(leaked, 'agent-3', START);
+    clock.advance(DAY + 1000);
+    const afterCutoff = await attest(leaked, 'agent-4', clock.now());
+
+    assert.equal((await attestor.verifyTransaction(inGrace))!.valid, true);
+    const rejected = (await attestor.verifyTransaction(afterCutoff))!;
+    assert.equal(rejected.oraclePaid, false);
+    assert.equal(rejected.valid, false);
+
+    // A fresh index walks the new key's history and the retired key's, once
+    const dir = tempDir();
+    try {
+      const store = new AttestationStore(path.join(dir, 'index.jsonl'));
+      await store.sync(attestor);
+      assert.deepEqual(store.latestAll().map(r => r.attestation.agentId).sort(), ['agent-1', 'agent-2', 'agent-3']);
+      assert.equal(store.latest('agent-2')!.attestation.attestedBy, next.publicKey.toBase58());
+
+      const reloaded = new AttestationStore(path.join(dir, 'index.jsonl'));
+      assert.equal((await reloaded.sync(attestor)).transactions, 0);
+      assert.equal(reloaded.agentCount, 3);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('honors only the first handover of a key', async () => {
+    const { attestor, chain, oracle, clock } = testChain();
+    const next = Keypair.generate();
+    await attestor.rotateOracle(new KeypairSigner(next));
+
+    const leaked = new SolanaAttestor(chain, { clock });
+    leaked.initOracle(oracle.secretKey);
+    chain.fund(oracle.publicKey, 1);
+    clock.advance(DAY);
+    await leaked.rotateOracle(new KeypairSigner(Keypair.generate()));
+
+    const handover = await attestor.readKeyHandover(oracle.publicKey.toBase58());
+    assert.equal(handover!.handover.to, next.publicKey.toBase58());
+  });
+
+  it('verifies a retired key\'s attestations only against the block time', async () => {
+    const server = await startServer();
+    try {
+      const { attestor, chain, oracle, clock } = server;
+      const inGrace = await attest(attestor, 'agent-1', START);
+      const [{ attestation }] = (await attestor.verifyTransaction(inGrace))!.attestations;
+      await attestor.rotateOracle(new KeypairSigner(Keypair.generate()));
+      const verify = async (body: object) => (await server.request('POST', '/trust/verify', { body })).body;
+      assert.equal((await verify({ attestation })).valid, false);
+      assert.equal((await verify({ attestation, signature: inGrace })).valid, true);
+
+      // The leaked key backdates a payload to before its cutoff
+      clock.advance(DAY);
+      const leaked = new SolanaAttestor(chain, { clock });
+      leaked.initOracle(oracle.secretKey);
+      chain.fund(oracle.publicKey, 1);
+      const backdated = await leaked.prepareAttestation(calculateTrustScore(maxedPlatformData({ agentId: 'agent-2' }), { now: START - DAY }), null);
+      assert.equal((await verify({ attestation: backdated })).valid, false);
+      const written = await leaked.writeAttestation(backdated);
+      assert.equal((await verify({ attestation: backdated, signature: written })).valid, false);
+      assert.equal((await verify({ attestation: backdated, signature: inGrace })).valid, false);
+    } finally {
+      await server.close();
+    }
+  });
+});
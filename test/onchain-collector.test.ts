@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { applyWalletActivity } from '../src/onchain-collector';
+import { calculateTrustScore } from '../src/trust-engine';
+import { platformDataIssues } from '../src/validation';
+import { DAY, START, maxedPlatformData, platformData, seedWalletHistory, testChain } from './helpers';
+
+describe('wallet activity', () => {
+  it('reads age, transactions, failures and counterparties from the history', async () => {
+    const { attestor, chain } = testChain();
+    const wallet = Keypair.generate().publicKey;
+    const [flagged, other] = [PublicKey.unique(), PublicKey.unique()];
+    chain.recordTransaction({ accounts: [wallet, flagged], at: START - 100 * DAY });
+    chain.recordTransaction({ accounts: [other, wallet], at: START - 50 * DAY, failed: true });
+    chain.recordTransaction({ accounts: [wallet, other], at: START - DAY });
+
+    const activity = await attestor.onchainCollector({ flaggedAddresses: [flagged.toBase58()] }).collect(wallet.toBase58());
+    assert.deepEqual(activity, {
+      wallet: wallet.toBase58(),
+      firstSeenAt: START - 100 * DAY,
+      historyComplete: true,
+      txCount: 2,
+      failedTxCount: 1,
+      failedTxRatio: 1 / 3,
+      counterparties: 2, // The system program isn't a counterparty
+      flaggedCounterparties: [flagged.toBase58()],
+      sampledTransactions: 3,
+      collectedAt: START,
+    });
+
+    const data = applyWalletActivity(platformData({ walletAge: 999, txCount: 999 }), activity);
+    assert.equal(data.walletAge, 100);
+    assert.equal(data.txCount, 2);
+    assert.equal(data.flaggedInteractions, 1);
+  });
+
+  it('is empty for a wallet without history', async () => {
+    const { attestor } = testChain();
+    const activity = await attestor.onchainCollector().collect(Keypair.generate().publicKey.toBase58());
+    assert.equal(activity.firstSeenAt, null);
+    assert.equal(activity.failedTxRatio, 0);
+    const attestation = calculateTrustScore(applyWalletActivity(maxedPlatformData(), activity), { now: START });
+    assert.equal(attestation.onchainReputation, 0);
+  });
+
+  it('scores a seeded history like the maxed fixture', async () => {
+    const { attestor, chain } = testChain();
+    const wallet = Keypair.generate().publicKey;
+    seedWalletHistory(chain, wallet);
+    const activity = await attestor.onchainCollector().collect(wallet.toBase58());
+    const attestation = calculateTrustScore(applyWalletActivity(maxedPlatformData(), activity), { now: START });
+    assert.equal(attestation.trustScore, 1000);
+  });
+
+  it('bounds the scan and the transactions it fetches', async () => {
+    const { attestor, chain } = testChain();
+    const wallet = Keypair.generate().publicKey;
+    seedWalletHistory(chain, wallet);
+    const activity = await attestor.onchainCollector({ maxSignatures: 30, sampleSize: 5 }).collect(wallet.toBase58());
+    assert.equal(activity.historyComplete, false);
+    assert.equal(activity.txCount, 30);
+    assert.equal(activity.firstSeenAt, START - 330 * DAY); // The oldest of the newest 30
+    assert.equal(activity.sampledTransactions, 5);
+    assert.equal(activity.counterparties, 5);
+  });
+
+  it('accepts collected inputs in platform data within their scales', () => {
+    assert.deepEqual(platformDataIssues(platformData({ counterparties: 3, failedTxRatio: 0.5, flaggedInteractions: 0 })), []);
+    const issues = platformDataIssues(platformData({ failedTxRatio: 2, counterparties: 1.5 }));
+    assert.deepEqual(issues.map(i => [i.field, i.code]), [['counterparties', 'invalid_type'], ['failedTxRatio', 'out_of_range']]);
+  });
+});
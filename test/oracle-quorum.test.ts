@@ -0,0 +1,244 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { SolanaAttestor } from '../src/solana-attestor';
+import { FakeChain } from '../src/fake-chain';
+import { ManualClock } from '../src/clock';
+import { HttpOraclePeer, OraclePeer, OracleSet, QuorumError, validateOracleSet, verifyQuorum } from '../src/oracle-quorum';
+import { calculateTrustScore, decayAttestation } from '../src/trust-engine';
+import { decodeAttestation, encodeAttestation } from '../src/schema';
+import { DAY, START, maxedPlatformData, registerAgent, seedWalletHistory, startServer } from './helpers';
+
+function localPeer(member: SolanaAttestor): OraclePeer {
+  return { publicKey: member.oraclePublicKey!, cosign: request => member.cosign(request) };
+}
+
+function downPeer(member: SolanaAttestor): OraclePeer {
+  return { publicKey: member.oraclePublicKey!, cosign: async () => { throw new Error('connect ECONNREFUSED'); } };
+}
+
+/**
+ * A 2-of-3 oracle set on one chain: a coordinator that writes, and two members
+ */
+function quorumSetup(overrides: Partial<OracleSet> = {}) {
+  const clock = new ManualClock(START);
+  const chain = new FakeChain(clock);
+  const keys = [Keypair.generate(), Keypair.generate(), Keypair.generate()];
+  const oracleSet: OracleSet = { oracles: keys.map(k => k.publicKey.toBase58()), threshold: 2, tolerance: 5, ...overrides };
+
+  const [, b, c] = keys.map(key => {
+    const member = new SolanaAttestor(chain, { clock, oracleSet });
+    member.initOracle(key.secretKey);
+    return member;
+  });
+  const coordinator = (peers: OraclePeer[] = [localPeer(b), localPeer(c)]) => {
+    const attestor = new SolanaAttestor(chain, { clock, oracleSet, peers });
+    attestor.initOracle(keys[0].secretKey);
+    return attestor;
+  };
+  chain.fund(keys[0].publicKey, 1);
+
+  const data = maxedPlatformData({ agentId: 'agent-1', denMessages: 50 });
+  return { clock, chain, keys, oracleSet, b, c, coordinator, data };
+}
+
+describe('oracle sets', () => {
+  it('validates the threshold and members', () => {
+    const oracles = [Keypair.generate(), Keypair.generate()].map(k => k.publicKey.toBase58());
+    validateOracleSet({ oracles, threshold: 2, tolerance: 0 });
+    assert.throws(() => validateOracleSet({ oracles, threshold: 3, tolerance: 0 }), QuorumError);
+    assert.throws(() => validateOracleSet({ oracles: [oracles[0], oracles[0]], threshold: 1, tolerance: 0 }), /distinct/);
+    assert.throws(() => validateOracleSet({ oracles, threshold: 1, tolerance: -1 }), /tolerance/);
+  });
+
+  it('counts only valid signatures of members', async () => {
+    const { coordinator, data, oracleSet } = quorumSetup();
+    const attestor = coordinator();
+    const proposal = await attestor.prepareAttestation(calculateTrustScore(data, { now: START }), null);
+    assert.deepEqual(verifyQuorum(proposal, oracleSet).signers, [proposal.attestedBy]);
+    assert.equal(verifyQuorum(proposal, oracleSet).final, false);
+
+    const final = await attestor.collectCoSignatures(proposal, { data });
+    assert.equal(final.coSignatures!.length, 2);
+    assert.equal(verifyQuorum(final, oracleSet).signers.length, 3);
+
+    const outsider = Keypair.generate().publicKey.toBase58();
+    const forged = { ...final, coSignatures: [{ ...final.coSignatures![0], oracle: outsider }, { ...final.coSignatures![1], signature: final.oracleSignature! }] };
+    const result = verifyQuorum(forged, oracleSet);
+    assert.equal(result.final, false);
+    assert.match(result.errors.join('\n'), /is not in the oracle set/);
+    assert.match(result.errors.join('\n'), /Invalid signature/);
+  });
+
+  it('round-trips co-signatures through the binary encoding', async () => {
+    const { coordinator, data } = quorumSetup();
+    const attestor = coordinator();
+    const final = await attestor.collectCoSignatures(await attestor.prepareAttestation(calculateTrustScore(data, { now: START }), null), { data });
+    const decoded = decodeAttestation(encodeAttestation(final), final.attestedBy);
+    assert.deepEqual(decoded.coSignatures, final.coSignatures);
+    assert.equal(decodeAttestation(encodeAttestation({ ...final, coSignatures: undefined }), final.attestedBy).coSignatures, undefined);
+  });
+});
+
+describe('co-signing', () => {
+  it('co-signs proposals that agree within tolerance', async () => {
+    const { coordinator, data, b } = quorumSetup();
+    const attestor = coordinator();
+    const computed = calculateTrustScore(data, { now: START });
+    const close = await attestor.prepareAttestation({ ...computed, trustScore: computed.trustScore + 5 }, null);
+    assert.equal((await b.cosign({ proposal: close, data })).oracle, b.oraclePublicKey);
+
+    const far = await attestor.prepareAttestation({ ...computed, platformActivity: computed.platformActivity + 6 }, null);
+    await assert.rejects(b.cosign({ proposal: far, data }), /platformActivity: proposed \d+, computed \d+/);
+    const renamed = await attestor.prepareAttestation({ ...computed, solanaWallet: Keypair.generate().publicKey.toBase58() }, null);
+    await assert.rejects(b.cosign({ proposal: renamed, data }), /solanaWallet/);
+  });
+
+  it('refuses proposals from outside the set or out of time', async () => {
+    const { coordinator, data, b, clock } = quorumSetup();
+    const outsider = new SolanaAttestor(new FakeChain(clock), { clock });
+    outsider.generateOracle();
+    const foreign = await outsider.prepareAttestation(calculateTrustScore(data, { now: START }), null);
+    await assert.rejects(b.cosign({ proposal: foreign, data }), /not signed by a member/);
+
+    const proposal = await coordinator().prepareAttestation(calculateTrustScore(data, { now: START - 10 * 60 * 1000 }), null);
+    await assert.rejects(b.cosign({ proposal, data }), /too far/);
+  });
+
+  it('requires the co-signer to be a member', async () => {
+    const { coordinator, data, clock } = quorumSetup();
+    const proposal = await coordinator().prepareAttestation(calculateTrustScore(data, { now: START }), null);
+    const stranger = new SolanaAttestor(new FakeChain(clock), { clock });
+    stranger.generateOracle();
+    await assert.rejects(stranger.cosign({ proposal, data }), /not a member/);
+  });
+
+  it('co-signs decay re-attestations from the previous final attestation', async () => {
+    const { coordinator, data, b, clock } = quorumSetup();
+    const attestor = coordinator();
+    await attestor.writeAttestation(
+      await attestor.collectCoSignatures(await attestor.prepareAttestation(calculateTrustScore(data, { now: START }), null), { data }));
+    const [previous] = await attestor.readAttestations();
+
+    clock.advance(60 * DAY);
+    const proposal = await attestor.prepareAttestation(decayAttestation(previous.attestation, clock.now()), previous);
+    assert.equal(proposal.coSignatures, undefined);
+    assert.ok(await b.cosign({ proposal, decayedFrom: previous.attestation }));
+
+    const undecayed = await attestor.prepareAttestation({ ...previous.attestation, attestedAt: clock.now() }, previous);
+    await assert.rejects(b.cosign({ proposal: undecayed, decayedFrom: previous.attestation }), /trustScore/);
+    const other = { ...previous.attestation, agentId: 'agent-2' };
+    await assert.rejects(b.cosign({ proposal, decayedFrom: other }), /same agent/);
+  });
+
+  it('refuses to decay an attestation only one oracle signed', async () => {
+    const { coordinator, keys, data, b, chain, clock } = quorumSetup();
+    // A rogue member invents a perfect score and writes it without the set
+    const rogue = new SolanaAttestor(chain, { clock });
+    rogue.initOracle(keys[0].secretKey);
+    const invented = await rogue.prepareAttestation({ ...calculateTrustScore(data, { now: START }), trustScore: 1000 }, null);
+    const signature = await rogue.writeAttestation(invented);
+    const record = { attestation: invented, signature, slot: 0, blockTime: 0 };
+
+    clock.advance(60 * DAY);
+    const proposal = await coordinator().prepareAttestation(decayAttestation(invented, clock.now()), record);
+    await assert.rejects(b.cosign({ proposal, decayedFrom: invented }), /not the latest final attestation of agent-1/);
+    const unwritten = await coordinator().prepareAttestation(decayAttestation(invented, clock.now()), { ...record, signature: 'unknown' });
+    await assert.rejects(b.cosign({ proposal: unwritten, decayedFrom: invented }), /not the latest final attestation/);
+  });
+});
+
+describe('finality', () => {
+  it('collects a quorum despite one member being down, but not two', async () => {
+    const { coordinator, data, b, c } = quorumSetup();
+    const degraded = coordinator([localPeer(b), downPeer(c)]);
+    const proposal = await degraded.prepareAttestation(calculateTrustScore(data, { now: START }), null);
+    const final = await degraded.collectCoSignatures(proposal, { data });
+    assert.deepEqual(final.coSignatures!.map(s => s.oracle), [b.oraclePublicKey]);
+
+    const isolated = coordinator([downPeer(b), downPeer(c)]);
+    await assert.rejects(isolated.collectCoSignatures(proposal, { data }), /Quorum not reached for agent-1: connect ECONNREFUSED; connect ECONNREFUSED; 1 of 2/);
+  });
+
+  it('only writes and reads attestations that reached quorum', async () => {
+    const { coordinator, keys, data, chain, clock } = quorumSetup();
+    const attestor = coordinator();
+    const proposal = await attestor.prepareAttestation(calculateTrustScore(data, { now: START }), null);
+    await assert.rejects(attestor.writeAttestation(proposal), QuorumError);
+    const [rejected] = await attestor.writeAttestations([proposal]);
+    assert.match(rejected.error!, /not final/);
+    assert.equal(chain.transactionCount, 0);
+
+    // The same oracle key without the set writes a single-signature record
+    const single = new SolanaAttestor(chain, { clock });
+    single.initOracle(keys[0].secretKey);
+    await single.writeAttestation(proposal);
+    assert.deepEqual(await attestor.readAttestations(), []);
+    assert.equal((await single.readAttestations()).length, 1);
+
+    await attestor.writeAttestation(await attestor.collectCoSignatures(proposal, { data }));
+    const records = await attestor.readAttestations();
+    assert.equal(records.length, 1);
+    assert.equal(records[0].attestation.coSignatures!.length, 2);
+
+    const verification = await attestor.verifyTransaction(records[0].signature);
+    assert.equal(verification!.valid, true);
+    assert.equal(verification!.attestations[0].quorum!.signers.length, 3);
+  });
+
+  it('accepts single-signature records confirmed before the set took effect', async () => {
+    const { keys, oracleSet, data, chain, clock } = quorumSetup();
+    const single = new SolanaAttestor(chain, { clock });
+    single.initOracle(keys[0].secretKey);
+    const signature = await single.writeAttestation(await single.prepareAttestation(calculateTrustScore(data, { now: START }), null));
+
+    const reader = (activeFrom: number) => {
+      const attestor = new SolanaAttestor(chain, { clock, oracleSet: { ...oracleSet, activeFrom } });
+      attestor.initOracle(keys[0].secretKey);
+      return attestor;
+    };
+    assert.equal((await reader(START + 1000).readAttestations()).length, 1);
+    assert.equal((await reader(START).readAttestations()).length, 0);
+    assert.equal((await reader(START).verifyTransaction(signature))!.valid, false);
+  });
+});
+
+describe('co-signing over the API', () => {
+  it('serves co-signatures to the coordinator and attests with quorum', async () => {
+    const { coordinator, chain, data, b, c } = quorumSetup();
+    const member = await startServer({ attestor: b });
+    try {
+      const peer = new HttpOraclePeer(b.oraclePublicKey!, member.url, member.keys['platform-ingest']);
+      const attestor = coordinator([peer, downPeer(c)]);
+      const proposal = await attestor.prepareAttestation(calculateTrustScore(data, { now: START }), null);
+      // The member scores the wallet from its own reading of the chain
+      await assert.rejects(attestor.collectCoSignatures(proposal, { data }), /disagrees with this oracle: .*onchainReputation/);
+      seedWalletHistory(chain, new PublicKey(data.solanaWallet));
+      const final = await attestor.collectCoSignatures(proposal, { data });
+      assert.equal(final.coSignatures![0].oracle, b.oraclePublicKey);
+
+      const tampered = await attestor.prepareAttestation({ ...proposal, trustScore: 1 }, null);
+      await assert.rejects(peer.cosign({ proposal: tampered, data }), /disagrees with this oracle: trustScore/);
+      const missing = await member.request('POST', '/oracle/cosign', { body: { proposal } });
+      assert.equal(missing.status, 400);
+      const reader = await member.request('POST', '/oracle/cosign', { key: member.keys.reader, body: { proposal, data } });
+      assert.equal(reader.status, 403);
+    } finally {
+      await member.close();
+    }
+  });
+
+  it('answers 503 when an attestation cannot reach quorum', async () => {
+    const { coordinator, b, c } = quorumSetup();
+    const server = await startServer({ attestor: coordinator([downPeer(b), downPeer(c)]) });
+    try {
+      const wallet = await registerAgent(server, 'agent-1');
+      const body = maxedPlatformData({ agentId: 'agent-1', solanaWallet: wallet.publicKey.toBase58() });
+      const { status, body: error } = await server.request('POST', '/trust/attest', { body });
+      assert.equal(status, 503);
+      assert.equal(error.code, 'quorum_not_reached');
+    } finally {
+      await server.close();
+    }
+  });
+});
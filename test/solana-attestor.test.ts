@@ -0,0 +1,253 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, LAMPORTS_PER_SOL, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { SolanaAttestor, StaleAttestationError } from '../src/solana-attestor';
+import { calculateTrustScore } from '../src/trust-engine';
+import { verifyAttestation } from '../src/attestation-signing';
+import {
+  AttestationStatus,
+  TrustAttestation,
+  decodeAttestation,
+  encodeAttestation,
+  fromCompactAttestation,
+  toCompactAttestation,
+} from '../src/schema';
+import { FAKE_CHAIN_FEE_LAMPORTS } from '../src/fake-chain';
+import { KeypairSigner } from '../src/oracle-signer';
+import { DAY, START, maxedPlatformData, testChain } from './helpers';
+
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+function memoTransaction(memo: string, signer: PublicKey, others: PublicKey[] = []): Transaction {
+  return new Transaction().add(new TransactionInstruction({
+    keys: [signer, ...others].map((pubkey, i) => ({ pubkey, isSigner: i === 0, isWritable: false })),
+    programId: MEMO_PROGRAM_ID,
+    data: Buffer.from(memo),
+  }));
+}
+
+function attestation(agentId: string, overrides: Partial<TrustAttestation> = {}): TrustAttestation {
+  return { ...calculateTrustScore(maxedPlatformData({ agentId }), { now: START }), ...overrides };
+}
+
+describe('attestation memos', () => {
+  it('round-trips a signed attestation through writeAttestation and readAttestations', async () => {
+    const { attestor, clock } = testChain();
+    const signed = await attestor.prepareAttestation(attestation('agent-1'), null);
+    clock.advance(5000);
+    const signature = await attestor.writeAttestation(signed);
+
+    const [record] = await attestor.readAttestations();
+    assert.equal(record.signature, signature);
+    assert.equal(record.blockTime, Math.floor(clock.now() / 1000));
+    const { payloadHash, ...read } = record.attestation;
+    const { payloadHash: _, ...written } = signed;
+    assert.deepEqual(read, written);
+    assert.equal(payloadHash, signed.payloadHash);
+    assert.equal(verifyAttestation(record.attestation, [attestor.oraclePublicKey!]).valid, true);
+  });
+
+  it('stores timestamps at second precision without breaking the signature', async () => {
+    const { attestor } = testChain();
+    const signed = await attestor.prepareAttestation(attestation('agent-1', { attestedAt: START + 789, lastActivityAt: START - 123 }), null);
+    await attestor.writeAttestation(signed);
+
+    const [record] = await attestor.readAttestations();
+    assert.equal(record.attestation.attestedAt, START);
+    assert.equal(record.attestation.lastActivityAt, START - 1000);
+    assert.equal(verifyAttestation(record.attestation).valid, true);
+  });
+
+  it('round-trips the binary encoding', async () => {
+    const { attestor } = testChain();
+    const signed = await attestor.prepareAttestation(attestation('agent-1', { modelId: 'custom', modelVersion: 3 }), null);
+    const decoded = decodeAttestation(encodeAttestation(signed), signed.attestedBy);
+    assert.equal(decoded.modelId, 'custom');
+    assert.equal(decoded.modelVersion, 3);
+    assert.equal(decoded.baseComponents, true);
+    assert.equal(decoded.oracleSignature, signed.oracleSignature);
+    assert.equal(decoded.trustScore, signed.trustScore);
+  });
+
+  it('reads legacy compact JSON memos', async () => {
+    const { attestor, chain, oracle } = testChain();
+    const legacy = attestation('legacy-agent', {
+      baseComponents: undefined, modelId: undefined, modelVersion: undefined, tierExpiresAt: undefined, scoreCeiling: undefined, lapsedCeiling: undefined,
+    });
+    const compact = toCompactAttestation(legacy);
+    // Unset fields only differ in whether the key is present
+    const defined = (a: TrustAttestation) => JSON.parse(JSON.stringify(a));
+    assert.deepEqual(defined(fromCompactAttestation(compact, legacy.attestedBy)), defined(legacy));
+
+    await chain.sendTransaction(memoTransaction(`MDEN_TRUST:${JSON.stringify(compact)}`, oracle.publicKey), [new KeypairSigner(oracle)]);
+    const [record] = await attestor.readAttestations();
+    assert.equal(record.attestation.agentId, 'legacy-agent');
+    assert.equal(record.attestation.trustScore, legacy.trustScore);
+    assert.equal(record.attestation.attestedBy, oracle.publicKey.toBase58());
+  });
+
+  it('ignores records paid for by anyone but the oracle', async () => {
+    const { attestor, chain, oracle } = testChain();
+    const impostor = Keypair.generate();
+    chain.fund(impostor.publicKey, 1);
+    const compact = toCompactAttestation(attestation('forged'));
+    await chain.sendTransaction(
+      memoTransaction(`MDEN_TRUST:${JSON.stringify(compact)}`, impostor.publicKey, [oracle.publicKey]), [new KeypairSigner(impostor)]);
+
+    const page = await attestor.readTrustRecordPage();
+    assert.equal(page.transactionCount, 1);
+    assert.deepEqual(page.attestations, []);
+  });
+
+  it('drops attestations whose payload signature does not verify', async () => {
+    const { attestor, chain, oracle } = testChain();
+    const other = testChain().attestor;
+    const foreign = await other.prepareAttestation(attestation('agent-1'), null);
+    const memo = `MDEN_TRUST_BIN:${Buffer.from(encodeAttestation(foreign)).toString('base64')}`;
+    await chain.sendTransaction(memoTransaction(memo, oracle.publicKey), [new KeypairSigner(oracle)]);
+
+    assert.deepEqual(await attestor.readAttestations(), []);
+  });
+
+  it('refuses to write an attestation signed by another oracle', async () => {
+    const { attestor } = testChain();
+    const foreign = await testChain().attestor.prepareAttestation(attestation('agent-1'), null);
+    await assert.rejects(attestor.writeAttestation(foreign), /not validly signed by this oracle/);
+  });
+
+  it('requires an oracle', async () => {
+    const { chain } = testChain();
+    const attestor = new SolanaAttestor(chain);
+    await assert.rejects(attestor.writeAttestation(attestation('agent-1')), /Oracle not initialized/);
+  });
+});
+
+describe('versioning', () => {
+  it('links each version to its predecessor', async () => {
+    const { attestor, clock } = testChain();
+    const first = await attestor.prepareAttestation(attestation('agent-1'), null);
+    const signature = await attestor.writeAttestation(first);
+    const [previous] = await attestor.readAttestations();
+
+    clock.advance(DAY);
+    const second = await attestor.prepareAttestation(attestation('agent-1', { attestedAt: clock.now() }), previous);
+    assert.equal(second.version, 2);
+    assert.equal(second.previousSignature, signature);
+  });
+
+  it('rejects attestations older than the latest one', async () => {
+    const { attestor } = testChain();
+    await attestor.writeAttestation(await attestor.prepareAttestation(attestation('agent-1'), null));
+    const [previous] = await attestor.readAttestations();
+
+    await assert.rejects(
+      attestor.prepareAttestation(attestation('agent-1', { attestedAt: START - 1000 }), previous),
+      StaleAttestationError);
+    await assert.rejects(
+      attestor.prepareAttestation(attestation('agent-1', { lastActivityAt: START - 1000 }), previous),
+      /older activity data/);
+  });
+});
+
+describe('batches', () => {
+  it('packs several attestations into each transaction', async () => {
+    const { attestor, chain } = testChain();
+    const batch = await Promise.all(Array.from({ length: 5 }, (_, i) => attestor.prepareAttestation(attestation(`agent-${i}`), null)));
+    const results = await attestor.writeAttestations(batch);
+
+    assert.ok(results.every(r => r.signature && r.error === null && r.attempts === 1));
+    const transactions = new Set(results.map(r => r.signature)).size;
+    assert.ok(transactions < batch.length);
+    assert.equal(chain.transactionCount, transactions);
+
+    const read = await attestor.readAttestations(10);
+    assert.deepEqual(read.map(r => r.attestation.agentId).sort(), batch.map(a => a.agentId).sort());
+  });
+
+  it('retries a failed chunk', async () => {
+    const { attestor, chain } = testChain();
+    chain.failNextSend(new Error('blockhash expired'));
+    const [result] = await attestor.writeAttestations([attestation('agent-1')], { retryDelayMs: 1 });
+    assert.equal(result.attempts, 2);
+    assert.ok(result.signature);
+    assert.equal(result.error, null);
+  });
+
+  it('reports each agent of a chunk that keeps failing', async () => {
+    const { attestor, chain } = testChain();
+    for (let i = 0; i < 3; i++) chain.failNextSend(new Error('node is behind'));
+    const results = await attestor.writeAttestations([attestation('a'), attestation('b')], { maxRetries: 2, retryDelayMs: 1 });
+    assert.deepEqual(results.map(r => [r.signature, r.error, r.attempts]), [[null, 'node is behind', 3], [null, 'node is behind', 3]]);
+  });
+
+  it('rejects attestations that cannot be encoded on their own', async () => {
+    const { attestor } = testChain();
+    const results = await attestor.writeAttestations([
+      attestation('too-long', { agentName: 'x'.repeat(2000) }),
+      attestation('fine'),
+    ]);
+    assert.match(results[0].error!, /exceeds the transaction size limit/);
+    assert.ok(results[1].signature);
+  });
+});
+
+describe('status changes', () => {
+  it('round-trips revocations and reinstatements', async () => {
+    const { attestor, clock } = testChain();
+    await attestor.writeStatusChange('agent-1', AttestationStatus.REVOKED, 'key compromised');
+    clock.advance(60_000);
+    await attestor.writeStatusChange('agent-1', AttestationStatus.ACTIVE, 'reinstated');
+
+    const changes = await attestor.readStatusChanges();
+    assert.deepEqual(changes.map(c => [c.change.status, c.change.reason, c.change.changedAt]), [
+      [AttestationStatus.ACTIVE, 'reinstated', START + 60_000],
+      [AttestationStatus.REVOKED, 'key compromised', START],
+    ]);
+    assert.equal(changes[0].change.changedBy, attestor.oraclePublicKey);
+  });
+});
+
+describe('history pages', () => {
+  it('paginates newest first with before and until', async () => {
+    const { attestor } = testChain();
+    const signatures: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      signatures.push(await attestor.writeStatusChange(`agent-${i}`, AttestationStatus.SUSPENDED, 'test'));
+    }
+
+    const first = await attestor.readTrustRecordPage({ limit: 2 });
+    assert.equal(first.newestSignature, signatures[4]);
+    assert.equal(first.oldestSignature, signatures[3]);
+    const second = await attestor.readTrustRecordPage({ before: first.oldestSignature!, limit: 2 });
+    assert.deepEqual(second.statusChanges.map(s => s.signature), [signatures[2], signatures[1]]);
+    const newer = await attestor.readTrustRecordPage({ until: signatures[2] });
+    assert.deepEqual(newer.statusChanges.map(s => s.signature), [signatures[4], signatures[3]]);
+  });
+});
+
+describe('oracle balance', () => {
+  it('pays a fee per transaction and fails when out of funds', async () => {
+    const { attestor, chain, oracle } = testChain();
+    assert.equal(await attestor.getBalance(), 1);
+    await attestor.writeAttestation(await attestor.prepareAttestation(attestation('agent-1'), null));
+    assert.equal(await attestor.getBalance(), 1 - FAKE_CHAIN_FEE_LAMPORTS / LAMPORTS_PER_SOL);
+
+    const poor = testChain();
+    poor.chain.fund(poor.oracle.publicKey, -1);
+    await assert.rejects(poor.attestor.writeAttestation(attestation('agent-1')), /prior credit/);
+    assert.equal(poor.chain.transactionCount, 0);
+
+    await attestor.requestAirdrop(2);
+    assert.equal(await chain.getBalance(oracle.publicKey), 3 * LAMPORTS_PER_SOL - FAKE_CHAIN_FEE_LAMPORTS);
+  });
+});
+
+describe('addresses', () => {
+  it('derives agent addresses from the trust program', () => {
+    const { attestor } = testChain();
+    const address = attestor.getAttestationAddress('agent-1');
+    assert.equal(address, attestor.getAttestationAddress('agent-1'));
+    assert.notEqual(address, attestor.getAttestationAddress('agent-2'));
+    assert.equal(PublicKey.isOnCurve(new PublicKey(address).toBytes()), false);
+  });
+});
@@ -0,0 +1,311 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fc from 'fast-check';
+import {
+  AgentPlatformData,
+  calculateTrustScore,
+  decayAttestation,
+  decayFactor,
+  decayedComponents,
+  explainTrustScore,
+  getCurrentScore,
+} from '../src/trust-engine';
+import { AttestationStatus, TRUST_COMPONENTS, TrustAttestation, VerificationTier } from '../src/schema';
+import { CURRENT_SCORING_MODEL, DEFAULT_SCORING_MODEL, ScoringModel, registerScoringModel, resolveModelRef } from '../src/scoring-model';
+import { validatePlatformData } from '../src/validation';
+import { DAY, START, maxedPlatformData, platformData } from './helpers';
+
+const MONTH = (365.25 / 12) * DAY;
+
+function score(overrides: Partial<AgentPlatformData>, now = START): TrustAttestation {
+  return calculateTrustScore(platformData(overrides), { now });
+}
+
+function componentSum(attestation: TrustAttestation): number {
+  return TRUST_COMPONENTS.reduce((sum, key) => sum + attestation[key], 0);
+}
+
+describe('component scores', () => {
+  it('scores nothing for an agent with no activity', () => {
+    const attestation = score({});
+    assert.equal(attestation.trustScore, 0);
+    for (const key of TRUST_COMPONENTS) assert.equal(attestation[key], 0, key);
+  });
+
+  it('scores 1000 with every input saturated', () => {
+    const attestation = calculateTrustScore(maxedPlatformData(), { now: START });
+    assert.equal(attestation.trustScore, 1000);
+    for (const key of TRUST_COMPONENTS) {
+      assert.equal(attestation[key], DEFAULT_SCORING_MODEL.components[key].maxWeight, key);
+    }
+  });
+
+  it('platformActivity saturates each term at its threshold', () => {
+    assert.equal(score({ denMessages: 50 }).platformActivity, 30);
+    assert.equal(score({ denMessages: 100 }).platformActivity, 60);
+    assert.equal(score({ denMessages: 10_000 }).platformActivity, 60);
+    assert.equal(score({ dmsSent: 49 }).platformActivity, 39);
+    assert.equal(score({ dmsSent: 50 }).platformActivity, 40);
+    assert.equal(score({ promptResponses: 10 }).platformActivity, 50);
+    assert.equal(score({ denMessages: 100, dmsSent: 50, promptResponses: 10 }).platformActivity, 150);
+  });
+
+  it('rounds fractional points to the nearest integer', () => {
+    assert.equal(score({ denMessages: 1 }).platformActivity, 1);  // 0.6
+    assert.equal(score({ dmsSent: 1 }).platformActivity, 1);      // 0.8
+    assert.equal(score({ txCount: 2 }).onchainReputation, 0);     // 0.4
+  });
+
+  it('skillVerifications requires at least one skill and combines ratio and count', () => {
+    assert.equal(score({ verifiedSkills: 5, totalSkills: 0 }).skillVerifications, 0);
+    assert.equal(score({ verifiedSkills: 0, totalSkills: 10 }).skillVerifications, 0);
+    assert.equal(score({ verifiedSkills: 5, totalSkills: 10 }).skillVerifications, 75);
+    assert.equal(score({ verifiedSkills: 1, totalSkills: 1 }).skillVerifications, 105);
+    assert.equal(score({ verifiedSkills: 10, totalSkills: 10 }).skillVerifications, 150);
+  });
+
+  it('caps a component at its max weight', () => {
+    const { components } = explainTrustScore(platformData({ verifiedSkills: 20, totalSkills: 10 }), { now: START });
+    assert.equal(components.skillVerifications.baseScore, 150);
+    assert.equal(components.skillVerifications.capped, true);
+  });
+
+  it('endorsements weigh count and endorser quality equally', () => {
+    assert.equal(score({ endorsementsReceived: 20 }).endorsements, 75);
+    assert.equal(score({ endorserAvgTrust: 1000 }).endorsements, 75);
+    assert.equal(score({ endorsementsReceived: 10, endorserAvgTrust: 500 }).endorsements, 75);
+    assert.equal(score({ endorsementsReceived: 40, endorserAvgTrust: 1000 }).endorsements, 150);
+  });
+
+  it('reviews weigh count and average score equally', () => {
+    assert.equal(score({ reviewCount: 15 }).reviews, 75);
+    assert.equal(score({ avgReviewScore: 5 }).reviews, 75);
+    assert.equal(score({ reviewCount: 3, avgReviewScore: 4 }).reviews, 75);
+  });
+
+  it('deploymentMetrics scales uptime and response quality', () => {
+    assert.equal(score({ uptimePercent: 100 }).deploymentMetrics, 75);
+    assert.equal(score({ uptimePercent: 50, responseQuality: 50 }).deploymentMetrics, 75);
+    assert.equal(score({ uptimePercent: 100, responseQuality: 100 }).deploymentMetrics, 150);
+  });
+
+  it('onchainReputation saturates at a year and 100 transactions in v1', () => {
+    const v1 = (overrides: Partial<AgentPlatformData>) =>
+      calculateTrustScore(platformData(overrides), { now: START, model: DEFAULT_SCORING_MODEL });
+    assert.equal(v1({ walletAge: 365 }).onchainReputation, 50);
+    assert.equal(v1({ walletAge: 730 }).onchainReputation, 50);
+    assert.equal(v1({ txCount: 100 }).onchainReputation, 50);
+    assert.equal(v1({ walletAge: 365, txCount: 100 }).onchainReputation, 100);
+  });
+
+  it('onchainReputation in v2 needs transactions and weighs diversity, failures and flagged counterparties', () => {
+    const clean = { txCount: 100, failedTxRatio: 0, flaggedInteractions: 0 };
+    assert.equal(score({ walletAge: 365, counterparties: 25, failedTxRatio: 0, flaggedInteractions: 0 }).onchainReputation, 0);
+    assert.equal(score(clean).onchainReputation, 55);
+    assert.equal(score({ ...clean, walletAge: 365, counterparties: 25 }).onchainReputation, 100);
+    assert.equal(score({ ...clean, counterparties: 5 }).onchainReputation, 59);
+    assert.equal(score({ ...clean, failedTxRatio: 0.25 }).onchainReputation, 48);
+    assert.equal(score({ ...clean, failedTxRatio: 0.8 }).onchainReputation, 40);
+    assert.equal(score({ ...clean, flaggedInteractions: 2 }).onchainReputation, 35);
+    // Inputs that weren't collected earn nothing
+    assert.equal(score({ txCount: 100 }).onchainReputation, 20);
+  });
+
+  it('securityAudit only counts a passed audit', () => {
+    assert.equal(score({ auditScore: 100, securityAuditPassed: false }).securityAudit, 0);
+    assert.equal(score({ auditScore: 100, securityAuditPassed: true }).securityAudit, 100);
+    assert.equal(score({ auditScore: 40, securityAuditPassed: true }).securityAudit, 40);
+  });
+
+  it('accountAge saturates at 180 days', () => {
+    assert.equal(score({ accountAgeDays: 90 }).accountAge, 25);
+    assert.equal(score({ accountAgeDays: 180 }).accountAge, 50);
+    assert.equal(score({ accountAgeDays: 1000 }).accountAge, 50);
+  });
+
+  it('explains what would raise each unsaturated component', () => {
+    const { hints } = explainTrustScore(platformData({ denMessages: 50 }), { now: START });
+    const activity = hints.find(h => h.component === 'platformActivity')!;
+    assert.match(activity.hint, /Reach 100 denMessages \(currently 50\) for up to 30 more points/);
+    assert.equal(activity.potentialGain, 120);
+  });
+});
+
+describe('decay', () => {
+  it('loses the monthly rate per inactive month on decaying components', () => {
+    const attestation = calculateTrustScore(maxedPlatformData({ lastActivityAt: START - MONTH }), { now: START });
+    // 150 * 0.95 = 142.5 on the four decaying components; the rest are untouched
+    assert.equal(attestation.platformActivity, 150); // Stored before decay
+    assert.equal(attestation.trustScore, 4 * 143 + 400);
+    assert.equal(attestation.baseComponents, true);
+  });
+
+  it('does not decay within the same second', () => {
+    const attestation = calculateTrustScore(maxedPlatformData({ lastActivityAt: START - 999 }), { now: START });
+    assert.equal(attestation.trustScore, 1000);
+  });
+
+  it('decayFactor follows the monthly rate, half-life and floor', () => {
+    assert.equal(decayFactor({}, 0.05, 0), 1);
+    assert.ok(Math.abs(decayFactor({}, 0.05, MONTH) - 0.95) < 1e-12);
+    assert.ok(Math.abs(decayFactor({}, 0.05, 2 * MONTH) - 0.9025) < 1e-12);
+    assert.ok(Math.abs(decayFactor({ monthlyRate: 0.1 }, 0.05, MONTH) - 0.9) < 1e-12);
+    assert.ok(Math.abs(decayFactor({ halfLifeDays: 10 }, 0.05, 10 * DAY) - 0.5) < 1e-12);
+    assert.equal(decayFactor({ halfLifeDays: 10, floor: 0.6 }, 0.05, 10 * DAY), 0.6);
+    assert.equal(decayFactor({ floor: 0.5 }, 0.05, 1000 * MONTH), 0.5);
+  });
+
+  it('applies per-component rules from the model', () => {
+    const model: ScoringModel = {
+      ...DEFAULT_SCORING_MODEL,
+      id: 'test-decay-rules',
+      decay: {
+        ...DEFAULT_SCORING_MODEL.decay,
+        rules: { reviews: { halfLifeDays: 30 }, endorsements: { floor: 0.99 } },
+      },
+    };
+    registerScoringModel(model);
+    const attestation = calculateTrustScore(maxedPlatformData({ lastActivityAt: START - 30 * DAY }), { now: START, model });
+    const current = decayedComponents(attestation, START);
+    assert.equal(current.reviews, 75);
+    assert.equal(current.endorsements, Math.round(150 * 0.99));
+    assert.equal(current.accountAge, 50);
+    assert.equal(attestation.trustScore, componentSum({ ...attestation, ...current }));
+  });
+
+  it('keeps decaying the stored base components over time', () => {
+    const attestation = calculateTrustScore(maxedPlatformData({ lastActivityAt: START }), { now: START });
+    assert.equal(getCurrentScore(attestation, START).currentScore, 1000);
+    const later = getCurrentScore(attestation, START + MONTH);
+    assert.equal(later.currentScore, 4 * 143 + 400);
+    assert.equal(later.decayApplied, 1000 - later.currentScore);
+  });
+
+  it('decays legacy records from when they were attested', () => {
+    // Legacy components were stored already decayed as of attestedAt
+    const legacy: TrustAttestation = {
+      ...calculateTrustScore(maxedPlatformData({ lastActivityAt: START - 6 * MONTH }), { now: START }),
+      baseComponents: undefined,
+      platformActivity: 100,
+      endorsements: 100,
+      reviews: 100,
+      deploymentMetrics: 100,
+    };
+    assert.equal(getCurrentScore(legacy, START).currentScore, 800);
+    assert.equal(getCurrentScore(legacy, START + MONTH).currentScore, 4 * 95 + 400);
+  });
+
+  it('carries decay forward into a new unsigned attestation', () => {
+    const attestation = calculateTrustScore(maxedPlatformData({ lastActivityAt: START }), { now: START });
+    const decayed = decayAttestation({ ...attestation, oracleSignature: 'sig', previousSignature: 'prev' }, START + MONTH);
+    assert.equal(decayed.attestedAt, START + MONTH);
+    assert.equal(decayed.trustScore, 4 * 143 + 400);
+    assert.equal(decayed.platformActivity, 150);
+    assert.equal(decayed.oracleSignature, undefined);
+    assert.equal(decayed.previousSignature, undefined);
+  });
+
+  it('reports no trust for suspended and revoked agents', () => {
+    const attestation = calculateTrustScore(maxedPlatformData(), { now: START });
+    for (const status of [AttestationStatus.SUSPENDED, AttestationStatus.REVOKED]) {
+      assert.deepEqual(getCurrentScore({ ...attestation, status }, START), { currentScore: 0, decayApplied: 0 });
+    }
+  });
+});
+
+describe('score properties', () => {
+  const nonNegative = (max: number) => fc.double({ min: 0, max, noNaN: true });
+  const count = (max: number) => fc.integer({ min: 0, max });
+
+  const platformDataArb = fc.record({
+    denMessages: count(1000),
+    dmsSent: count(500),
+    promptResponses: count(100),
+    totalSkills: count(30),
+    endorsementsReceived: nonNegative(100),
+    endorserAvgTrust: nonNegative(1000),
+    reviewCount: count(100),
+    avgReviewScore: nonNegative(5),
+    uptimePercent: nonNegative(100),
+    responseQuality: nonNegative(100),
+    walletAge: nonNegative(2000),
+    txCount: count(1000),
+    securityAuditPassed: fc.boolean(),
+    auditScore: nonNegative(100),
+    accountAgeDays: nonNegative(2000),
+    verificationTier: fc.constantFrom(...Object.values(VerificationTier).filter((v): v is number => typeof v === 'number')),
+    inactiveMs: fc.integer({ min: 0, max: 1000 * DAY }),
+    verifiedFraction: fc.double({ min: 0, max: 1, noNaN: true }),
+  }).map(({ inactiveMs, verifiedFraction, ...data }) => platformData({
+    ...data,
+    verifiedSkills: Math.floor(data.totalSkills * verifiedFraction),
+    lastActivityAt: START - inactiveMs,
+  }));
+
+  it('generates valid platform data', () => {
+    fc.assert(fc.property(platformDataArb, data => {
+      validatePlatformData(data, START);
+    }));
+  });
+
+  it('keeps every component within its weight and the score within 0-1000', () => {
+    fc.assert(fc.property(platformDataArb, data => {
+      const attestation = calculateTrustScore(data, { now: START });
+      for (const key of TRUST_COMPONENTS) {
+        assert.ok(Number.isInteger(attestation[key]), key);
+        assert.ok(attestation[key] >= 0 && attestation[key] <= DEFAULT_SCORING_MODEL.components[key].maxWeight, key);
+      }
+      assert.ok(Number.isInteger(attestation.trustScore));
+      assert.ok(attestation.trustScore >= 0 && attestation.trustScore <= 1000);
+    }));
+  });
+
+  it('scores the sum of components when there is no inactivity', () => {
+    fc.assert(fc.property(platformDataArb, data => {
+      const attestation = calculateTrustScore({ ...data, lastActivityAt: START }, { now: START });
+      assert.equal(attestation.trustScore, Math.min(componentSum(attestation), attestation.scoreCeiling ?? 1000));
+    }));
+  });
+
+  it('scores the sum of decayed components, which is the current score at attestation time', () => {
+    fc.assert(fc.property(platformDataArb, data => {
+      const attestation = calculateTrustScore(data, { now: START });
+      const decayed = decayedComponents(attestation, attestation.attestedAt);
+      const decayedSum = TRUST_COMPONENTS.reduce((sum, key) => sum + decayed[key], 0);
+      assert.equal(attestation.trustScore, Math.min(decayedSum, attestation.scoreCeiling ?? 1000));
+      assert.equal(getCurrentScore(attestation, attestation.attestedAt).currentScore, attestation.trustScore);
+      assert.ok(attestation.trustScore <= componentSum(attestation));
+    }));
+  });
+
+  it('never increases the current score as time passes', () => {
+    fc.assert(fc.property(platformDataArb, fc.integer({ min: 0, max: 1000 * DAY }), (data, elapsed) => {
+      const attestation = calculateTrustScore(data, { now: START });
+      const now = getCurrentScore(attestation, START).currentScore;
+      const later = getCurrentScore(attestation, START + elapsed).currentScore;
+      assert.ok(later <= now && later >= 0);
+    }));
+  });
+
+  it('never lowers the score when an input increases', () => {
+    fc.assert(fc.property(platformDataArb, fc.constantFrom('denMessages', 'reviewCount', 'txCount', 'uptimePercent') as fc.Arbitrary<keyof AgentPlatformData>, (data, field) => {
+      const before = calculateTrustScore(data, { now: START }).trustScore;
+      const after = calculateTrustScore({ ...data, [field]: (data[field] as number) + 1 }, { now: START }).trustScore;
+      assert.ok(after >= before);
+    }));
+  });
+});
+
+describe('model references', () => {
+  it('resolves a bare id to its latest registered version', () => {
+    assert.equal(resolveModelRef(CURRENT_SCORING_MODEL.id), CURRENT_SCORING_MODEL);
+    assert.equal(resolveModelRef(`${CURRENT_SCORING_MODEL.id}@1`), DEFAULT_SCORING_MODEL);
+
+    registerScoringModel({ ...DEFAULT_SCORING_MODEL, id: 'test-partner', version: 3 });
+    registerScoringModel({ ...DEFAULT_SCORING_MODEL, id: 'test-partner', version: 1 });
+    assert.equal(resolveModelRef('test-partner')!.version, 3);
+    assert.equal(resolveModelRef('test-partner@1')!.version, 1);
+    assert.equal(resolveModelRef('test-partner@2'), null);
+    assert.equal(resolveModelRef('unknown'), null);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import {
+  TRUST_PROGRAM_ID,
+  TrustProgramClient,
+  decodeAgentAccount,
+  decodeTrustAccount,
+  encodeAgentAccount,
+  encodeTrustAccount,
+} from '../src/trust-program';
+import { calculateTrustScore } from '../src/trust-engine';
+import { verifyAttestation } from '../src/attestation-signing';
+import { AttestationStatus } from '../src/schema';
+import { START, maxedPlatformData, testChain } from './helpers';
+
+function discriminator(preimage: string): Buffer {
+  return crypto.createHash('sha256').update(preimage).digest().subarray(0, 8);
+}
+
+async function setup() {
+  const { chain, attestor } = testChain();
+  const client = new TrustProgramClient(chain);
+  const wallet = Keypair.generate().publicKey;
+  const attestation = await attestor.prepareAttestation(
+    calculateTrustScore(maxedPlatformData({ agentId: 'agent-1', solanaWallet: wallet.toBase58() }), { now: START }), null);
+  return { chain, attestor, client, wallet, attestation };
+}
+
+describe('account encoding', () => {
+  it('round-trips a trust account with a verifiable signature', async () => {
+    const { attestation } = await setup();
+    const { bump, attestation: decoded } = decodeTrustAccount(encodeTrustAccount(attestation, 254), 'address');
+    assert.equal(bump, 254);
+    assert.equal(decoded.trustScore, attestation.trustScore);
+    assert.equal(decoded.payloadHash, attestation.payloadHash);
+    assert.equal(verifyAttestation(decoded, [attestation.attestedBy]).valid, true);
+  });
+
+  it('keeps the revocation reason of a non-active account', async () => {
+    const { attestation } = await setup();
+    const revoked = { ...attestation, status: AttestationStatus.REVOKED, revocationReason: 'compromised' };
+    const { attestation: decoded } = decodeTrustAccount(encodeTrustAccount(revoked, 255), 'address');
+    assert.equal(decoded.status, AttestationStatus.REVOKED);
+    assert.equal(decoded.revocationReason, 'compromised');
+    // Status is outside the signed payload
+    assert.equal(verifyAttestation(decoded).valid, true);
+  });
+
+  it('round-trips an agent account at second precision', () => {
+    const wallet = Keypair.generate().publicKey.toBase58();
+    const data = encodeAgentAccount({ bump: 1, agentId: 'agent-1', wallet, registeredAt: START + 500 });
+    assert.deepEqual(decodeAgentAccount(data, 'address'), { address: 'address', bump: 1, agentId: 'agent-1', wallet, registeredAt: START });
+  });
+
+  it('rejects data of another account type', () => {
+    const data = encodeAgentAccount({ bump: 1, agentId: 'agent-1', wallet: Keypair.generate().publicKey.toBase58(), registeredAt: START });
+    assert.throws(() => decodeTrustAccount(data, 'address'), /not a TrustAccount/);
+  });
+});
+
+describe('addresses and instructions', () => {
+  it('derives agent PDAs from the sha256 of the agent id', () => {
+    const client = new TrustProgramClient(testChain().chain);
+    const longId = 'agent-'.repeat(20);
+    const [address] = client.findAgentAddress(longId);
+    const seed = crypto.createHash('sha256').update(longId).digest();
+    assert.ok(address.equals(PublicKey.findProgramAddressSync([Buffer.from('agent'), seed], TRUST_PROGRAM_ID)[0]));
+    assert.equal(PublicKey.isOnCurve(address.toBytes()), false);
+  });
+
+  it('prefixes instruction data with Anchor discriminators', async () => {
+    const { client, attestation, wallet } = await setup();
+    const oracle = attestation.attestedBy;
+    assert.deepEqual(client.registerAgentInstruction('agent-1', wallet).data.subarray(0, 8), discriminator('global:register_agent'));
+    assert.deepEqual(client.attestTrustInstruction(attestation, oracle).data.subarray(0, 8), discriminator('global:attest_trust'));
+    assert.deepEqual(client.queryTrustInstruction(wallet).data, discriminator('global:query_trust'));
+    assert.deepEqual(client.revokeTrustInstruction(wallet, oracle, 'x').data.subarray(0, 8), discriminator('global:revoke_trust'));
+  });
+
+  it('marks the oracle as signer of attest_trust and the trust PDA as writable', async () => {
+    const { client, attestation } = await setup();
+    const instruction = client.attestTrustInstruction(attestation, attestation.attestedBy);
+    const [trust] = client.findTrustAddress(attestation.solanaWallet);
+    assert.ok(instruction.keys.find(k => k.pubkey.equals(trust))!.isWritable);
+    assert.ok(instruction.keys.find(k => k.pubkey.toBase58() === attestation.attestedBy)!.isSigner);
+  });
+});
+
+describe('reading accounts', () => {
+  it('queries trust by agent id through the agent account', async () => {
+    const { chain, client, wallet, attestation } = await setup();
+    assert.equal(await client.queryTrust('agent-1'), null);
+
+    const [agentAddress, agentBump] = client.findAgentAddress('agent-1');
+    const [trustAddress, trustBump] = client.findTrustAddress(wallet);
+    chain.setAccount(agentAddress, {
+      owner: TRUST_PROGRAM_ID,
+      data: encodeAgentAccount({ bump: agentBump, agentId: 'agent-1', wallet: wallet.toBase58(), registeredAt: START }),
+    });
+    assert.equal(await client.queryTrust('agent-1'), null);
+
+    chain.setAccount(trustAddress, { owner: TRUST_PROGRAM_ID, data: encodeTrustAccount(attestation, trustBump) });
+    const account = await client.queryTrust('agent-1');
+    assert.equal(account!.address, trustAddress.toBase58());
+    assert.equal(account!.attestation.trustScore, attestation.trustScore);
+  });
+
+  it('ignores accounts the program does not own', async () => {
+    const { chain, client, wallet, attestation } = await setup();
+    const [trustAddress, bump] = client.findTrustAddress(wallet);
+    chain.setAccount(trustAddress, { owner: Keypair.generate().publicKey, data: encodeTrustAccount(attestation, bump) });
+    assert.equal(await client.getTrustAccount(wallet), null);
+  });
+});
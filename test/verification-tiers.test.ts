@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import * as fs from 'fs';
+import { calculateTrustScore, decayAttestation, explainTrustScore, getCurrentScore } from '../src/trust-engine';
+import { VerificationTier, decodeAttestation, encodeAttestation } from '../src/schema';
+import { hashAttestation } from '../src/attestation-signing';
+import {
+  DEFAULT_TIER_POLICY,
+  TierPolicyError,
+  TierViolationError,
+  effectiveTier,
+  loadTierPolicy,
+  validateTierPolicy,
+} from '../src/verification-tiers';
+import { DAY, START, maxedPlatformData, tempDir, testChain } from './helpers';
+
+describe('tier rules', () => {
+  it('accepts a claimed tier whose rules are met, up the tiers below', () => {
+    const { tier } = explainTrustScore(maxedPlatformData(), { now: START });
+    assert.deepEqual(tier.violations, []);
+    assert.equal(tier.eligibleTier, VerificationTier.ENTERPRISE);
+  });
+
+  it('names every unmet rule of the claimed tier and those below', () => {
+    const data = maxedPlatformData({ verificationTier: VerificationTier.AUDITED, verifiedSkills: 1, securityAuditPassed: false });
+    const { tier } = explainTrustScore(data, { now: START });
+    assert.equal(tier.eligibleTier, VerificationTier.BASIC);
+    assert.deepEqual(tier.violations.map(v => v.message), [
+      'VERIFIED requires verifiedSkills >= 3 (got 1)',
+      'AUDITED requires securityAuditPassed (got false)',
+      'AUDITED requires securityAudit >= 70 (got 0)',
+    ]);
+
+    assert.throws(() => calculateTrustScore(data, { now: START, requireTier: true }), (err: unknown) =>
+      err instanceof TierViolationError && err.violations.length === 3);
+  });
+
+  it('reads component rules before decay', () => {
+    const { tier } = explainTrustScore(maxedPlatformData({ lastActivityAt: START - 720 * DAY }), { now: START });
+    assert.deepEqual(tier.violations, []);
+  });
+});
+
+describe('score ceilings and expiry', () => {
+  it('caps the composite at the tier ceiling, at attestation and after', () => {
+    const explanation = explainTrustScore(maxedPlatformData({ verificationTier: VerificationTier.BASIC }), { now: START });
+    const { attestation } = explanation;
+    assert.equal(attestation.trustScore, 750);
+    assert.equal(attestation.scoreCeiling, 750);
+    assert.equal(explanation.tier.ceilingApplied, 250);
+    assert.equal(attestation.tierExpiresAt, undefined);
+
+    // Decay comes off the uncapped components first
+    assert.deepEqual(getCurrentScore(attestation, START), { currentScore: 750, decayApplied: 0 });
+    const later = getCurrentScore(attestation, START + 365 * DAY);
+    assert.ok(later.currentScore < 750);
+    assert.equal(later.currentScore + later.decayApplied, 750);
+  });
+
+  it('lapses a tier to BASIC once it expires', () => {
+    const attestation = calculateTrustScore(maxedPlatformData({ verificationTier: VerificationTier.AUDITED }), { now: START });
+    assert.equal(attestation.tierExpiresAt, START + 180 * DAY);
+    assert.equal(effectiveTier(attestation, START + 180 * DAY - 1), VerificationTier.AUDITED);
+    assert.equal(effectiveTier(attestation, START + 180 * DAY), VerificationTier.BASIC);
+    assert.equal(effectiveTier({ ...attestation, verificationTier: VerificationTier.UNVERIFIED }, START + 365 * DAY), VerificationTier.UNVERIFIED);
+  });
+
+  it('holds the current score of a lapsed tier to the ceiling it falls back to', () => {
+    const attestation = calculateTrustScore(maxedPlatformData({ verificationTier: VerificationTier.AUDITED }), { now: START });
+    const expiry = attestation.tierExpiresAt!;
+    const before = getCurrentScore(attestation, expiry - 1);
+    assert.ok(before.currentScore > 750);
+    assert.deepEqual(getCurrentScore(attestation, expiry), { currentScore: 750, decayApplied: 0 });
+    assert.equal(decayAttestation(attestation, expiry).trustScore, 750);
+  });
+
+  it("records the lapsed ceiling of the attesting oracle's policy", () => {
+    const policy = { ...DEFAULT_TIER_POLICY, BASIC: { scoreCeiling: 700 } };
+    const attestation = calculateTrustScore(maxedPlatformData({ verificationTier: VerificationTier.AUDITED }), { now: START, tierPolicy: policy });
+    assert.equal(attestation.lapsedCeiling, 700);
+    assert.equal(getCurrentScore(attestation, attestation.tierExpiresAt!).currentScore, 700);
+
+    // An uncapped fallback is recorded too, so the default policy's doesn't apply
+    const uncapped = calculateTrustScore(maxedPlatformData({ verificationTier: VerificationTier.AUDITED }), { now: START, tierPolicy: { ...policy, BASIC: {} } });
+    assert.equal(uncapped.lapsedCeiling, 1000);
+    assert.ok(getCurrentScore(uncapped, uncapped.tierExpiresAt!).currentScore > 750);
+  });
+
+  it('round-trips ceiling and expiry in the signed binary encoding', async () => {
+    const { attestor } = testChain();
+    const capped = calculateTrustScore(maxedPlatformData({ verificationTier: VerificationTier.VERIFIED }), { now: START + 500 });
+    const signed = await attestor.prepareAttestation(capped, null);
+    const decoded = decodeAttestation(encodeAttestation(signed), signed.attestedBy);
+    assert.equal(decoded.scoreCeiling, 900);
+    assert.equal(decoded.tierExpiresAt, START + 365 * DAY);
+    assert.equal(decoded.lapsedCeiling, 750);
+    assert.equal(hashAttestation(decoded), signed.payloadHash);
+
+    // Uncapped tiers without expiry leave both fields out of the payload
+    const plain = await attestor.prepareAttestation(calculateTrustScore(maxedPlatformData(), { now: START, tierPolicy: {} }), null);
+    const plainDecoded = decodeAttestation(encodeAttestation(plain), plain.attestedBy);
+    assert.equal('scoreCeiling' in plainDecoded || 'tierExpiresAt' in plainDecoded || 'lapsedCeiling' in plainDecoded, false);
+    assert.equal(hashAttestation(plainDecoded), plain.payloadHash);
+  });
+});
+
+describe('tier policy files', () => {
+  it('validates custom policies', () => {
+    validateTierPolicy(DEFAULT_TIER_POLICY);
+    assert.throws(() => validateTierPolicy({
+      GOLD: {},
+      VERIFIED: { scoreCeiling: 1200, requires: [{ input: 'karma' as any, min: 1 }, { min: 2 }] },
+      AUDITED: { validForDays: 0, requires: [{ component: 'vibes' as any }] },
+    } as any), (err: unknown) => err instanceof TierPolicyError && err.issues.length === 6);
+  });
+
+  it('loads tier-policy.json, falling back to the default', () => {
+    const dir = tempDir();
+    try {
+      const file = path.join(dir, 'tier-policy.json');
+      assert.equal(loadTierPolicy(file), DEFAULT_TIER_POLICY);
+      fs.writeFileSync(file, JSON.stringify({ VERIFIED: { requires: [{ input: 'reviewCount', min: 10 }] } }));
+      const policy = loadTierPolicy(file);
+      const { tier } = explainTrustScore(maxedPlatformData({ verificationTier: VerificationTier.VERIFIED, reviewCount: 5 }), { now: START, tierPolicy: policy });
+      assert.deepEqual(tier.violations.map(v => v.field), ['reviewCount']);
+      assert.equal(tier.scoreCeiling, undefined);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});